@@ -1,81 +1,283 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Camera, RefreshCw, Trophy, AlertCircle, Loader2, VideoOff } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+import { Camera, RefreshCw, Trophy, AlertCircle, Loader2, VideoOff, FileVideo, Wifi, WifiOff, BarChart3, Settings, Hand, Keyboard, Languages, Clapperboard, ScrollText } from 'lucide-react';
 import Scene3D from './components/Scene3D';
-import { visionService } from './services/visionService';
-import { GameState, Gesture, Score, GameResult } from './types';
+import StatsPanel from './components/StatsPanel';
+import SettingsPanel from './components/SettingsPanel';
+import CalibrationPanel from './components/CalibrationPanel';
+import CommandHoldRing from './components/CommandHoldRing';
+import DebugOverlay from './components/DebugOverlay';
+import HighlightsPanel from './components/HighlightsPanel';
+import MatchLogPanel from './components/MatchLogPanel';
+import { DetectionResult, visionService } from './services/visionService';
+import { GameEngine, humanSeats, seatName } from './services/gameEngine';
+import { assignHands } from './services/handAssignment';
+import { GestureStabilizer } from './services/gestureStabilizer';
+import {
+  GestureSource,
+  GestureSourceKind,
+  MANUAL_KEYS,
+  ManualSource,
+  ReplaySource,
+  VideoFileSource,
+  WebcamSource,
+  parseRecording
+} from './services/gestureSources';
+import { AssetLoadError, LoadProgress } from './services/assetConfig';
+import { Difficulty, GameMode, GameState, Gesture, MatchFormat, Message, OpponentType, Seat, SEATS } from './types';
+import { difficultyLabel } from './services/botStrategies';
+import { RULE_SETS, gestureLabel } from './services/rules';
+import { NetMatchClient } from './services/netClient';
+import { historyStore } from './services/historyStore';
+import { recordMatches } from './services/matchRecorder';
+import { describeFormat } from './services/matchFormat';
+import { MatchSettings, loadSettings, saveSettings } from './services/settingsStore';
+import { profileStore } from './services/profileStore';
+import { Command, CommandHold } from './services/commandGestures';
+import { DetectionMetrics } from './services/detectionMetrics';
+import { HighlightRecorder } from './services/highlightRecorder';
+import { MatchLogRecorder } from './services/matchLog';
+import { assetPackStore } from './services/assetPacks';
+import { buildCommentaryContext, createCommentator } from './services/commentator';
+import { CameraError, cameraErrorMessage, cameraManager, toCameraError } from './services/cameraManager';
+import { LOCALES, Locale, i18n } from './services/i18n';
+import { useTranslation } from './components/useTranslation';
 
-const WINNING_SCORE = 3;
+const TICK_INTERVAL_MS = 50;
+
+const RELAY_URL = process.env.RELAY_URL || 'ws://localhost:8787';
+// Optional endpoint for the bot's commentary; the built-in lines are used without it
+const COMMENTARY_URL = process.env.COMMENTARY_URL || undefined;
+
+const NO_LIVE_GESTURES: Record<Seat, Gesture> = { p1: Gesture.NONE, p2: Gesture.NONE };
+
+const describeLoadProgress = (progress: LoadProgress | null): Message => {
+  if (!progress || progress.stage === 'wasm') return { key: 'loading.runtime' };
+  if (progress.stage === 'model') {
+    return progress.total
+      ? { key: 'loading.modelPercent', params: { percent: Math.round((progress.loaded / progress.total) * 100) } }
+      : { key: 'loading.modelMb', params: { mb: (progress.loaded / 1_000_000).toFixed(1) } };
+  }
+  return { key: 'loading.recognizer' };
+};
+
+const manualKeyFor = (gesture: Gesture) =>
+  Object.keys(MANUAL_KEYS).find(key => MANUAL_KEYS[key] === gesture)?.toUpperCase();
+
+// What a seat threw, for the result line
+const thrownLabel = (gesture: Gesture): Message =>
+  gesture === Gesture.NONE ? { key: 'result.noDetection' } : gestureLabel(gesture);
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// Follows the system "reduce motion" setting, including changes while open
+const usePrefersReducedMotion = () => useSyncExternalStore(
+  onChange => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  },
+  () => window.matchMedia(REDUCED_MOTION_QUERY).matches
+);
+
+// Hidden tabs run no inference
+const usePageVisible = () => useSyncExternalStore(
+  onChange => {
+    document.addEventListener('visibilitychange', onChange);
+    return () => document.removeEventListener('visibilitychange', onChange);
+  },
+  () => document.visibilityState === 'visible'
+);
 
 function App() {
-  const [gameState, setGameState] = useState<GameState>(GameState.IDLE);
-  const [score, setScore] = useState<Score>({ player: 0, bot: 0 });
-  const [playerGesture, setPlayerGesture] = useState<Gesture>(Gesture.NONE);
-  const [botGesture, setBotGesture] = useState<Gesture>(Gesture.NONE);
-  const [gameResult, setGameResult] = useState<GameResult | null>(null);
-  const [countdown, setCountdown] = useState<number>(3);
+  const { locale, t } = useTranslation();
+  const [engine] = useState(() => new GameEngine({ config: loadSettings() }));
+  const [stabilizers] = useState<Record<Seat, GestureStabilizer>>(() => ({
+    p1: new GestureStabilizer(),
+    p2: new GestureStabilizer()
+  }));
+  const match = useSyncExternalStore(engine.subscribe, engine.getState);
+  const { phase: gameState, score, countdown, result: gameResult } = match;
+  const config = engine.getConfig();
+  const { mode, difficulty, opponent, format, target } = config;
+  const isLocalMatch = opponent === OpponentType.LOCAL;
+  const isOnlineMatch = opponent === OpponentType.NETWORK;
+
+  const [net] = useState(() => new NetMatchClient(RELAY_URL));
+  const online = useSyncExternalStore(net.subscribe, net.getState);
+  const [joinCode, setJoinCode] = useState('');
+  // Relay round we asked to start; ahead of online.round while waiting for the opponent.
+  const [readyRound, setReadyRound] = useState(0);
+  const submittedRoundRef = useRef(0);
+
+  const [liveGestures, setLiveGestures] = useState<Record<Seat, Gesture>>(NO_LIVE_GESTURES);
+  const playerGesture = liveGestures.p1;
+  const liveGesturesRef = useRef(NO_LIVE_GESTURES);
   const [isModelLoading, setIsModelLoading] = useState(true);
-  const [permissionGranted, setPermissionGranted] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isSourceActive, setIsSourceActive] = useState(false);
+  const [sourceLabel, setSourceLabel] = useState<string | null>(null);
+  const [sourceKind, setSourceKind] = useState<GestureSourceKind | null>(null);
+  const isManual = isSourceActive && sourceKind === 'manual';
+  const camera = useSyncExternalStore(cameraManager.subscribe, cameraManager.getState);
+  const pageVisible = usePageVisible();
+  // Files and recordings keep their own names; cameras are named once permission is granted
+  const activeCamera = camera.devices.find(d => d.deviceId === camera.activeDeviceId);
+  const cameraLabel = activeCamera && (activeCamera.label ?? t('settings.cameraUnnamed', { number: activeCamera.number }));
+  const displayedSource = sourceKind === 'webcam' ? cameraLabel ?? t('source.webcam') : sourceLabel;
+  const [manualSource] = useState(() => new ManualSource());
+  const [manualChoice, setManualChoice] = useState(Gesture.NONE);
+  // Why manual input was switched on for the player, e.g. a denied camera
+  const [cameraNotice, setCameraNotice] = useState<Message | null>(null);
+  const reducedMotion = usePrefersReducedMotion();
+  const assetPack = useSyncExternalStore(assetPackStore.subscribe, assetPackStore.getPack);
+  const [error, setError] = useState<Message | null>(null);
+  const [assetFailure, setAssetFailure] = useState<AssetLoadError | null>(null);
+  const [spriteWarning, setSpriteWarning] = useState<Message | null>(null);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showDebug, setShowDebug] = useState(false);
+  const [showHighlights, setShowHighlights] = useState(false);
+  const [showMatchLog, setShowMatchLog] = useState(false);
+  const [metrics] = useState(() => new DetectionMetrics());
+  const [highlights] = useState(() => new HighlightRecorder());
+  const highlightState = useSyncExternalStore(highlights.subscribe, highlights.getState);
+  const [matchLog] = useState(() => new MatchLogRecorder());
+  const lastMatchLog = useSyncExternalStore(matchLog.subscribe, matchLog.getLog);
+  const [commentator] = useState(() => createCommentator(COMMENTARY_URL));
+  const [commentary, setCommentary] = useState<Message | null>(null);
+  const recordRender = useCallback((time: number, canvas: HTMLCanvasElement) => {
+      metrics.recordRender(time);
+      highlights.drawFrame(canvas);
+  }, [metrics, highlights]);
+  const [clockNow, setClockNow] = useState(() => performance.now());
+  const [commandHold] = useState(() => new CommandHold());
+  const [heldCommand, setHeldCommand] = useState<{ command: Command; progress: number } | null>(null);
+  // Read from the detection loop, so they always hold the latest render's values
+  const commandsEnabledRef = useRef(false);
+  const commandActionsRef = useRef<Partial<Record<Command, { label: string; run: () => void }>>>({});
 
   const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sourceRef = useRef<GestureSource | null>(null);
   const loopRef = useRef<number | null>(null);
+  const latestDetectionRef = useRef<DetectionResult | null>(null);
+  const readDetection = useCallback(() => latestDetectionRef.current, []);
+  // The 3D hand follows p1; in local matches that is the hand on p1's side
+  const readPlayerHand = useCallback(() => {
+    const detection = latestDetectionRef.current;
+    if (!detection) return null;
+    if (engine.getConfig().opponent !== OpponentType.LOCAL) return detection;
+    const { handAssignment } = engine.getConfig();
+    return assignHands(detection.hands ?? [], handAssignment, cameraManager.getState().preferences.mirrored).p1;
+  }, [engine]);
 
-  // Determine winner
-  const determineWinner = useCallback((p: Gesture, b: Gesture) => {
-    if (p === Gesture.NONE) return 'invalid';
-    if (p === b) return 'draw';
-    if (
-      (p === Gesture.ROCK && b === Gesture.SCISSORS) ||
-      (p === Gesture.PAPER && b === Gesture.ROCK) ||
-      (p === Gesture.SCISSORS && b === Gesture.PAPER)
-    ) {
-      return 'player';
-    }
-    return 'bot';
-  }, []);
+  const switchSource = useCallback(async (source: GestureSource) => {
+      sourceRef.current?.stop();
+      sourceRef.current = null;
+      setIsSourceActive(false);
+
+      await source.start();
+      sourceRef.current = source;
+      SEATS.forEach(seat => stabilizers[seat].reset());
+      setSourceLabel(source.label);
+      setSourceKind(source.kind);
+      setIsSourceActive(true);
+  }, [stabilizers]);
+
+  const chooseManual = useCallback((gesture: Gesture) => {
+      manualSource.choose(gesture);
+      setManualChoice(gesture);
+  }, [manualSource]);
+
+  // Keyboard & touch play; only one hand to give, so local matches fall back to the bot
+  const startManual = useCallback(async (notice: Message | null = null) => {
+      setError(null);
+      setCameraNotice(notice);
+      if (engine.getConfig().opponent === OpponentType.LOCAL && engine.configure({ opponent: OpponentType.BOT })) {
+          visionService.setNumHands(1);
+      }
+      await switchSource(manualSource);
+      setManualChoice(Gesture.NONE);
+  }, [engine, manualSource, switchSource]);
+
+  // Without a camera the game is still playable by hand
+  const onCameraError = useCallback(async (err: CameraError) => {
+      if (err.kind === 'permission_denied') {
+          await startManual({ key: 'manual.cameraDenied' });
+      } else if (err.kind === 'not_found') {
+          await startManual({ key: 'manual.noCamera' });
+      } else {
+          setError(cameraErrorMessage(err));
+      }
+  }, [startManual]);
 
   const startCamera = useCallback(async () => {
       setError(null);
+      if (!videoRef.current) return;
       try {
-          const stream = await navigator.mediaDevices.getUserMedia({ 
-              video: { 
-                  width: { ideal: 640 }, 
-                  height: { ideal: 480 },
-                  facingMode: "user"
-              }, 
-              audio: false 
-          });
-          
-          if (videoRef.current) {
-            videoRef.current.srcObject = stream;
-            videoRef.current.onloadedmetadata = () => {
-               videoRef.current?.play();
-               setPermissionGranted(true);
-            };
-          }
-      } catch (err: any) {
+          await switchSource(new WebcamSource(videoRef.current));
+          setCameraNotice(null);
+      } catch (err) {
           console.error("Camera initialization error:", err);
-          if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-              setError("Camera access denied. Please allow camera permissions in your browser settings to play.");
-          } else if (err.name === 'NotFoundError') {
-              setError("No camera found. Please connect a camera device.");
-          } else {
-              setError(`Camera error: ${err.message || 'Unknown error'}`);
+          await onCameraError(toCameraError(err));
+      }
+  }, [switchSource, onCameraError]);
+
+  // The camera manager gave up recovering a camera that dropped out mid-session
+  useEffect(() => {
+      const source = sourceRef.current;
+      if (camera.status !== 'failed' || !camera.error || source?.kind !== 'webcam') return;
+      const err = camera.error;
+      console.error("Camera lost:", err);
+      source.stop();
+      sourceRef.current = null;
+      setIsSourceActive(false);
+      onCameraError(err);
+  }, [camera.status, camera.error, onCameraError]);
+
+  const startFileSource = async (file: File) => {
+      setError(null);
+      try {
+          if (file.name.endsWith('.json')) {
+              await switchSource(new ReplaySource(parseRecording(await file.text()), { loop: true }));
+          } else if (videoRef.current) {
+              await switchSource(new VideoFileSource(videoRef.current, file));
           }
-          setPermissionGranted(false);
+      } catch (err: any) {
+          console.error("Input source error:", err);
+          setError({ key: 'error.source', params: { file: file.name, message: err.message || { key: 'error.unknown' } } });
       }
-  }, []);
+  };
+
+  const onSourceFileChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (file) startFileSource(file);
+  };
+
+  // Releases the camera's tracks on unmount
+  useEffect(() => () => sourceRef.current?.stop(), []);
+  useEffect(() => () => highlights.dispose(), [highlights]);
+
+  // Every page load is its own session in the stats history
+  useEffect(() => recordMatches(engine, historyStore, crypto.randomUUID()), [engine]);
+  useEffect(() => matchLog.attach(engine), [engine, matchLog]);
 
   // Initialize MediaPipe & Camera
   useEffect(() => {
     const init = async () => {
       try {
-        await visionService.initialize();
+        visionService.configure({ profile: profileStore.getActive() });
+        await visionService.initialize(setLoadProgress);
         setIsModelLoading(false);
         await startCamera();
       } catch (err: any) {
         console.error("Initialization error:", err);
-        setError(`System error: ${err.message}`);
+        if (err instanceof AssetLoadError) setAssetFailure(err);
+        setError(err instanceof AssetLoadError
+          ? { key: 'error.asset', params: { kind: err.kind, url: err.url, reason: err.reason } }
+          : { key: 'error.system', params: { message: String(err.message) } });
         setIsModelLoading(false);
       }
     };
@@ -84,12 +286,44 @@ function App() {
 
   // Detection Loop
   useEffect(() => {
-    if (!permissionGranted || isModelLoading) return;
+    if (!isSourceActive || isModelLoading || !pageVisible) return;
 
     const detectLoop = () => {
-      if (videoRef.current && videoRef.current.readyState === 4) {
-        const result = visionService.detect(videoRef.current);
-        setPlayerGesture(result.gesture);
+      const now = performance.now();
+      const detection = sourceRef.current?.read(now);
+      if (detection) {
+        latestDetectionRef.current = detection;
+        const { opponent, handAssignment } = engine.getConfig();
+        const perSeat: Record<Seat, DetectionResult | null> = opponent === OpponentType.LOCAL
+          // Screen halves are as the players see them, so they follow the preview's mirroring
+          ? assignHands(detection.hands ?? [], handAssignment, cameraManager.getState().preferences.mirrored)
+          : { p1: detection, p2: null };
+
+        const live = { ...NO_LIVE_GESTURES };
+        humanSeats(opponent).forEach(seat => {
+          // Each hand gets its own stabilizer so one player can't smear the other's votes
+          const stable = stabilizers[seat].push(perSeat[seat] ?? { gesture: Gesture.NONE, confidence: 0 });
+          live[seat] = stable.gesture;
+          matchLog.recordFrame(seat, stable.gesture, stable.confidence);
+          engine.dispatch({ type: 'LOCK_GESTURE', seat, gesture: stable.gesture, confidence: stable.confidence });
+        });
+        // Recordings and scripts don't run the recognizer
+        const videoBacked = sourceRef.current?.kind === 'webcam' || sourceRef.current?.kind === 'video';
+        metrics.recordDetection(now, perSeat.p1 ?? detection, live.p1, videoBacked ? visionService.getStats().lastInferenceMs : null);
+
+        // Most frames repeat the previous gestures; only re-render on a change
+        if (live.p1 !== liveGesturesRef.current.p1 || live.p2 !== liveGesturesRef.current.p2) {
+          liveGesturesRef.current = live;
+          setLiveGestures(live);
+        }
+
+        if (commandsEnabledRef.current) {
+          const hold = commandHold.push(detection.categoryName, performance.now());
+          // Coarse steps keep the ring from re-rendering the app every frame
+          const shown = hold.command ? { command: hold.command, progress: Math.round(hold.progress * 20) / 20 } : null;
+          setHeldCommand(prev => (prev?.command === shown?.command && prev?.progress === shown?.progress ? prev : shown));
+          if (hold.fired) commandActionsRef.current[hold.fired]?.run();
+        }
       }
       loopRef.current = requestAnimationFrame(detectLoop);
     };
@@ -99,91 +333,267 @@ function App() {
     return () => {
         if (loopRef.current) cancelAnimationFrame(loopRef.current);
     };
-  }, [permissionGranted, isModelLoading]);
+  }, [isSourceActive, isModelLoading, pageVisible, engine, stabilizers, commandHold, metrics, matchLog]);
 
+  // Backquote toggles the diagnostics overlay (but not while typing)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (e.code !== 'Backquote' || target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA') return;
+      setShowDebug(prev => !prev);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
-  // Game Logic Loop
+  // Manual play: letter keys pick a throw from the current rule set
   useEffect(() => {
-    if (gameState === GameState.COUNTDOWN) {
-      setBotGesture(Gesture.NONE);
-      setGameResult(null);
-      
-      const timer = setInterval(() => {
-        setCountdown(prev => {
-          if (prev <= 1) {
-            clearInterval(timer);
-            setGameState(GameState.PLAYING);
-            return 3;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-      return () => clearInterval(timer);
-    }
-  }, [gameState]);
+    if (!isManual) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (e.ctrlKey || e.metaKey || e.altKey || target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA') return;
+      const gesture = MANUAL_KEYS[e.key.toLowerCase()];
+      if (gesture && RULE_SETS[mode].gestures.includes(gesture)) chooseManual(gesture);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isManual, mode, chooseManual]);
 
+  // A manual throw is picked fresh for every round
   useEffect(() => {
-    if (gameState === GameState.PLAYING) {
-        // We give a very short window in PLAYING state to just capture the frame
-        // Since MediaPipe is real-time, we can just grab the current state after a brief moment
-        let timeout = setTimeout(() => {
-            const moves = [Gesture.ROCK, Gesture.PAPER, Gesture.SCISSORS];
-            const botMove = moves[Math.floor(Math.random() * moves.length)];
-            setBotGesture(botMove);
-
-            setGameState(GameState.RESULT);
-            
-            const winner = determineWinner(playerGesture, botMove);
-            let msg = "";
-            
-            if (winner === 'invalid') {
-                msg = "No Hand Detected";
-            } else if (winner === 'player') {
-                setScore(s => ({ ...s, player: s.player + 1 }));
-                msg = "You Win!";
-            } else if (winner === 'bot') {
-                setScore(s => ({ ...s, bot: s.bot + 1 }));
-                msg = "Bot Wins!";
-            } else {
-                msg = "Draw!";
-            }
-            setGameResult({ winner: winner, message: msg });
-
-        }, 500); // 0.5s "moment" to lock in the gesture
-
-        return () => clearTimeout(timeout);
+    if (gameState === GameState.COUNTDOWN || gameState === GameState.PLAYING) return;
+    manualSource.clear();
+    setManualChoice(Gesture.NONE);
+  }, [gameState, mode, manualSource]);
+
+
+  // Game clock: the engine measures elapsed time itself, so this interval only
+  // needs to poke it; re-renders restarting the interval don't shift the timing.
+  useEffect(() => {
+    if (gameState !== GameState.COUNTDOWN && gameState !== GameState.PLAYING) return;
+
+    const timer = setInterval(() => engine.dispatch({ type: 'TICK' }), TICK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [gameState, engine]);
+
+  // Online rounds start on the relay's schedule and finish with the opponent's reveal
+  useEffect(() => {
+    net.setCallbacks({
+      onRoundStart: (_round, localCountdownEndsAt) => engine.dispatch({
+          type: 'START_ROUND',
+          at: localCountdownEndsAt - engine.getConfig().countdownSeconds * 1000
+      }),
+      onOpponentThrow: (_round, outcome, forfeitLocal) => engine.dispatch({ type: 'REMOTE_THROW', outcome, forfeitLocal })
+    });
+    return () => net.leave();
+  }, [net, engine]);
+
+  // Commit our throw as soon as the engine has locked it for this round
+  useEffect(() => {
+    if (!isOnlineMatch || !match.localLock || submittedRoundRef.current === online.round) return;
+    submittedRoundRef.current = online.round;
+    net.submitThrow(online.round, match.localLock);
+  }, [isOnlineMatch, match.localLock, online.round, net]);
+
+  // Both players play the room's rule set
+  useEffect(() => {
+    if (online.rules && engine.configure(online.rules)) visionService.setMode(online.rules.mode);
+  }, [online.rules, engine]);
+
+  // Timed matches show the clock running down between engine updates
+  const matchStartedAt = match.matchStartedAt;
+  useEffect(() => {
+    if (format !== MatchFormat.TIMED || matchStartedAt === null || gameState === GameState.GAME_OVER) return;
+    const timer = setInterval(() => setClockNow(performance.now()), 250);
+    return () => clearInterval(timer);
+  }, [format, matchStartedAt, gameState]);
+
+  // A closed room can leave a round waiting on a reveal that will never come
+  useEffect(() => {
+    if (isOnlineMatch && online.status === 'closed' && gameState !== GameState.GAME_OVER) {
+      engine.dispatch({ type: 'RESET' });
+      setReadyRound(0);
     }
-  }, [gameState, playerGesture, determineWinner]);
+  }, [isOnlineMatch, online.status, gameState, engine]);
 
+  // Each round is filmed from its countdown until just after the reveal
+  const matchRound = match.round;
   useEffect(() => {
-      if (score.player >= WINNING_SCORE || score.bot >= WINNING_SCORE) {
-          setGameState(GameState.GAME_OVER);
+      if (gameState === GameState.COUNTDOWN) {
+          highlights.start(matchRound);
+      } else if ((gameState === GameState.RESULT || gameState === GameState.GAME_OVER) && gameResult) {
+          const winner = gameResult.winner === 'p1' || gameResult.winner === 'p2' ? gameResult.winner : null;
+          highlights.finish(gameResult.message, winner);
+      } else if (gameState === GameState.IDLE) {
+          highlights.cancel();
       }
-  }, [score]);
+  }, [gameState, gameResult, matchRound, highlights]);
+
+  // The bot has its say after each round and once the match is over
+  useEffect(() => {
+      setCommentary(null);
+      if (opponent !== OpponentType.BOT) return;
+      const context = buildCommentaryContext(engine.getState(), engine.getConfig(), i18n.getLocale());
+      if (!context) return;
+      let current = true;
+      commentator.comment(context).then(line => {
+          if (current) setCommentary(line);
+      });
+      return () => {
+          current = false;
+      };
+  }, [gameState, matchRound, opponent, engine, commentator]);
 
   const resetGame = () => {
-      setScore({ player: 0, bot: 0 });
-      setGameState(GameState.IDLE);
-      setPlayerGesture(Gesture.NONE);
-      setBotGesture(Gesture.NONE);
-      setGameResult(null);
+      highlights.cancel();
+      engine.dispatch({ type: 'RESET' });
+      liveGesturesRef.current = NO_LIVE_GESTURES;
+      setLiveGestures(NO_LIVE_GESTURES);
+  };
+
+  const selectMode = (next: GameMode) => {
+      if (engine.configure({ mode: next })) visionService.setMode(next);
+  };
+
+  const selectOpponent = (next: OpponentType) => {
+      if (!engine.configure({ opponent: next })) return;
+      if (next !== OpponentType.NETWORK) net.leave();
+      visionService.setNumHands(next === OpponentType.LOCAL ? 2 : 1);
+      SEATS.forEach(seat => stabilizers[seat].reset());
+  };
+
+  const applySettings = (next: MatchSettings) => {
+      if (engine.configure(next)) saveSettings(next);
+  };
+
+  const selectDifficulty = (next: Difficulty) => {
+      engine.configure({ difficulty: next });
   };
 
   const playRound = () => {
-      setGameResult(null);
-      setGameState(GameState.COUNTDOWN);
-      setCountdown(3);
+      if (isOnlineMatch) {
+          setReadyRound(online.round + 1);
+          net.ready();
+          return;
+      }
+      engine.dispatch({ type: 'START_ROUND' });
   };
 
+  const isWaitingForOpponent = isOnlineMatch && readyRound > online.round;
+
+  const formatStatus = (() => {
+      if (gameState === GameState.IDLE) return null;
+      switch (format) {
+          case MatchFormat.FIRST_TO: return t('format.status.FIRST_TO', { target });
+          case MatchFormat.BEST_OF: return t('format.status.BEST_OF', { target, count: match.roundsPlayed });
+          case MatchFormat.SUDDEN_DEATH: return t('format.status.SUDDEN_DEATH');
+          case MatchFormat.TIMED: {
+              const left = matchStartedAt === null ? target : Math.max(0, Math.ceil(target - (clockNow - matchStartedAt) / 1000));
+              return left > 0
+                  ? t('format.status.timeLeft', { time: `${Math.floor(left / 60)}:${String(left % 60).padStart(2, '0')}` })
+                  : t('format.status.timeUp');
+          }
+      }
+  })();
+  const canStart = !isOnlineMatch || (online.status === 'paired' && online.opponentConnected);
+
+  // Command gestures stay off while a round is running and while calibrating
+  const commandsEnabled = isSourceActive && !showCalibration
+      && gameState !== GameState.COUNTDOWN && gameState !== GameState.PLAYING;
+  const commandActions: Partial<Record<Command, { label: string; run: () => void }>> = {};
+  if (showSettings || showStats || showHighlights || showMatchLog) {
+      const close = () => {
+          setShowSettings(false);
+          setShowStats(false);
+          setShowHighlights(false);
+          setShowMatchLog(false);
+      };
+      commandActions.confirm = { label: t('command.close'), run: close };
+      commandActions.quit = { label: t('command.close'), run: close };
+  } else {
+      if (gameState === GameState.GAME_OVER) {
+          commandActions.confirm = { label: t('command.playAgain'), run: resetGame };
+      } else if (canStart && !isWaitingForOpponent) {
+          commandActions.confirm = { label: t(gameState === GameState.IDLE ? 'command.start' : 'command.nextRound'), run: playRound };
+      }
+      // Leaving mid-match online would strand the opponent; use the room controls instead
+      if (gameState === GameState.GAME_OVER || (gameState === GameState.RESULT && !isOnlineMatch)) {
+          commandActions.quit = { label: t('command.quit'), run: resetGame };
+      }
+      if (gameState === GameState.IDLE && !isOnlineMatch) {
+          commandActions.settings = { label: t('command.settings'), run: () => setShowSettings(true) };
+      }
+      commandActions.stats = { label: t('command.stats'), run: () => setShowStats(true) };
+  }
+  commandsEnabledRef.current = commandsEnabled;
+  commandActionsRef.current = commandActions;
+  const heldAction = heldCommand ? commandActions[heldCommand.command] : undefined;
+
+  // Spoken by screen readers through the live region below
+  const announcement = (() => {
+      switch (gameState) {
+          case GameState.COUNTDOWN: return String(countdown);
+          case GameState.PLAYING: return t('announce.shoot');
+          case GameState.RESULT:
+              return gameResult
+                  ? [t(gameResult.message), gameResult.detail && t(gameResult.detail), t('announce.score', score)].filter(Boolean).join('. ')
+                  : '';
+          case GameState.GAME_OVER: {
+              const outcome: Message = match.matchWinner === 'draw'
+                  ? { key: 'announce.draw' }
+                  : isLocalMatch
+                      ? { key: 'announce.seatWon', params: { seat: seatName(opponent, match.matchWinner ?? 'p1') } }
+                      : { key: match.matchWinner === 'p1' ? 'announce.youWon' : 'announce.youLost' };
+              return t('announce.matchOver', { outcome, ...score });
+          }
+          default: return '';
+      }
+  })();
+
+  // What the highlight recorder draws over the scene from now on
+  const recordsVideo = isSourceActive && (sourceKind === 'webcam' || sourceKind === 'video');
+  useEffect(() => {
+      highlights.setLayers({
+          video: recordsVideo ? videoRef.current : null,
+          mirrored: camera.preferences.mirrored,
+          overlay: {
+              players: { p1: t(seatName(opponent, 'p1')), p2: t(seatName(opponent, 'p2')) },
+              score,
+              headline: gameState === GameState.COUNTDOWN
+                  ? String(countdown)
+                  : gameState === GameState.PLAYING
+                      ? t('play.showHand')
+                      : gameResult && gameState !== GameState.IDLE ? t(gameResult.message) : null,
+              detail: gameResult?.detail && gameState !== GameState.IDLE ? t(gameResult.detail) : null
+          }
+      });
+  }, [highlights, recordsVideo, camera.preferences.mirrored, opponent, score, gameState, countdown, gameResult, t]);
+
+  // A hold never carries over into another phase, and neither does a gesture
+  // still held from the command that caused the change
+  useEffect(() => {
+      commandHold.cancel();
+      setHeldCommand(null);
+  }, [commandsEnabled, gameState, commandHold]);
+
   return (
     <div className="relative w-full h-screen bg-gray-900 overflow-hidden text-white font-sans">
       {/* 3D Background/Scene */}
       <Scene3D 
         playerGesture={playerGesture} 
-        botGesture={botGesture}
-        isCountingDown={gameState === GameState.COUNTDOWN} 
+        botGesture={isLocalMatch ? liveGestures.p2 : match.seats.p2.gesture}
+        phase={gameState}
+        result={gameResult}
+        onAssetError={err => setSpriteWarning({ key: 'warning.missingSprite', params: { url: err.url } })}
+        readPlayerHand={readPlayerHand}
+        onRender={recordRender}
+        reducedMotion={reducedMotion}
+        pack={assetPack}
+        mirrored={camera.preferences.mirrored}
       />
 
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">{announcement}</div>
+
       {/* Hidden Video for MediaPipe */}
       <video 
         ref={videoRef} 
@@ -204,27 +614,158 @@ function App() {
                     MediaPipe 3D RPS
                 </h1>
                 <div className="flex items-center gap-2 text-sm text-gray-400">
-                    <Camera size={16} />
+                    {isManual ? <Keyboard size={16} /> : <Camera size={16} />}
                     <span>
-                        {isModelLoading ? 'Loading Model...' : (permissionGranted ? 'Vision Active' : 'Camera Off')}
+                        {isModelLoading
+                            ? t('status.loadingModel')
+                            : isManual
+                                ? t('source.manual')
+                                : isSourceActive
+                                    ? sourceKind === 'webcam' && camera.status === 'recovering'
+                                        ? t('status.cameraRecovering')
+                                        : t('status.visionActive', { source: displayedSource ?? '' })
+                                    : t('status.cameraOff')}
                     </span>
-                    <span className={`animate-pulse ${isModelLoading ? 'text-yellow-500' : (permissionGranted ? 'text-green-500' : 'text-red-500')}`}>●</span>
+                    <span className={`animate-pulse ${isModelLoading ? 'text-yellow-500' : (isSourceActive ? 'text-green-500' : 'text-red-500')}`}>●</span>
                 </div>
+                {isManual && cameraNotice && (
+                    <p className="text-xs text-amber-400 mt-1 max-w-xs">{t(cameraNotice)}</p>
+                )}
+                {spriteWarning && (
+                    <p className="text-xs text-amber-400 mt-1">{t(spriteWarning)}</p>
+                )}
+                {isOnlineMatch && online.status !== 'idle' && (
+                    <div className={`flex items-center gap-2 text-xs mt-1 ${online.status === 'paired' && online.opponentConnected ? 'text-gray-400' : 'text-amber-400'}`}>
+                        {online.status === 'reconnecting' || online.status === 'closed' ? <WifiOff size={14} /> : <Wifi size={14} />}
+                        <span>
+                            {online.status === 'reconnecting'
+                                ? t('online.reconnecting')
+                                : online.status === 'closed'
+                                    ? t('online.disconnected')
+                                    : online.status === 'paired' && !online.opponentConnected
+                                        ? t('online.opponentAway')
+                                        : `${t('online.room', { code: online.code ?? '...' })}${online.latencyMs !== null ? ` · ${t('online.latency', { ms: online.latencyMs })}` : ''}`}
+                        </span>
+                    </div>
+                )}
+                {!isModelLoading && !assetFailure && (
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="pointer-events-auto mt-2 flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+                    >
+                        <FileVideo size={14} />
+                        {t('menu.useVideo')}
+                    </button>
+                )}
+                {!isModelLoading && gameState === GameState.IDLE && (
+                    isManual ? (
+                        !assetFailure && (
+                            <button
+                                onClick={startCamera}
+                                className="pointer-events-auto mt-1 flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+                            >
+                                <Camera size={14} />
+                                {t('menu.useCamera')}
+                            </button>
+                        )
+                    ) : (
+                        <button
+                            onClick={() => startManual()}
+                            className="pointer-events-auto mt-1 flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+                        >
+                            <Keyboard size={14} />
+                            {t('menu.useManual')}
+                        </button>
+                    )
+                )}
+                <button
+                    onClick={() => setShowStats(true)}
+                    className="pointer-events-auto mt-1 flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+                >
+                    <BarChart3 size={14} />
+                    {t('menu.stats')}
+                </button>
+                <button
+                    onClick={() => setShowMatchLog(true)}
+                    className="pointer-events-auto mt-1 flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+                >
+                    <ScrollText size={14} />
+                    {t('menu.matchLog')}
+                </button>
+                {HighlightRecorder.isSupported() && (
+                    <button
+                        onClick={() => setShowHighlights(true)}
+                        className="pointer-events-auto mt-1 flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+                    >
+                        <Clapperboard size={14} />
+                        {t('menu.highlights', { count: highlightState.clips.length })}
+                        {highlightState.recording && (
+                            <span className="text-red-500 motion-safe:animate-pulse" title={t('menu.recording')}>
+                                ●<span className="sr-only">{t('menu.recording')}</span>
+                            </span>
+                        )}
+                    </button>
+                )}
+                {gameState === GameState.IDLE && !isOnlineMatch && (
+                    <button
+                        onClick={() => setShowSettings(true)}
+                        className="pointer-events-auto mt-1 flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+                    >
+                        <Settings size={14} />
+                        {t('menu.settings')}
+                    </button>
+                )}
+                {gameState === GameState.IDLE && isSourceActive && !isManual && (
+                    <button
+                        onClick={() => setShowCalibration(true)}
+                        className="pointer-events-auto mt-1 flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+                    >
+                        <Hand size={14} />
+                        {visionService.getConfig().profile
+                            ? t('menu.calibration', { name: visionService.getConfig().profile!.name })
+                            : t('menu.calibrate')}
+                    </button>
+                )}
+                <label className="pointer-events-auto mt-1 flex items-center gap-1.5 text-xs text-gray-400">
+                    <Languages size={14} />
+                    <span className="sr-only">{t('menu.language')}</span>
+                    <select
+                        value={locale}
+                        onChange={e => i18n.setLocale(e.target.value as Locale)}
+                        className="bg-transparent hover:text-white outline-none cursor-pointer"
+                    >
+                        {(Object.keys(LOCALES) as Locale[]).map(l => (
+                            <option key={l} value={l} className="bg-gray-900">{LOCALES[l].label}</option>
+                        ))}
+                    </select>
+                </label>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="video/*,.json,application/json"
+                    className="hidden"
+                    onChange={onSourceFileChosen}
+                />
             </div>
 
+            <div className="flex flex-col items-center gap-2">
             <div className="flex gap-4">
                  {/* Player Score */}
                  <div className="flex flex-col items-center bg-blue-900/40 backdrop-blur-md p-4 rounded-2xl border border-blue-500/30">
-                    <span className="text-sm uppercase tracking-widest text-blue-300 mb-1">You</span>
-                    <span className="text-4xl font-bold text-white">{score.player}</span>
+                    <span className="text-sm uppercase tracking-widest text-blue-300 mb-1">{t(seatName(opponent, 'p1'))}</span>
+                    <span className="text-4xl font-bold text-white">{score.p1}</span>
                  </div>
                  
                  {/* Bot Score */}
                  <div className="flex flex-col items-center bg-red-900/40 backdrop-blur-md p-4 rounded-2xl border border-red-500/30">
-                    <span className="text-sm uppercase tracking-widest text-red-300 mb-1">Bot</span>
-                    <span className="text-4xl font-bold text-white">{score.bot}</span>
+                    <span className="text-sm uppercase tracking-widest text-red-300 mb-1">{t(seatName(opponent, 'p2'))}</span>
+                    <span className="text-4xl font-bold text-white">{score.p2}</span>
                  </div>
             </div>
+            {formatStatus && (
+                <span className="text-xs uppercase tracking-widest text-gray-400 bg-black/40 px-3 py-1 rounded-full">{formatStatus}</span>
+            )}
+            </div>
         </header>
 
         {/* Center Game Status */}
@@ -234,20 +775,45 @@ function App() {
                 <div className="flex flex-col items-center gap-6 bg-red-950/80 backdrop-blur-xl p-8 rounded-3xl border border-red-500/30 max-w-md text-center">
                     <VideoOff className="w-16 h-16 text-red-400" />
                     <div>
-                        <h2 className="text-2xl font-bold text-red-200 mb-2">Camera Error</h2>
-                        <p className="text-red-300/80">{error}</p>
+                        <h2 className="text-2xl font-bold text-red-200 mb-2">{t(assetFailure ? 'error.assetTitle' : 'error.cameraTitle')}</h2>
+                        <p className="text-red-300/80">{t(error)}</p>
+                        {assetFailure?.kind === 'model' && (
+                            <p className="text-red-300/60 text-sm mt-2">{t('error.fetchModelHint', { command: 'npm run fetch-model' })}</p>
+                        )}
                     </div>
                     <button 
-                        onClick={startCamera}
+                        onClick={assetFailure ? () => window.location.reload() : startCamera}
                         className="bg-red-500/20 hover:bg-red-500/40 text-red-200 px-6 py-2 rounded-full font-semibold transition-all border border-red-500/50"
                     >
-                        Retry Camera
+                        {t(assetFailure ? 'error.reload' : 'error.retryCamera')}
+                    </button>
+                    {!assetFailure && (
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="text-red-300/80 hover:text-red-200 text-sm underline underline-offset-4"
+                        >
+                            {t('error.useVideo')}
+                        </button>
+                    )}
+                    <button
+                        onClick={() => startManual()}
+                        className="text-red-300/80 hover:text-red-200 text-sm underline underline-offset-4"
+                    >
+                        {t('error.useManual')}
                     </button>
                 </div>
             ) : isModelLoading ? (
                 <div className="flex flex-col items-center gap-4">
                     <Loader2 className="w-12 h-12 text-blue-400 animate-spin" />
-                    <p className="text-xl font-medium">Loading Vision Model...</p>
+                    <p className="text-xl font-medium">{t(describeLoadProgress(loadProgress))}</p>
+                    {loadProgress?.stage === 'model' && loadProgress.total && (
+                        <div className="w-64 h-2 bg-white/10 rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-blue-400 transition-all"
+                                style={{ width: `${Math.round((loadProgress.loaded / loadProgress.total) * 100)}%` }}
+                            />
+                        </div>
+                    )}
                 </div>
             ) : (
                 <>
@@ -255,93 +821,261 @@ function App() {
                         <div className="text-center space-y-6 animate-in fade-in zoom-in duration-500">
                              <div className="bg-black/50 p-8 rounded-3xl backdrop-blur-xl border border-white/10 max-w-md">
                                 <Trophy className="w-12 h-12 text-yellow-400 mx-auto mb-4" />
-                                <h2 className="text-3xl font-bold mb-4">Ready to Play?</h2>
-                                <p className="text-gray-300 mb-8">
-                                    Show your hand to the camera. Win 3 rounds to become the champion.
+                                <h2 className="text-3xl font-bold mb-4">{t('idle.title')}</h2>
+                                <p className="text-gray-300 mb-6">
+                                    {t(isManual ? 'idle.pickThrow' : 'idle.showHand')} {t(describeFormat(config))}
                                 </p>
+                                <div className="flex justify-center gap-2 mb-4">
+                                    {[GameMode.CLASSIC, GameMode.RPSLS].map(m => (
+                                        <button
+                                            key={m}
+                                            onClick={() => selectMode(m)}
+                                            className={`px-4 py-1.5 rounded-full text-sm font-semibold border transition-all ${mode === m ? 'bg-blue-500/30 border-blue-400 text-white' : 'border-white/20 text-gray-400 hover:text-white'}`}
+                                        >
+                                            {t(`mode.${m}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="flex justify-center gap-2 mb-4">
+                                    {Object.values(OpponentType).map(o => (
+                                        <button
+                                            key={o}
+                                            onClick={() => selectOpponent(o)}
+                                            disabled={isManual && o === OpponentType.LOCAL}
+                                            title={isManual && o === OpponentType.LOCAL ? t('manual.needsCamera') : undefined}
+                                            className={`px-4 py-1.5 rounded-full text-sm font-semibold border transition-all disabled:opacity-40 ${opponent === o ? 'bg-purple-500/30 border-purple-400 text-white' : 'border-white/20 text-gray-400 hover:text-white'}`}
+                                        >
+                                            {t(`opponent.${o}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                {isLocalMatch ? (
+                                    <p className="text-gray-400 text-sm mb-8">{t({ key: `idle.localSides.${config.handAssignment}` })}</p>
+                                ) : isOnlineMatch ? (
+                                <div className="mb-8 space-y-3">
+                                    {online.code ? (
+                                        <p className="text-gray-300 text-sm">
+                                            {t('online.room', { code: '' })}<span className="font-mono font-bold text-white tracking-widest">{online.code}</span>
+                                            {' · '}
+                                            {t(online.opponentConnected ? 'online.opponentConnected' : 'online.waiting')}
+                                        </p>
+                                    ) : (
+                                        <div className="flex justify-center gap-2">
+                                            <button
+                                                onClick={() => net.createRoom({ mode, format, target, drawHandling: config.drawHandling, invalidCountsAsLoss: config.invalidCountsAsLoss })}
+                                                disabled={online.status === 'connecting'}
+                                                className="px-4 py-1.5 rounded-full text-sm font-semibold border border-white/20 text-gray-300 hover:text-white disabled:opacity-50"
+                                            >
+                                                {t('online.createRoom')}
+                                            </button>
+                                            <input
+                                                value={joinCode}
+                                                onChange={e => setJoinCode(e.target.value.toUpperCase())}
+                                                placeholder={t('online.codePlaceholder')}
+                                                maxLength={5}
+                                                className="w-24 bg-white/10 rounded-full px-3 text-center font-mono tracking-widest text-sm border border-white/20 outline-none focus:border-purple-400"
+                                            />
+                                            <button
+                                                onClick={() => net.joinRoom(joinCode)}
+                                                disabled={!joinCode || online.status === 'connecting'}
+                                                className="px-4 py-1.5 rounded-full text-sm font-semibold border border-white/20 text-gray-300 hover:text-white disabled:opacity-50"
+                                            >
+                                                {t('online.join')}
+                                            </button>
+                                        </div>
+                                    )}
+                                    {online.error && <p className="text-red-400 text-sm">{t(online.error)}</p>}
+                                </div>
+                                ) : (
+                                <div className="flex justify-center gap-2 mb-8">
+                                    {Object.values(Difficulty).map(d => (
+                                        <button
+                                            key={d}
+                                            onClick={() => selectDifficulty(d)}
+                                            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all ${difficulty === d ? 'bg-red-500/30 border-red-400 text-white' : 'border-white/20 text-gray-400 hover:text-white'}`}
+                                        >
+                                            {t(difficultyLabel(d))}
+                                        </button>
+                                    ))}
+                                </div>
+                                )}
                                 <button 
                                     onClick={playRound}
-                                    className="bg-white text-black px-8 py-3 rounded-full font-bold hover:scale-105 transition-transform shadow-lg hover:shadow-blue-500/50"
+                                    disabled={!canStart || isWaitingForOpponent}
+                                    className="bg-white text-black px-8 py-3 rounded-full font-bold hover:scale-105 transition-transform shadow-lg hover:shadow-blue-500/50 disabled:opacity-50 disabled:hover:scale-100"
                                 >
-                                    Start Game
+                                    {t(isWaitingForOpponent ? 'idle.waitingForOpponent' : 'idle.start')}
                                 </button>
+                                {isManual ? (
+                                    <p className="text-xs text-gray-500">
+                                        {t('manual.keys', {
+                                            keys: RULE_SETS[mode].gestures.map(g => ({ key: 'manual.key', params: { key: manualKeyFor(g) ?? '', gesture: gestureLabel(g) } }))
+                                        })}
+                                    </p>
+                                ) : isSourceActive && (
+                                    <p className="text-xs text-gray-500">
+                                        {t('idle.handsFree')}
+                                    </p>
+                                )}
                              </div>
                         </div>
                     )}
 
                     {gameState === GameState.COUNTDOWN && (
-                        <div className="text-[12rem] font-black text-transparent bg-clip-text bg-gradient-to-b from-white to-gray-500 drop-shadow-2xl animate-pulse">
+                        <div className="text-[12rem] font-black text-transparent bg-clip-text bg-gradient-to-b from-white to-gray-500 drop-shadow-2xl motion-safe:animate-pulse">
                             {countdown}
                         </div>
                     )}
 
                     {gameState === GameState.PLAYING && (
-                        <div className="text-4xl font-bold text-white drop-shadow-lg animate-bounce">
-                            SHOW YOUR HAND!
+                        <div className="text-4xl font-bold text-white drop-shadow-lg motion-safe:animate-bounce">
+                            {t('play.showHand')}
                         </div>
                     )}
 
                     {gameState === GameState.RESULT && gameResult && (
                         <div className="text-center space-y-4">
                             <div className="text-6xl font-black text-white drop-shadow-[0_0_30px_rgba(255,255,255,0.5)]">
-                                {gameResult.message}
+                                {t(gameResult.message)}
                             </div>
+                            {gameResult.detail && (
+                                <div className="text-2xl font-semibold text-blue-200">{t(gameResult.detail)}</div>
+                            )}
                             <div className="text-xl text-gray-300">
-                                {playerGesture === Gesture.NONE ? 'No Detection' : playerGesture} vs {botGesture}
+                                {t('result.versus', { p1: thrownLabel(match.seats.p1.gesture), p2: thrownLabel(match.seats.p2.gesture) })}
                             </div>
+                            {match.botDecision?.predicted && (
+                                <p className="text-sm text-gray-400 italic">
+                                    {t('result.botExpected', { gesture: gestureLabel(match.botDecision.predicted), reasoning: match.botDecision.reasoning })}
+                                </p>
+                            )}
+                            {commentary && (
+                                <p className="text-lg text-blue-100 italic">“{t(commentary)}”</p>
+                            )}
                             {gameResult.winner === 'invalid' && (
-                                <p className="text-red-400 text-sm">Please hold your hand clearly in front of the camera</p>
+                                <p className="text-red-400 text-sm">
+                                    {gameResult.timing && !gameResult.missing
+                                        ? t('hint.lateTiming')
+                                        : isLocalMatch && gameResult.missing
+                                        ? t('hint.localMissing', { seats: gameResult.missing.map(seat => seatName(opponent, seat)) })
+                                        : t(isOnlineMatch && !gameResult.missing?.includes('p1') ? 'hint.opponentLate' : 'hint.showHand')}
+                                </p>
+                            )}
+                            {gameResult.winner === 'unclear' && (
+                                <p className="text-red-400 text-sm">{t('hint.unclear')}</p>
+                            )}
+                            {gameResult.timing && gameResult.winner !== 'invalid' && (
+                                <p className="text-amber-300 text-sm">
+                                    {t('hint.lateFlagged', { seats: (Object.keys(gameResult.timing) as Seat[]).map(seat => seatName(opponent, seat)) })}
+                                </p>
                             )}
                             <button 
                                 onClick={playRound}
-                                className="mt-8 bg-white/20 hover:bg-white/30 backdrop-blur-md text-white px-6 py-2 rounded-full font-semibold transition-all"
+                                disabled={!canStart || isWaitingForOpponent}
+                                className="mt-8 bg-white/20 hover:bg-white/30 backdrop-blur-md text-white px-6 py-2 rounded-full font-semibold transition-all disabled:opacity-50"
                             >
-                                {gameResult.winner === 'invalid' ? 'Try Again' : 'Next Round →'}
+                                {t(isWaitingForOpponent
+                                    ? 'idle.waitingForOpponent'
+                                    : (gameResult.winner === 'unclear' || (gameResult.winner === 'invalid' && !gameResult.awardedTo) ? 'result.tryAgain' : 'result.nextRound'))}
                             </button>
                         </div>
                     )}
 
                     {gameState === GameState.GAME_OVER && (
                          <div className="text-center space-y-6 bg-black/80 p-12 rounded-3xl backdrop-blur-xl border border-white/20">
-                            <h2 className="text-5xl font-bold text-white mb-2">
-                                {score.player >= WINNING_SCORE ? "VICTORY!" : "DEFEAT"}
+                            <h2 className="text-5xl font-bold text-white uppercase mb-2">
+                                {match.matchWinner === 'draw'
+                                    ? t('gameOver.draw')
+                                    : isLocalMatch
+                                        ? t('gameOver.seatWins', { seat: seatName(opponent, match.matchWinner ?? 'p1') })
+                                        : t(match.matchWinner === 'p1' ? 'gameOver.victory' : 'gameOver.defeat')}
                             </h2>
                             <p className="text-xl text-gray-400">
-                                {score.player >= WINNING_SCORE ? "You crushed the machine." : "The machine detected your weakness."}
+                                {isLocalMatch || match.matchWinner === 'draw'
+                                    ? t('gameOver.finalScore', score)
+                                    : isOnlineMatch
+                                        ? t(match.matchWinner === 'p1' ? 'gameOver.outplayed' : 'gameOver.readYou')
+                                        : t(commentary ?? { key: 'gameOver.finalScore', params: score })}
                             </p>
                             <button 
                                 onClick={resetGame}
                                 className="flex items-center gap-2 mx-auto bg-blue-600 hover:bg-blue-500 text-white px-8 py-3 rounded-full font-bold transition-transform hover:scale-105"
                             >
                                 <RefreshCw size={20} />
-                                Play Again
+                                {t('gameOver.playAgain')}
                             </button>
                          </div>
                     )}
                 </>
             )}
 
+            {/* Manual throw buttons */}
+            {isManual && !error && gameState !== GameState.GAME_OVER && (
+                <div role="group" aria-label={t('manual.choose')} className="absolute bottom-36 flex gap-3">
+                    {RULE_SETS[mode].gestures.map(g => (
+                        <button
+                            key={g}
+                            onClick={() => chooseManual(g)}
+                            aria-pressed={manualChoice === g}
+                            className={`px-5 py-3 rounded-2xl font-bold border backdrop-blur-md transition-all ${manualChoice === g ? 'bg-blue-500/40 border-blue-400 text-white' : 'bg-black/40 border-white/20 text-gray-300 hover:text-white'}`}
+                        >
+                            {t(gestureLabel(g))}
+                            <span className="ml-2 text-xs font-mono text-gray-400" aria-hidden="true">{manualKeyFor(g)}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {/* Gesture Feedback Toast */}
             {gameState !== GameState.GAME_OVER && !isModelLoading && !error && (
-                <div className={`absolute bottom-24 bg-white/10 backdrop-blur-md px-6 py-2 rounded-full border border-white/10 text-sm flex items-center gap-2 transition-all ${playerGesture !== Gesture.NONE ? 'opacity-100' : 'opacity-50'}`}>
-                    {playerGesture === Gesture.NONE ? (
+                <div className={`absolute bottom-24 bg-white/10 backdrop-blur-md px-6 py-2 rounded-full border border-white/10 text-sm flex items-center gap-2 transition-all ${playerGesture !== Gesture.NONE || liveGestures.p2 !== Gesture.NONE ? 'opacity-100' : 'opacity-50'}`}>
+                    {playerGesture === Gesture.NONE && liveGestures.p2 === Gesture.NONE ? (
                         <>
                             <AlertCircle size={16} className="text-yellow-500" />
-                            <span>Waiting for gesture...</span>
+                            <span>{t('toast.waiting')}</span>
                         </>
                     ) : (
                         <>
-                            <span>Detected:</span>
-                            <span className="font-bold text-blue-300">{playerGesture}</span>
+                            <span>{t(isManual ? 'toast.yourThrow' : 'toast.detected')}</span>
+                            <span className="font-bold text-blue-300">{t(gestureLabel(playerGesture))}</span>
+                            {isLocalMatch && (
+                                <>
+                                    <span className="text-gray-500">·</span>
+                                    <span className="font-bold text-red-300">{t(gestureLabel(liveGestures.p2))}</span>
+                                </>
+                            )}
                         </>
                     )}
                 </div>
             )}
         </div>
 
+        {commandsEnabled && heldCommand && heldAction && (
+            <CommandHoldRing label={heldAction.label} progress={heldCommand.progress} />
+        )}
+
+        {showDebug && (
+            <DebugOverlay video={videoRef.current} readDetection={readDetection} metrics={metrics} onClose={() => setShowDebug(false)} />
+        )}
+
+        {showStats && <StatsPanel store={historyStore} onClose={() => setShowStats(false)} />}
+        {showMatchLog && <MatchLogPanel log={lastMatchLog} onClose={() => setShowMatchLog(false)} />}
+        {showHighlights && <HighlightsPanel recorder={highlights} onClose={() => setShowHighlights(false)} />}
+        {showSettings && gameState === GameState.IDLE && (
+            <SettingsPanel settings={config} onChange={applySettings} onClose={() => setShowSettings(false)} />
+        )}
+        {showCalibration && (
+            <CalibrationPanel
+                mode={mode}
+                readDetection={readDetection}
+                onProfileChange={profile => visionService.configure({ profile })}
+                onClose={() => setShowCalibration(false)}
+            />
+        )}
+
         {/* Instructions Footer */}
         <footer className="text-center text-gray-500 text-xs pb-4">
-            Powered by MediaPipe Tasks Vision
+            {t('footer.poweredBy')}
         </footer>
       </div>
     </div>
@@ -0,0 +1,272 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download, Upload, Trash2 } from 'lucide-react';
+import { GameMode, Gesture } from '../types';
+import { DetectionResult } from '../services/visionService';
+import {
+  ConfusionMatrix,
+  GestureProfile,
+  LandmarkSample,
+  confusionMatrix,
+  normalizeLandmarks,
+  parseProfile,
+  trainProfile
+} from '../services/personalClassifier';
+import { profileStore } from '../services/profileStore';
+import { RULE_SETS, gestureLabel } from '../services/rules';
+import { useTranslation } from './useTranslation';
+
+interface CalibrationPanelProps {
+  mode: GameMode;
+  // Latest detection from the running source; polled while capturing
+  readDetection: () => DetectionResult | null;
+  onProfileChange: (profile: GestureProfile | null) => void;
+  onClose: () => void;
+}
+
+const SAMPLES_PER_GESTURE = 30;
+const GET_READY_MS = 1000;
+
+type Step =
+  | { kind: 'profiles' }
+  | { kind: 'capture'; index: number; capturing: boolean }
+  | { kind: 'review'; profile: GestureProfile; matrix: ConfusionMatrix };
+
+const ConfusionTable: React.FC<{ matrix: ConfusionMatrix }> = ({ matrix }) => {
+  const { t } = useTranslation();
+  return (
+    <table className="w-full text-xs text-center">
+      <thead className="text-gray-500">
+        <tr>
+          <th className="text-left font-normal">{t('calibration.tableCorner')}</th>
+          {matrix.gestures.map(g => <th key={g} className="font-normal">{t(gestureLabel(g))}</th>)}
+          <th className="font-normal">{t(gestureLabel(Gesture.NONE))}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {matrix.counts.map((row, i) => (
+          <tr key={matrix.gestures[i]}>
+            <td className="text-left text-gray-300">{t(gestureLabel(matrix.gestures[i]))}</td>
+            {row.map((count, j) => (
+              <td key={j} className={count === 0 ? 'text-gray-600' : i === j ? 'text-green-400 font-bold' : 'text-red-400 font-bold'}>
+                {count}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ mode, readDetection, onProfileChange, onClose }) => {
+  const { t } = useTranslation();
+  const gestures = RULE_SETS[mode].gestures;
+  const [step, setStep] = useState<Step>({ kind: 'profiles' });
+  const [profiles, setProfiles] = useState(() => profileStore.list());
+  const [activeName, setActiveName] = useState(() => profileStore.getActiveName());
+  const [name, setName] = useState('');
+  const [samples, setSamples] = useState<LandmarkSample[]>([]);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    setProfiles(profileStore.list());
+    setActiveName(profileStore.getActiveName());
+  };
+
+  const activate = (profile: GestureProfile | null) => {
+    profileStore.setActiveName(profile?.name ?? null);
+    onProfileChange(profile);
+    refresh();
+  };
+
+  // Collect one sample per new frame that has a hand, after a short get-ready pause
+  const capturing = step.kind === 'capture' && step.capturing;
+  const captureIndex = step.kind === 'capture' ? step.index : 0;
+  useEffect(() => {
+    if (!capturing) return;
+    const gesture = gestures[captureIndex];
+    const startsAt = performance.now() + GET_READY_MS;
+    const collected: LandmarkSample[] = [];
+    let last: DetectionResult | null = null;
+    let frame = 0;
+
+    const poll = () => {
+      const detection = readDetection();
+      if (performance.now() >= startsAt && detection && detection !== last && detection.landmarks) {
+        last = detection;
+        collected.push({ gesture, features: normalizeLandmarks(detection.landmarks, detection.hands?.[0]?.handedness ?? null) });
+        setProgress(collected.length);
+      }
+      if (collected.length < SAMPLES_PER_GESTURE) {
+        frame = requestAnimationFrame(poll);
+        return;
+      }
+      setSamples(prev => [...prev, ...collected]);
+      setProgress(0);
+      setStep({ kind: 'capture', index: captureIndex + 1, capturing: false });
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [capturing, captureIndex, gestures, readDetection]);
+
+  // All gestures captured: train and evaluate
+  useEffect(() => {
+    if (step.kind !== 'capture' || step.index < gestures.length) return;
+    const profile = trainProfile(name.trim(), samples);
+    setStep({ kind: 'review', profile, matrix: confusionMatrix(profile) });
+  }, [step, gestures.length, name, samples]);
+
+  const startCalibration = () => {
+    setSamples([]);
+    setProgress(0);
+    setError(null);
+    setStep({ kind: 'capture', index: 0, capturing: false });
+  };
+
+  const saveProfile = (profile: GestureProfile) => {
+    try {
+      profileStore.save(profile);
+      activate(profile);
+      setStep({ kind: 'profiles' });
+    } catch (err: any) {
+      setError(t('calibration.saveError', { message: String(err?.message ?? err) }));
+    }
+  };
+
+  const exportProfile = (profile: GestureProfile) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(profile)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${profile.name}.rps-profile.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importProfile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      profileStore.save(parseProfile(await file.text()));
+      setError(null);
+      refresh();
+    } catch (err: any) {
+      setError(t('calibration.importError', { file: file.name, message: String(err?.message ?? err) }));
+    }
+  };
+
+  const deleteProfile = (profile: GestureProfile) => {
+    profileStore.remove(profile.name);
+    if (profile.name === activeName) onProfileChange(null);
+    refresh();
+  };
+
+  const rowClass = (active: boolean) =>
+    `flex items-center gap-3 p-3 rounded-xl border ${active ? 'border-blue-400 bg-blue-500/10' : 'border-white/10'}`;
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto">
+      <div className="bg-gray-900/95 border border-white/10 rounded-3xl p-6 w-full max-w-lg max-h-full overflow-y-auto space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold">{t('calibration.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('calibration.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        {step.kind === 'profiles' && (
+          <>
+            <p className="text-sm text-gray-400">{t('calibration.intro')}</p>
+            <div className="space-y-2">
+              <button onClick={() => activate(null)} className={`${rowClass(activeName === null)} w-full text-left`}>
+                <span className="flex-1 text-sm">{t('calibration.builtInOnly')}</span>
+              </button>
+              {profiles.map(p => (
+                <div key={p.name} className={rowClass(p.name === activeName)}>
+                  <button onClick={() => activate(p)} className="flex-1 text-left text-sm">
+                    {p.name}
+                    <span className="block text-xs text-gray-500">
+                      {t('calibration.gestureCount', { count: new Set(p.samples.map(s => s.gesture)).size })}
+                      {' · '}
+                      {t('calibration.sampleCount', { count: p.samples.length })}
+                    </span>
+                  </button>
+                  <button onClick={() => exportProfile(p)} className="text-gray-400 hover:text-white" aria-label={t('calibration.export', { name: p.name })}>
+                    <Download size={16} />
+                  </button>
+                  <button onClick={() => deleteProfile(p)} className="text-gray-400 hover:text-red-300" aria-label={t('calibration.delete', { name: p.name })}>
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 items-center">
+              <input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder={t('calibration.namePlaceholder')}
+                className="flex-1 bg-white/10 rounded-full px-4 py-1.5 text-sm border border-white/20 outline-none focus:border-blue-400"
+              />
+              <button
+                onClick={startCalibration}
+                disabled={!name.trim()}
+                className="bg-white text-black px-4 py-1.5 rounded-full text-sm font-semibold disabled:opacity-50"
+              >
+                {t('calibration.calibrate')}
+              </button>
+            </div>
+            <button onClick={() => importRef.current?.click()} className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white">
+              <Upload size={14} />
+              {t('calibration.import')}
+            </button>
+            <input ref={importRef} type="file" accept=".json,application/json" className="hidden" onChange={importProfile} />
+          </>
+        )}
+
+        {step.kind === 'capture' && step.index < gestures.length && (
+          <div className="text-center space-y-4">
+            <p className="text-gray-400 text-sm">{t('calibration.step', { index: step.index + 1, total: gestures.length })}</p>
+            <p className="text-4xl font-bold">{t(gestureLabel(gestures[step.index]))}</p>
+            <p className="text-sm text-gray-400">{t('calibration.holdHint')}</p>
+            {step.capturing ? (
+              <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-400 transition-all" style={{ width: `${(progress / SAMPLES_PER_GESTURE) * 100}%` }} />
+              </div>
+            ) : (
+              <button
+                onClick={() => setStep({ ...step, capturing: true })}
+                className="bg-white text-black px-6 py-2 rounded-full font-semibold"
+              >
+                {t('calibration.capture')}
+              </button>
+            )}
+            <button onClick={() => setStep({ kind: 'profiles' })} className="block mx-auto text-sm text-gray-400 hover:text-white">
+              {t('calibration.cancel')}
+            </button>
+          </div>
+        )}
+
+        {step.kind === 'review' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-300">
+              {t('calibration.selfCheck', { percent: Math.round(step.matrix.accuracy * 100) })}
+            </p>
+            <ConfusionTable matrix={step.matrix} />
+            <div className="flex justify-end gap-3">
+              <button onClick={startCalibration} className="text-sm text-gray-400 hover:text-white">{t('calibration.recapture')}</button>
+              <button onClick={() => saveProfile(step.profile)} className="bg-white text-black px-5 py-1.5 rounded-full font-semibold">
+                {t('calibration.save')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
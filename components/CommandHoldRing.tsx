@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface CommandHoldRingProps {
+  label: string;
+  // 0..1
+  progress: number;
+}
+
+const RADIUS = 26;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Fills up while a command gesture is held; the command fires when it closes.
+const CommandHoldRing: React.FC<CommandHoldRingProps> = ({ label, progress }) => (
+  <div className="absolute top-28 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 bg-black/60 backdrop-blur-md pl-2 pr-5 py-2 rounded-full border border-white/10 pointer-events-none">
+    <svg width={64} height={64} viewBox="0 0 64 64" className="-rotate-90">
+      <circle cx={32} cy={32} r={RADIUS} fill="none" stroke="rgba(255,255,255,0.15)" strokeWidth={6} />
+      <circle
+        cx={32}
+        cy={32}
+        r={RADIUS}
+        fill="none"
+        stroke="#60a5fa"
+        strokeWidth={6}
+        strokeLinecap="round"
+        strokeDasharray={CIRCUMFERENCE}
+        strokeDashoffset={CIRCUMFERENCE * (1 - progress)}
+      />
+    </svg>
+    <span className="text-sm font-semibold">{label}</span>
+  </div>
+);
+
+export default CommandHoldRing;
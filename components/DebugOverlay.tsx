@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ClipboardCopy } from 'lucide-react';
+import { Gesture } from '../types';
+import { DetectionResult, visionService } from '../services/visionService';
+import { DetectionMetrics, MetricsSnapshot } from '../services/detectionMetrics';
+import { HAND_CONNECTIONS } from '../services/handGeometry';
+import { MessageKey } from '../services/i18n';
+import { useTranslation } from './useTranslation';
+
+interface DebugOverlayProps {
+  video: HTMLVideoElement | null;
+  readDetection: () => DetectionResult | null;
+  metrics: DetectionMetrics;
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 256;
+const PREVIEW_HEIGHT = 192;
+const REFRESH_MS = 250;
+const HAND_COLORS = ['#60a5fa', '#f87171'];
+
+const GESTURE_COLORS: Record<Gesture, string> = {
+  [Gesture.ROCK]: 'bg-slate-400',
+  [Gesture.PAPER]: 'bg-blue-500',
+  [Gesture.SCISSORS]: 'bg-red-500',
+  [Gesture.LIZARD]: 'bg-green-600',
+  [Gesture.SPOCK]: 'bg-violet-500',
+  [Gesture.NONE]: 'bg-white/10'
+};
+
+// Draws the camera frame mirrored, like the player sees themselves, with the
+// landmarks of every detected hand on top.
+const drawPreview = (canvas: HTMLCanvasElement, video: HTMLVideoElement | null, detection: DetectionResult | null) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.save();
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width, 0);
+  ctx.scale(-1, 1);
+  if (video && video.readyState >= 2) ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  (detection?.hands ?? []).forEach((hand, i) => {
+    const points = hand.landmarks;
+    if (!points) return;
+    ctx.strokeStyle = HAND_COLORS[i % HAND_COLORS.length];
+    ctx.fillStyle = HAND_COLORS[i % HAND_COLORS.length];
+    ctx.lineWidth = 1.5;
+    HAND_CONNECTIONS.forEach(([a, b]) => {
+      ctx.beginPath();
+      ctx.moveTo(points[a].x * canvas.width, points[a].y * canvas.height);
+      ctx.lineTo(points[b].x * canvas.width, points[b].y * canvas.height);
+      ctx.stroke();
+    });
+    points.forEach(p => {
+      ctx.beginPath();
+      ctx.arc(p.x * canvas.width, p.y * canvas.height, 2, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  });
+  ctx.restore();
+};
+
+const HistoryStrip: React.FC<{ label: string; samples: Gesture[] }> = ({ label, samples }) => (
+  <div className="flex items-center gap-2">
+    <span className="w-10 text-gray-500">{label}</span>
+    <div className="flex flex-1 h-3 gap-px">
+      {samples.map((g, i) => <div key={i} className={`flex-1 ${GESTURE_COLORS[g]}`} title={g} />)}
+    </div>
+  </div>
+);
+
+const DebugOverlay: React.FC<DebugOverlayProps> = ({ video, readDetection, metrics, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [snapshot, setSnapshot] = useState<MetricsSnapshot>(() => metrics.snapshot(performance.now()));
+  const [copyStatus, setCopyStatus] = useState<MessageKey | null>(null);
+  const { t } = useTranslation();
+  const ms = (value: number | null) => (value === null ? '–' : t('debug.ms', { value }));
+
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      if (canvasRef.current) drawPreview(canvasRef.current, video, readDetection());
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [video, readDetection]);
+
+  useEffect(() => {
+    const refresh = () => setSnapshot(metrics.snapshot(performance.now(), visionService.getStats(), visionService.getConfig()));
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [metrics]);
+
+  const copySnapshot = async () => {
+    const report = JSON.stringify(metrics.snapshot(performance.now(), visionService.getStats(), visionService.getConfig()), null, 2);
+    try {
+      await navigator.clipboard.writeText(report);
+      setCopyStatus('debug.copied');
+    } catch {
+      // Clipboard access can be denied; a download works everywhere
+      const url = URL.createObjectURL(new Blob([report], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `rps-diagnostics-${Date.now()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setCopyStatus('debug.downloaded');
+    }
+  };
+
+  const { current, inference, inferenceMs } = snapshot;
+
+  return (
+    <div className="absolute top-4 left-4 z-30 w-72 bg-black/85 border border-white/10 rounded-xl p-3 space-y-3 text-xs font-mono pointer-events-auto">
+      <div className="flex justify-between items-center">
+        <span className="font-bold text-gray-200">{t('debug.title')} <span className="text-gray-500 font-normal">{t('debug.toggleHint')}</span></span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('debug.close')}>
+          <X size={16} />
+        </button>
+      </div>
+
+      <canvas ref={canvasRef} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} className="w-full rounded-lg" />
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-gray-300">
+        <span className="text-gray-500">{t('debug.category')}</span>
+        <span>{current?.categoryName ?? '–'} {current?.categoryScore !== null && current?.categoryScore !== undefined ? current.categoryScore.toFixed(2) : ''}</span>
+        <span className="text-gray-500">{t('debug.rawStable')}</span>
+        <span>{current ? `${current.raw} / ${current.stable}` : '–'}</span>
+        <span className="text-gray-500">{t('debug.hands')}</span>
+        <span>{current?.hands ?? 0}</span>
+        <span className="text-gray-500">{t('debug.detectRender')}</span>
+        <span>{t('debug.fps', { detect: snapshot.detectionFps, render: snapshot.renderFps })}</span>
+        <span className="text-gray-500">{t('debug.inferenceP50')}</span>
+        <span>{ms(inferenceMs.p50)}</span>
+        <span className="text-gray-500">{t('debug.p90p99')}</span>
+        <span>{ms(inferenceMs.p90)} / {ms(inferenceMs.p99)}</span>
+        <span className="text-gray-500">{t('debug.backend')}</span>
+        <span>{inference?.backend ?? '–'}</span>
+        <span className="text-gray-500">{t('debug.dropped')}</span>
+        <span>{inference ? t('debug.droppedFrames', { frames: inference.framesDropped, count: inference.restarts }) : '–'}</span>
+      </div>
+
+      <div className="space-y-1">
+        <HistoryStrip label={t('debug.historyRaw')} samples={snapshot.history.map(s => s.raw)} />
+        <HistoryStrip label={t('debug.historyStable')} samples={snapshot.history.map(s => s.stable)} />
+      </div>
+
+      <button onClick={copySnapshot} className="flex items-center gap-1.5 text-gray-300 hover:text-white">
+        <ClipboardCopy size={14} />
+        {t('debug.copy')} {copyStatus && <span className="text-green-400">· {t(copyStatus)}</span>}
+      </button>
+    </div>
+  );
+};
+
+export default DebugOverlay;
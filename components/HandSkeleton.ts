@@ -0,0 +1,81 @@
+import * as THREE from 'three';
+import { HAND_CONNECTIONS, Point3 } from '../services/handGeometry';
+
+// Joints and bones of one tracked hand. Points go in as MediaPipe landmarks
+// (x right, y down, z away from the camera) and are flipped into scene space.
+
+// World landmarks are metres, so this makes a hand about 2.5 units tall
+const WORLD_SCALE = 25;
+// Normalized landmarks span the frame; a hand covers roughly a fifth of it
+const IMAGE_SCALE = 12;
+
+export interface HandPose {
+  worldLandmarks?: Point3[];
+  landmarks?: Point3[];
+}
+
+// Converts a pose to scene-space points centred on the hand. Prefers metric
+// world landmarks and falls back to image landmarks centred on their mean.
+export const toScenePoints = (pose: HandPose, mirrored: boolean): Point3[] | null => {
+  const world = pose.worldLandmarks;
+  const points = world && world.length ? world : pose.landmarks;
+  if (!points || points.length === 0) return null;
+
+  const scale = world && world.length ? WORLD_SCALE : IMAGE_SCALE;
+  const cx = world && world.length ? 0 : points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = world && world.length ? 0 : points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  // A selfie camera is shown mirrored, so the rendered hand is too
+  const flipX = mirrored ? -1 : 1;
+  return points.map(p => ({
+    x: flipX * (p.x - cx) * scale,
+    y: -(p.y - cy) * scale,
+    z: -p.z * scale
+  }));
+};
+
+export class HandSkeleton {
+  public readonly group = new THREE.Group();
+  private joints: THREE.Mesh[] = [];
+  private bones: THREE.LineSegments;
+  private jointGeometry = new THREE.SphereGeometry(0.08, 12, 8);
+  private jointMaterial = new THREE.MeshBasicMaterial({ color: 0x60a5fa });
+  private boneMaterial = new THREE.LineBasicMaterial({ color: 0xe5e7eb, transparent: true, opacity: 0.8 });
+
+  constructor(jointCount = 21) {
+    for (let i = 0; i < jointCount; i++) {
+      const joint = new THREE.Mesh(this.jointGeometry, this.jointMaterial);
+      this.joints.push(joint);
+      this.group.add(joint);
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(HAND_CONNECTIONS.length * 6), 3));
+    this.bones = new THREE.LineSegments(geometry, this.boneMaterial);
+    this.group.add(this.bones);
+    this.group.visible = false;
+  }
+
+  // Hides the skeleton when there are no points
+  public update(points: Point3[] | null) {
+    if (!points || points.length < this.joints.length) {
+      this.group.visible = false;
+      return;
+    }
+    this.joints.forEach((joint, i) => joint.position.set(points[i].x, points[i].y, points[i].z));
+
+    const position = this.bones.geometry.getAttribute('position') as THREE.BufferAttribute;
+    HAND_CONNECTIONS.forEach(([a, b], i) => {
+      position.setXYZ(i * 2, points[a].x, points[a].y, points[a].z);
+      position.setXYZ(i * 2 + 1, points[b].x, points[b].y, points[b].z);
+    });
+    position.needsUpdate = true;
+    this.bones.geometry.computeBoundingSphere();
+    this.group.visible = true;
+  }
+
+  public dispose() {
+    this.jointGeometry.dispose();
+    this.jointMaterial.dispose();
+    this.bones.geometry.dispose();
+    this.boneMaterial.dispose();
+  }
+}
@@ -0,0 +1,94 @@
+import React, { useSyncExternalStore } from 'react';
+import { X, Download, Trash2 } from 'lucide-react';
+import { HighlightRecorder } from '../services/highlightRecorder';
+import { Locale } from '../services/i18n';
+import { useTranslation } from './useTranslation';
+
+interface HighlightsPanelProps {
+  recorder: HighlightRecorder;
+  onClose: () => void;
+}
+
+const formatSize = (locale: Locale, bytes: number) =>
+  new Intl.NumberFormat(locale, { style: 'unit', unit: 'megabyte', maximumFractionDigits: 1 }).format(bytes / (1024 * 1024));
+
+const HighlightsPanel: React.FC<HighlightsPanelProps> = ({ recorder, onClose }) => {
+  const { locale, t } = useTranslation();
+  const { enabled, clips } = useSyncExternalStore(recorder.subscribe, recorder.getState);
+  const limits = recorder.getLimits();
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto">
+      <div className="bg-gray-900/95 border border-white/10 rounded-3xl p-6 w-full max-w-2xl max-h-full overflow-y-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold">{t('highlights.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('highlights.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={enabled} onChange={e => recorder.setEnabled(e.target.checked)} />
+            {t('highlights.record')}
+          </label>
+          <p className="text-xs text-gray-400">
+            {t('highlights.limits', { count: limits.maxClips, size: formatSize(locale, limits.maxTotalBytes) })}
+          </p>
+        </div>
+
+        {clips.length === 0 && (
+          <p className="text-gray-400 text-center py-8">{t('highlights.empty')}</p>
+        )}
+
+        {/* Newest first */}
+        {[...clips].reverse().map(clip => (
+          <div key={clip.id} className="bg-white/5 rounded-2xl p-3 space-y-2">
+            <video src={clip.url} controls playsInline className="w-full rounded-xl bg-black" />
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="font-semibold">
+                  {t('highlights.round', { round: clip.round })} · {t(clip.title)}
+                </div>
+                <div className="text-xs text-gray-400">
+                  {t('highlights.meta', { seconds: Math.round(clip.durationMs / 100) / 10, size: formatSize(locale, clip.blob.size) })}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <a
+                  href={clip.url}
+                  download={`rps-round-${clip.round}.webm`}
+                  className="flex items-center gap-1.5 text-sm bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded-lg"
+                >
+                  <Download size={16} />
+                  {t('highlights.download')}
+                </a>
+                <button
+                  onClick={() => recorder.remove(clip.id)}
+                  className="text-gray-400 hover:text-red-400"
+                  aria-label={t('highlights.delete')}
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {clips.length > 0 && (
+          <div className="flex justify-end">
+            <button
+              onClick={() => recorder.clear()}
+              className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-red-400"
+            >
+              <Trash2 size={16} />
+              {t('highlights.clear')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HighlightsPanel;
@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { X, Upload, Download } from 'lucide-react';
+import { Message, OpponentType, SEATS } from '../types';
+import { MatchLog, MatchLogRound, matchLogToCsv, parseMatchLog, serializeMatchLog } from '../services/matchLog';
+import { seatName } from '../services/gameEngine';
+import { gestureLabel } from '../services/rules';
+import { difficultyLabel } from '../services/botStrategies';
+import { describeFormat } from '../services/matchFormat';
+import { useTranslation } from './useTranslation';
+
+interface MatchLogPanelProps {
+  // The app's own log of the current or last match
+  log: MatchLog | null;
+  onClose: () => void;
+}
+
+const download = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const outcomeOf = (round: MatchLogRound, opponent: OpponentType): Message => {
+  switch (round.winner) {
+    case 'p1':
+    case 'p2': return { key: 'result.seatWins', params: { seat: seatName(opponent, round.winner) } };
+    case 'draw': return { key: 'result.draw' };
+    case 'unclear': return { key: 'result.unclear' };
+    case 'invalid': return { key: 'matchLog.void' };
+  }
+};
+
+// Read-only recap of a match log, either the app's own or an imported file.
+const MatchLogPanel: React.FC<MatchLogPanelProps> = ({ log, onClose }) => {
+  const { locale, t } = useTranslation();
+  const [imported, setImported] = useState<{ log: MatchLog; file: string } | null>(null);
+  const [includeFrames, setIncludeFrames] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const shown = imported?.log ?? log;
+  const frameCount = shown?.frames?.length ?? 0;
+
+  const importLog = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImported({ log: parseMatchLog(await file.text()), file: file.name });
+      setError(null);
+    } catch (err: any) {
+      setError(t('matchLog.importError', { file: file.name, message: String(err?.message ?? err) }));
+    }
+  };
+
+  const exportLog = (kind: 'json' | 'csv') => {
+    if (!shown) return;
+    const name = `rps-match-${new Date(shown.startedAt).toISOString().replace(/[:.]/g, '-')}`;
+    if (kind === 'json') {
+      download(serializeMatchLog(shown, { includeFrames }), 'application/json', `${name}.json`);
+    } else {
+      download(matchLogToCsv(shown), 'text/csv', `${name}.csv`);
+    }
+  };
+
+  const matchOutcome = (log: MatchLog): string => {
+    if (log.abandoned) return t('matchLog.abandoned');
+    if (log.endedAt === null) return t('matchLog.inProgress');
+    if (log.winner === 'draw' || log.winner === null) return t('gameOver.draw');
+    return t('gameOver.seatWins', { seat: seatName(log.settings.opponent, log.winner) });
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto">
+      <div className="bg-gray-900/95 border border-white/10 rounded-3xl p-6 w-full max-w-2xl max-h-full overflow-y-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold">{t('matchLog.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('matchLog.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <button onClick={() => importRef.current?.click()} className="flex items-center gap-1.5 text-gray-400 hover:text-white">
+            <Upload size={14} />
+            {t('matchLog.import')}
+          </button>
+          <input ref={importRef} type="file" accept=".json,application/json" className="hidden" onChange={importLog} />
+          {imported && log && (
+            <button onClick={() => setImported(null)} className="text-gray-400 hover:text-white">
+              {t('matchLog.showOwn')}
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        {!shown && <p className="text-gray-400 text-center py-8">{t('matchLog.empty')}</p>}
+
+        {shown && (
+          <>
+            <section className="space-y-1">
+              <p className="text-xs uppercase tracking-widest text-gray-500">
+                {imported ? t('matchLog.imported', { file: imported.file }) : t('matchLog.own')}
+              </p>
+              <p className="text-lg font-semibold">
+                {matchOutcome(shown)} · {shown.score.p1} – {shown.score.p2}
+              </p>
+              <p className="text-sm text-gray-400">
+                {[
+                  t({ key: `mode.${shown.settings.mode}` }),
+                  t({ key: `opponent.${shown.settings.opponent}` }),
+                  shown.settings.opponent === OpponentType.BOT && t(difficultyLabel(shown.settings.difficulty)),
+                  t(describeFormat(shown.settings))
+                ].filter(Boolean).join(' · ')}
+              </p>
+              <p className="text-sm text-gray-500">
+                {t('matchLog.started', { date: new Date(shown.startedAt).toLocaleString(locale) })}
+                {frameCount > 0 && ` · ${t('matchLog.frames', { count: frameCount })}`}
+              </p>
+            </section>
+
+            {shown.rounds.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('matchLog.noRounds')}</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-gray-500 text-left">
+                  <tr>
+                    <th className="font-normal">{t('matchLog.round')}</th>
+                    {SEATS.map(seat => (
+                      <th key={seat} className="font-normal">{t(seatName(shown.settings.opponent, seat))}</th>
+                    ))}
+                    <th className="font-normal">{t('matchLog.outcome')}</th>
+                    <th className="font-normal">{t('matchLog.score')}</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {shown.rounds.map(r => (
+                    <tr key={r.round}>
+                      <td>{r.round}</td>
+                      {SEATS.map(seat => (
+                        <td key={seat}>
+                          {t(gestureLabel(r.throws[seat].gesture))}
+                          <span className="text-gray-500"> {Math.round(r.throws[seat].confidence * 100)}%</span>
+                          {r.throws[seat].timing && (
+                            <span className="text-amber-400"> · {t({ key: `result.${r.throws[seat].timing!}` })}</span>
+                          )}
+                        </td>
+                      ))}
+                      <td>{t(outcomeOf(r, shown.settings.opponent))}</td>
+                      <td>{r.score.p1} – {r.score.p2}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="flex flex-wrap items-center justify-end gap-3 text-sm">
+              {frameCount > 0 && (
+                <label className="flex items-center gap-2 text-gray-400 mr-auto">
+                  <input type="checkbox" checked={includeFrames} onChange={e => setIncludeFrames(e.target.checked)} />
+                  {t('matchLog.includeFrames')}
+                </label>
+              )}
+              <button onClick={() => exportLog('json')} className="flex items-center gap-1.5 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-lg">
+                <Download size={14} />
+                {t('matchLog.exportJson')}
+              </button>
+              <button onClick={() => exportLog('csv')} className="flex items-center gap-1.5 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-lg">
+                <Download size={14} />
+                {t('matchLog.exportCsv')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MatchLogPanel;
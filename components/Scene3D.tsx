@@ -1,20 +1,45 @@
 import React, { useRef, useEffect } from 'react';
 import * as THREE from 'three';
-import { Gesture } from '../types';
+import { GameResult, GameState, Gesture, Seat, SEATS } from '../types';
+import { AssetLoadError } from '../services/assetConfig';
+import { AssetPack, GridStyle, assetPackStore } from '../services/assetPacks';
+import { LandmarkSmoother } from '../services/landmarkSmoothing';
+import { Timeline, easings, lerp } from '../services/tween';
+import { HandPose, HandSkeleton, toScenePoints } from './HandSkeleton';
+import { ParticleBurst, SpriteFx, playReveal, restingFx, settleFx } from './sceneEffects';
 
 interface Scene3DProps {
   playerGesture: Gesture;
   botGesture: Gesture;
-  isCountingDown: boolean;
+  phase: GameState;
+  // Outcome of the round just revealed; drives the clash and winner effects
+  result?: GameResult | null;
+  onAssetError?: (error: AssetLoadError) => void;
+  // Polled every frame for the player's hand; the skeleton is hidden without one
+  readPlayerHand?: () => HandPose | null;
+  // Mirror the skeleton to match a selfie camera preview (default true)
+  mirrored?: boolean;
+  // Keep the gesture sprite as an overlay while a hand is tracked (default true)
+  showSprite?: boolean;
+  // Called after every rendered frame with the canvas still holding it, for
+  // frame-rate diagnostics and highlight recording
+  onRender?: (time: number, canvas: HTMLCanvasElement) => void;
+  // Skip the countdown shake for players who prefer reduced motion
+  reducedMotion?: boolean;
+  // Textures, colours and sprite size (default: the active pack)
+  pack?: AssetPack;
 }
 
-// Assets configuration - Using hosted 3D Fluent Emojis
-const ASSETS = {
-  [Gesture.ROCK]: 'https://raw.githubusercontent.com/Tarikul-Islam-Anik/Animated-Fluent-Emojis/master/Emojis/Hand%20gestures/Oncoming%20Fist.png',
-  [Gesture.PAPER]: 'https://raw.githubusercontent.com/Tarikul-Islam-Anik/Animated-Fluent-Emojis/master/Emojis/Hand%20gestures/Raised%20Hand.png',
-  [Gesture.SCISSORS]: 'https://raw.githubusercontent.com/Tarikul-Islam-Anik/Animated-Fluent-Emojis/master/Emojis/Hand%20gestures/Victory%20Hand.png',
-  [Gesture.NONE]: 'https://raw.githubusercontent.com/Tarikul-Islam-Anik/Animated-Fluent-Emojis/master/Emojis/Smilies/Thinking%20Face.png' 
-};
+// Sprite opacity while the live hand is drawn underneath it
+const OVERLAY_OPACITY = 0.35;
+
+const SPRITE_X: Record<Seat, number> = { p1: -2.5, p2: 2.5 };
+const BURST_COLORS: Record<Seat, number> = { p1: 0x60a5fa, p2: 0xf87171 };
+// Sprites grow when they show a gesture
+const IDLE_SCALE = 3;
+const ACTIVE_SCALE = 4;
+const SHAKE_AMPLITUDE = 0.5;
+const SHAKE_TAG = 'shake';
 
 // Fallback texture generator
 const createFallbackTexture = (text: string, color: string) => {
@@ -38,62 +63,115 @@ const createFallbackTexture = (text: string, color: string) => {
   return tex;
 };
 
-const Scene3D: React.FC<Scene3DProps> = ({ playerGesture, botGesture, isCountingDown }) => {
+const disposeTextures = (textures: Record<string, THREE.Texture>) => {
+  Object.keys(textures).forEach(key => textures[key].dispose());
+};
+
+const createGrid = ({ color, lineColor, divisions }: GridStyle) => {
+  const grid = new THREE.GridHelper(40, divisions, color, lineColor);
+  grid.position.y = -3;
+  return grid;
+};
+
+const Scene3D: React.FC<Scene3DProps> = ({
+  playerGesture,
+  botGesture,
+  phase,
+  result = null,
+  onAssetError,
+  readPlayerHand,
+  mirrored = true,
+  showSprite = true,
+  onRender,
+  reducedMotion = false,
+  pack = assetPackStore.getPack()
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const playerSpriteRef = useRef<THREE.Sprite | null>(null);
   const botSpriteRef = useRef<THREE.Sprite | null>(null);
+
+  // The animation loop is set up once, so it reads the latest props from here
+  const livePropsRef = useRef({ readPlayerHand, mirrored, showSprite, onRender, playerGesture, botGesture });
+  livePropsRef.current = { readPlayerHand, mirrored, showSprite, onRender, playerGesture, botGesture };
+  const packRef = useRef(pack);
   
   // Refs for animation state
   const frameIdRef = useRef<number>(0);
-  const texturesRef = useRef<Record<string, THREE.Texture>>({});
+  // Textures belong to one pack and are disposed when it is swapped out
+  const texturesRef = useRef<{ packId: string; textures: Record<string, THREE.Texture> }>({ packId: pack.id, textures: {} });
+  const gridRef = useRef<THREE.GridHelper | null>(null);
   const timeRef = useRef<number>(0);
+  const sceneRef = useRef<THREE.Scene | null>(null);
+  const timelineRef = useRef(new Timeline());
+  const fxRef = useRef<Record<Seat, SpriteFx>>({ p1: restingFx(), p2: restingFx() });
+  const baseScaleRef = useRef<Record<Seat, number>>({ p1: IDLE_SCALE, p2: IDLE_SCALE });
+  const shakeRef = useRef({ amplitude: 0 });
+  const burstsRef = useRef<ParticleBurst[]>([]);
+  const revealedRef = useRef<GameResult | null>(null);
+
+  const clearBursts = () => {
+    burstsRef.current.forEach(burst => {
+      sceneRef.current?.remove(burst.points);
+      burst.dispose();
+    });
+    burstsRef.current = [];
+  };
+
+  const applyTexture = (sprite: THREE.Sprite, tex: THREE.Texture) => {
+    if (sprite.material.map !== tex) {
+      sprite.material.map = tex;
+      sprite.material.needsUpdate = true;
+    }
+  };
+
+  const applyFallback = (sprite: THREE.Sprite, gesture: Gesture, key: string) => {
+    const { glyph, color } = packRef.current.fallback[gesture];
+    const fallbackTex = createFallbackTexture(glyph, color);
+    texturesRef.current.textures[key] = fallbackTex;
+    applyTexture(sprite, fallbackTex);
+  };
 
   // Function to safely update sprite texture
-  const updateSprite = (sprite: THREE.Sprite, gesture: Gesture) => {
-    const url = ASSETS[gesture];
-    
+  const updateSprite = (sprite: THREE.Sprite, seat: Seat, gesture: Gesture) => {
+    const { id: packId, textures } = packRef.current;
+    const url = textures[seat][gesture];
+    const key = url ?? `fallback:${gesture}`;
+    const cache = texturesRef.current.textures;
+
     // If texture is already cached, use it
-    if (texturesRef.current[url]) {
-      if (sprite.material.map !== texturesRef.current[url]) {
-        sprite.material.map = texturesRef.current[url];
-        sprite.material.needsUpdate = true;
-      }
+    if (cache[key]) {
+      applyTexture(sprite, cache[key]);
+      return;
+    }
+
+    if (!url) {
+      applyFallback(sprite, gesture, key);
       return;
     }
 
     // Load new texture
     const loader = new THREE.TextureLoader();
-    loader.crossOrigin = 'anonymous'; // Ensure CORS is handled for remote images
     loader.load(
       url,
       (tex) => {
+        // The pack changed while this was loading
+        if (texturesRef.current.packId !== packId) {
+          tex.dispose();
+          return;
+        }
         tex.colorSpace = THREE.SRGBColorSpace;
-        texturesRef.current[url] = tex;
+        texturesRef.current.textures[key] = tex;
         // Check if the gesture is still the same before applying (prevent race conditions)
         // Actually, for simplicity we just apply it. The next render loop or prop update will correct it if changed.
-        sprite.material.map = tex;
-        sprite.material.needsUpdate = true;
+        applyTexture(sprite, tex);
       },
       undefined,
-      (err) => {
-        console.warn(`Failed to load texture for ${gesture}, using fallback.`, err);
-        // Create fallback
-        const fallbackMap: Record<string, string> = {
-          [Gesture.ROCK]: '🪨',
-          [Gesture.PAPER]: '📄',
-          [Gesture.SCISSORS]: '✂️',
-          [Gesture.NONE]: '🤔'
-        };
-        const fallbackColor: Record<string, string> = {
-          [Gesture.ROCK]: '#475569',
-          [Gesture.PAPER]: '#3b82f6',
-          [Gesture.SCISSORS]: '#ef4444',
-          [Gesture.NONE]: '#eab308'
-        };
-        const fallbackTex = createFallbackTexture(fallbackMap[gesture] || '?', fallbackColor[gesture] || '#666');
-        texturesRef.current[url] = fallbackTex;
-        sprite.material.map = fallbackTex;
-        sprite.material.needsUpdate = true;
+      () => {
+        if (texturesRef.current.packId !== packId) return;
+        const error = new AssetLoadError('sprite', url, `texture for ${gesture} could not be decoded or fetched`);
+        console.warn(`${error.message}; using fallback.`);
+        onAssetError?.(error);
+        applyFallback(sprite, gesture, key);
       }
     );
   };
@@ -103,7 +181,8 @@ const Scene3D: React.FC<Scene3DProps> = ({ playerGesture, botGesture, isCounting
 
     // --- Scene Setup ---
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x111827); // Tailwind gray-900
+    sceneRef.current = scene;
+    scene.background = new THREE.Color(packRef.current.background);
     // scene.fog = new THREE.Fog(0x111827, 10, 50); // Removed fog to make sprites clearer
 
     // --- Camera ---
@@ -130,70 +209,81 @@ const Scene3D: React.FC<Scene3DProps> = ({ playerGesture, botGesture, isCounting
 
     // Player
     const pSprite = new THREE.Sprite(spriteMaterial.clone());
-    pSprite.position.set(-2.5, 0, 0);
-    pSprite.scale.set(3, 3, 1);
+    pSprite.position.set(SPRITE_X.p1, 0, 0);
+    pSprite.scale.set(IDLE_SCALE, IDLE_SCALE, 1);
     scene.add(pSprite);
     playerSpriteRef.current = pSprite;
 
     // Bot
     const bSprite = new THREE.Sprite(spriteMaterial.clone());
-    bSprite.position.set(2.5, 0, 0);
-    bSprite.scale.set(3, 3, 1);
+    bSprite.position.set(SPRITE_X.p2, 0, 0);
+    bSprite.scale.set(IDLE_SCALE, IDLE_SCALE, 1);
     scene.add(bSprite);
     botSpriteRef.current = bSprite;
 
+    // Live hand skeleton, drawn where the player sprite sits
+    const skeleton = new HandSkeleton();
+    skeleton.group.position.set(SPRITE_X.p1, 0, 0);
+    scene.add(skeleton.group);
+    const smoother = new LandmarkSmoother();
+
     // Contextual Grid
-    const gridHelper = new THREE.GridHelper(40, 40, 0x334155, 0x1e293b);
-    gridHelper.position.y = -3;
-    gridHelper.rotation.x = 0; // Flat grid
-    scene.add(gridHelper);
+    if (packRef.current.grid) {
+      gridRef.current = createGrid(packRef.current.grid);
+      scene.add(gridRef.current);
+    }
 
     // Initial Texture Load
-    updateSprite(pSprite, Gesture.NONE);
-    updateSprite(bSprite, Gesture.NONE);
+    updateSprite(pSprite, 'p1', Gesture.NONE);
+    updateSprite(bSprite, 'p2', Gesture.NONE);
 
     // --- Animation Loop ---
     const animate = (time: number) => {
       frameIdRef.current = requestAnimationFrame(animate);
       timeRef.current = time;
+      // Effects are scheduled with performance.now(), so advance them on the same clock
+      const now = performance.now();
+      timelineRef.current.update(now);
 
-      // Calculate target scales based on activity
-      // If we are playing and a gesture is detected, scale up
-      
-      if (playerSpriteRef.current && botSpriteRef.current) {
-        
-        // 1. Player Logic
-        // Base hover
-        const pHover = Math.sin(time * 0.002) * 0.1;
-        playerSpriteRef.current.position.y = pHover;
-
-        // Scaling logic - if gesture is active, scale up slightly
-        // We use a simple Lerner for smooth scaling requires tracking state, 
-        // but for simplicity we'll just set it or use math.sin for pulse
-        
-        // Apply rotation/tilt based on movement (simulated)
-        const pTilt = Math.cos(time * 0.003) * 0.05;
-        playerSpriteRef.current.material.rotation = pTilt;
-
-        // 2. Bot Logic
-        const bHover = Math.sin(time * 0.002 + 1) * 0.1;
-        botSpriteRef.current.position.y = bHover;
-        botSpriteRef.current.material.rotation = -pTilt;
-
-        // 3. Countdown Shake
-        if (isCountingDown) {
-             const shakeAmp = 0.5;
-             const shakeSpeed = 0.02;
-             playerSpriteRef.current.position.y += Math.sin(time * shakeSpeed) * shakeAmp;
-             botSpriteRef.current.position.y += Math.cos(time * shakeSpeed) * shakeAmp;
-             
-             // Reset scale during countdown
-             playerSpriteRef.current.scale.setScalar(3);
-             botSpriteRef.current.scale.setScalar(3);
-        }
+      const sprites: Record<Seat, THREE.Sprite | null> = { p1: playerSpriteRef.current, p2: botSpriteRef.current };
+      if (sprites.p1 && sprites.p2) {
+        // Idle hover and tilt, with the countdown shake eased in and out on top
+        const tilt = Math.cos(time * 0.003) * 0.05;
+        const shake = shakeRef.current.amplitude;
+        const motion: Record<Seat, { y: number; rotation: number }> = {
+          p1: { y: Math.sin(time * 0.002) * 0.1 + Math.sin(time * 0.02) * shake, rotation: tilt },
+          p2: { y: Math.sin(time * 0.002 + 1) * 0.1 + Math.cos(time * 0.02) * shake, rotation: -tilt }
+        };
+
+        // Live hand: the sprite becomes an optional overlay while one is tracked
+        const { readPlayerHand, mirrored, showSprite } = livePropsRef.current;
+        const pose = readPlayerHand?.();
+        const points = smoother.push(pose ? toScenePoints(pose, mirrored) : null, time);
+
+        SEATS.forEach(seat => {
+          const sprite = sprites[seat]!;
+          const fx = fxRef.current[seat];
+          const scale = baseScaleRef.current[seat] * fx.scale * packRef.current.spriteScale;
+          sprite.position.set(SPRITE_X[seat] + fx.x, motion[seat].y + fx.y, 0);
+          sprite.scale.set(scale, scale, 1);
+          sprite.material.rotation = motion[seat].rotation + fx.rotation;
+          sprite.material.opacity = fx.opacity * (seat === 'p1' && points ? OVERLAY_OPACITY : 1);
+        });
+
+        skeleton.update(points);
+        skeleton.group.position.set(sprites.p1.position.x, sprites.p1.position.y, 0);
+        sprites.p1.visible = !points || showSprite;
       }
 
+      burstsRef.current = burstsRef.current.filter(burst => {
+        if (burst.update(now)) return true;
+        scene.remove(burst.points);
+        burst.dispose();
+        return false;
+      });
+
       renderer.render(scene, camera);
+      livePropsRef.current.onRender?.(time, renderer.domElement);
     };
     animate(0);
 
@@ -213,41 +303,107 @@ const Scene3D: React.FC<Scene3DProps> = ({ playerGesture, botGesture, isCounting
       if (containerRef.current && renderer) {
         containerRef.current.removeChild(renderer.domElement);
       }
+      skeleton.dispose();
+      timelineRef.current.cancel();
+      clearBursts();
+      sceneRef.current = null;
+      gridRef.current?.dispose();
+      gridRef.current = null;
       // Cleanup textures
-      Object.values(texturesRef.current).forEach(t => t.dispose());
+      disposeTextures(texturesRef.current.textures);
     };
   }, []); // Run once on mount
 
-  // React to Player Gesture Changes
+  // A new pack starts a fresh texture cache and restyles the scene
   useEffect(() => {
-    if (playerSpriteRef.current) {
-        updateSprite(playerSpriteRef.current, playerGesture);
-        
-        // Add a "pop" effect when gesture changes
-        if (playerGesture !== Gesture.NONE) {
-            // Simple pop by checking time or just setting scale larger temporarily? 
-            // Since we don't have a tween library, we can set a larger scale 
-            // and let the next render loop handle it if we had lerping.
-            // For now, let's just make it bigger if it's a valid gesture.
-            playerSpriteRef.current.scale.set(4, 4, 1);
-        } else {
-            playerSpriteRef.current.scale.set(3, 3, 1);
-        }
+    if (packRef.current === pack) return;
+    packRef.current = pack;
+    disposeTextures(texturesRef.current.textures);
+    texturesRef.current = { packId: pack.id, textures: {} };
+
+    const scene = sceneRef.current;
+    if (!scene) return;
+    scene.background = new THREE.Color(pack.background);
+    if (gridRef.current) {
+      scene.remove(gridRef.current);
+      gridRef.current.dispose();
+      gridRef.current = null;
+    }
+    if (pack.grid) {
+      gridRef.current = createGrid(pack.grid);
+      scene.add(gridRef.current);
     }
+    const { playerGesture, botGesture } = livePropsRef.current;
+    if (playerSpriteRef.current) updateSprite(playerSpriteRef.current, 'p1', playerGesture);
+    if (botSpriteRef.current) updateSprite(botSpriteRef.current, 'p2', botGesture);
+  }, [pack]);
+
+  // Sprites ease to their new size when a gesture appears or goes away
+  const popSprite = (seat: Seat, gesture: Gesture) => {
+    const timeline = timelineRef.current;
+    const base = baseScaleRef.current;
+    const from = base[seat];
+    const to = gesture === Gesture.NONE ? IDLE_SCALE : ACTIVE_SCALE;
+    timeline.cancel(`pop:${seat}`);
+    if (from === to) return;
+    timeline.add({
+      duration: 250,
+      easing: gesture === Gesture.NONE ? easings.outCubic : easings.outBack,
+      tag: `pop:${seat}`,
+      update: t => {
+        base[seat] = lerp(from, to, t);
+      }
+    }, performance.now());
+  };
+
+  useEffect(() => {
+    if (!playerSpriteRef.current) return;
+    updateSprite(playerSpriteRef.current, 'p1', playerGesture);
+    popSprite('p1', playerGesture);
   }, [playerGesture]);
 
-  // React to Bot Gesture Changes
   useEffect(() => {
-    if (botSpriteRef.current) {
-        updateSprite(botSpriteRef.current, botGesture);
-        
-        if (botGesture !== Gesture.NONE) {
-            botSpriteRef.current.scale.set(4, 4, 1);
-        } else {
-            botSpriteRef.current.scale.set(3, 3, 1);
+    if (!botSpriteRef.current) return;
+    updateSprite(botSpriteRef.current, 'p2', botGesture);
+    popSprite('p2', botGesture);
+  }, [botGesture]);
+
+  // Phase changes: ease the countdown shake in and out, play the reveal once
+  // per result, and cancel leftover effects when the next round starts.
+  useEffect(() => {
+    const timeline = timelineRef.current;
+    const now = performance.now();
+
+    const shake = shakeRef.current;
+    const from = shake.amplitude;
+    const to = phase === GameState.COUNTDOWN && !reducedMotion ? SHAKE_AMPLITUDE : 0;
+    timeline.cancel(SHAKE_TAG);
+    if (from !== to) {
+      timeline.add({
+        duration: to > 0 ? 400 : 250,
+        easing: easings.inOutSine,
+        tag: SHAKE_TAG,
+        update: t => {
+          shake.amplitude = lerp(from, to, t);
         }
+      }, now);
     }
-  }, [botGesture]);
+
+    if (phase === GameState.COUNTDOWN || phase === GameState.IDLE) {
+      revealedRef.current = null;
+      clearBursts();
+      settleFx(timeline, fxRef.current, now);
+    } else if ((phase === GameState.RESULT || phase === GameState.GAME_OVER) && result && result !== revealedRef.current) {
+      revealedRef.current = result;
+      playReveal(timeline, fxRef.current, result, now, seat => {
+        const sprite = seat === 'p1' ? playerSpriteRef.current : botSpriteRef.current;
+        if (!sprite || !sceneRef.current) return;
+        const burst = new ParticleBurst(sprite.position.clone(), BURST_COLORS[seat], performance.now());
+        burstsRef.current.push(burst);
+        sceneRef.current.add(burst.points);
+      });
+    }
+  }, [phase, result, reducedMotion]);
 
   return <div ref={containerRef} className="absolute inset-0 z-0 w-full h-full" />;
 };
@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { X, FolderOpen, FileArchive } from 'lucide-react';
+import { DrawHandling, MatchFormat } from '../types';
+import { DEFAULT_TARGETS, formatLabel } from '../services/matchFormat';
+import { DEFAULT_SETTINGS, MatchSettings, SETTING_LIMITS, sanitizeSettings } from '../services/settingsStore';
+import { MessageKey } from '../services/i18n';
+import { AssetPack, AssetPackError, assetPackStore, loadPackFromFolder, loadPackFromZip } from '../services/assetPacks';
+import { CameraResolution, RESOLUTIONS, cameraManager } from '../services/cameraManager';
+import { ASSIGNMENT_STRATEGIES } from '../services/handAssignment';
+import { useTranslation } from './useTranslation';
+
+interface SettingsPanelProps {
+  settings: MatchSettings;
+  onChange: (settings: MatchSettings) => void;
+  onClose: () => void;
+}
+
+const TARGET_LABELS: Record<MatchFormat, MessageKey | null> = {
+  [MatchFormat.FIRST_TO]: 'settings.target.FIRST_TO',
+  [MatchFormat.BEST_OF]: 'settings.target.BEST_OF',
+  [MatchFormat.TIMED]: 'settings.target.TIMED',
+  [MatchFormat.SUDDEN_DEATH]: null
+};
+
+const Row: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <div className="flex items-center justify-between gap-4">
+    <div>
+      <div className="text-sm text-gray-200">{label}</div>
+      {hint && <div className="text-xs text-gray-500">{hint}</div>}
+    </div>
+    {children}
+  </div>
+);
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-semibold border transition-all ${active ? 'bg-blue-500/30 border-blue-400 text-white' : 'border-white/20 text-gray-400 hover:text-white'}`;
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const { t } = useTranslation();
+  const update = (changes: Partial<MatchSettings>) => onChange(sanitizeSettings({ ...settings, ...changes }));
+  const targetLimits = settings.format === MatchFormat.TIMED ? SETTING_LIMITS.timedTarget : SETTING_LIMITS.target;
+  const targetLabel = TARGET_LABELS[settings.format];
+  // Typed text is only applied on blur so intermediate values like "1" of "15" aren't clamped
+  const [targetDraft, setTargetDraft] = useState<string | null>(null);
+  const pack = useSyncExternalStore(assetPackStore.subscribe, assetPackStore.getPack);
+  const [packError, setPackError] = useState<{ source: string; problems: string[] } | null>(null);
+  const [loadingPack, setLoadingPack] = useState(false);
+  const folderRef = useRef<HTMLInputElement>(null);
+  const zipRef = useRef<HTMLInputElement>(null);
+  const camera = useSyncExternalStore(cameraManager.subscribe, cameraManager.getState);
+  const { deviceId, resolution, mirrored } = camera.preferences;
+
+  // Pick up cameras plugged in since the last check
+  useEffect(() => {
+    cameraManager.refreshDevices().catch(err => console.warn('Could not list cameras:', err));
+  }, []);
+
+  const commitTarget = () => {
+    if (targetDraft === null) return;
+    const value = Number(targetDraft);
+    setTargetDraft(null);
+    if (Number.isFinite(value)) update({ target: Math.min(targetLimits.max, Math.max(targetLimits.min, Math.round(value))) });
+  };
+
+  const loadPack = async (load: () => Promise<AssetPack>, source: string) => {
+    setLoadingPack(true);
+    try {
+      assetPackStore.setPack(await load());
+      setPackError(null);
+    } catch (err: any) {
+      setPackError(err instanceof AssetPackError
+        ? { source: err.source, problems: err.problems }
+        : { source, problems: [String(err?.message ?? err)] });
+    } finally {
+      setLoadingPack(false);
+    }
+  };
+
+  const onFolderChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) loadPack(() => loadPackFromFolder(files), files[0].webkitRelativePath.split('/')[0]);
+  };
+
+  const onZipChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) loadPack(() => loadPackFromZip(file), file.name);
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto">
+      <div className="bg-gray-900/95 border border-white/10 rounded-3xl p-6 w-full max-w-md max-h-full overflow-y-auto space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold">{t('settings.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('settings.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {Object.values(MatchFormat).map(f => (
+            <button key={f} onClick={() => update({ format: f, target: DEFAULT_TARGETS[f] })} className={chipClass(settings.format === f)}>
+              {t(formatLabel(f))}
+            </button>
+          ))}
+        </div>
+
+        {targetLabel && (
+          <Row label={t(targetLabel)}>
+            <input
+              type="number"
+              min={targetLimits.min}
+              max={targetLimits.max}
+              value={targetDraft ?? settings.target}
+              onChange={e => setTargetDraft(e.target.value)}
+              onBlur={commitTarget}
+              onKeyDown={e => e.key === 'Enter' && commitTarget()}
+              className="w-20 bg-white/10 rounded-lg px-2 py-1 text-right border border-white/20 outline-none focus:border-blue-400"
+            />
+          </Row>
+        )}
+
+        <Row label={t('settings.countdown')} hint={t('settings.countdownHint', { seconds: settings.countdownSeconds })}>
+          <input
+            type="range"
+            min={SETTING_LIMITS.countdownSeconds.min}
+            max={SETTING_LIMITS.countdownSeconds.max}
+            value={settings.countdownSeconds}
+            onChange={e => update({ countdownSeconds: Number(e.target.value) })}
+          />
+        </Row>
+
+        <Row label={t('settings.lockIn')} hint={t('settings.lockInHint', { ms: settings.lockInMs })}>
+          <input
+            type="range"
+            min={SETTING_LIMITS.lockInMs.min}
+            max={SETTING_LIMITS.lockInMs.max}
+            step={100}
+            value={settings.lockInMs}
+            onChange={e => update({ lockInMs: Number(e.target.value) })}
+          />
+        </Row>
+
+        <Row label={t('settings.draws')} hint={t(settings.drawHandling === DrawHandling.REPLAY ? 'settings.drawsReplayHint' : 'settings.drawsCountHint')}>
+          <div className="flex gap-2">
+            <button onClick={() => update({ drawHandling: DrawHandling.REPLAY })} className={chipClass(settings.drawHandling === DrawHandling.REPLAY)}>
+              {t('settings.replay')}
+            </button>
+            <button onClick={() => update({ drawHandling: DrawHandling.COUNT })} className={chipClass(settings.drawHandling === DrawHandling.COUNT)}>
+              {t('settings.count')}
+            </button>
+          </div>
+        </Row>
+
+        <Row label={t('settings.missingLoses')} hint={t('settings.missingLosesHint')}>
+          <input
+            type="checkbox"
+            checked={settings.invalidCountsAsLoss}
+            onChange={e => update({ invalidCountsAsLoss: e.target.checked })}
+            className="w-5 h-5 accent-blue-500"
+          />
+        </Row>
+
+        <Row label={t('settings.strictTiming')} hint={t('settings.strictTimingHint')}>
+          <input
+            type="checkbox"
+            checked={settings.strictTiming}
+            onChange={e => update({ strictTiming: e.target.checked })}
+            className="w-5 h-5 accent-blue-500"
+          />
+        </Row>
+
+        <Row label={t('settings.handAssignment')} hint={t({ key: `settings.handAssignmentHint.${settings.handAssignment}` })}>
+          <div className="flex gap-2">
+            {ASSIGNMENT_STRATEGIES.map(strategy => (
+              <button key={strategy} onClick={() => update({ handAssignment: strategy })} className={chipClass(settings.handAssignment === strategy)}>
+                {t({ key: `settings.handAssignment.${strategy}` })}
+              </button>
+            ))}
+          </div>
+        </Row>
+
+        <div className="space-y-3 pt-2 border-t border-white/10">
+          <Row label={t('settings.camera')}>
+            <select
+              value={deviceId ?? ''}
+              onChange={e => cameraManager.setPreferences({ deviceId: e.target.value || null })}
+              className="max-w-[12rem] bg-white/10 rounded-lg px-2 py-1 text-sm border border-white/20 outline-none focus:border-blue-400"
+            >
+              <option value="" className="bg-gray-900">{t('settings.cameraDefault')}</option>
+              {camera.devices.map(d => (
+                <option key={d.deviceId} value={d.deviceId} className="bg-gray-900">{d.label ?? t('settings.cameraUnnamed', { number: d.number })}</option>
+              ))}
+              {deviceId && !camera.devices.some(d => d.deviceId === deviceId) && (
+                <option value={deviceId} className="bg-gray-900">{t('settings.cameraMissing')}</option>
+              )}
+            </select>
+          </Row>
+          <Row label={t('settings.resolution')}>
+            <div className="flex gap-2">
+              {(Object.keys(RESOLUTIONS) as CameraResolution[]).map(r => (
+                <button key={r} onClick={() => cameraManager.setPreferences({ resolution: r })} className={chipClass(resolution === r)}>
+                  {r}
+                </button>
+              ))}
+            </div>
+          </Row>
+          <Row label={t('settings.mirror')} hint={t('settings.mirrorHint')}>
+            <input
+              type="checkbox"
+              checked={mirrored}
+              onChange={e => cameraManager.setPreferences({ mirrored: e.target.checked })}
+              className="w-5 h-5 accent-blue-500"
+            />
+          </Row>
+        </div>
+
+        <div className="space-y-2 pt-2 border-t border-white/10">
+          <Row label={t('settings.assetPack')} hint={pack.id === 'default' ? t('settings.assetPackDefault') : pack.name}>
+            <div className="flex gap-2">
+              <button onClick={() => folderRef.current?.click()} disabled={loadingPack} className={chipClass(false)} aria-label={t('settings.assetPackFolder')}>
+                <FolderOpen size={14} />
+              </button>
+              <button onClick={() => zipRef.current?.click()} disabled={loadingPack} className={chipClass(false)} aria-label={t('settings.assetPackZip')}>
+                <FileArchive size={14} />
+              </button>
+              {pack.id !== 'default' && (
+                <button onClick={() => assetPackStore.useDefault()} className={chipClass(false)}>
+                  {t('settings.assetPackReset')}
+                </button>
+              )}
+            </div>
+          </Row>
+          {packError && (
+            <div className="text-xs text-red-400">
+              <p>{t('settings.assetPackError', { source: packError.source })}</p>
+              <ul className="list-disc pl-4">
+                {packError.problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            </div>
+          )}
+          <input ref={folderRef} type="file" webkitdirectory="" multiple className="hidden" onChange={onFolderChosen} />
+          <input ref={zipRef} type="file" accept=".zip,application/zip" className="hidden" onChange={onZipChosen} />
+        </div>
+
+        <div className="flex justify-between pt-2 border-t border-white/10">
+          <button onClick={() => onChange(DEFAULT_SETTINGS)} className="text-sm text-gray-400 hover:text-white">
+            {t('settings.reset')}
+          </button>
+          <button onClick={onClose} className="bg-white text-black px-5 py-1.5 rounded-full font-semibold">
+            {t('settings.done')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
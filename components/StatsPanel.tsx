@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trash2, Loader2 } from 'lucide-react';
+import { Gesture } from '../types';
+import { HistoryStore } from '../services/historyStore';
+import { HistoryStats, computeStats } from '../services/matchStats';
+import { gestureLabel } from '../services/rules';
+import { useTranslation } from './useTranslation';
+
+interface StatsPanelProps {
+  store: HistoryStore;
+  onClose: () => void;
+}
+
+const percent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+
+const StatTile: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="bg-white/5 rounded-xl p-3 text-center">
+    <div className="text-2xl font-bold text-white">{value}</div>
+    <div className="text-xs uppercase tracking-widest text-gray-400">{label}</div>
+  </div>
+);
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ store, onClose }) => {
+  const { locale, t } = useTranslation();
+  const [stats, setStats] = useState<HistoryStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const load = async () => {
+    try {
+      const [rounds, matches] = await Promise.all([store.getRounds(), store.getMatches()]);
+      setStats(computeStats(rounds, matches));
+      setError(null);
+    } catch (err: any) {
+      setError(t('stats.loadError', { message: String(err?.message ?? err) }));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [store]);
+
+  const clearHistory = async () => {
+    setConfirmClear(false);
+    try {
+      await store.clear();
+      await load();
+    } catch (err: any) {
+      setError(t('stats.clearError', { message: String(err?.message ?? err) }));
+    }
+  };
+
+  const gestureTotal = stats ? Object.values(Gesture).reduce((sum, g) => sum + (stats.gestureCounts[g] ?? 0), 0) : 0;
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto">
+      <div className="bg-gray-900/95 border border-white/10 rounded-3xl p-6 w-full max-w-2xl max-h-full overflow-y-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold">{t('stats.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('stats.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        {!stats && !error && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 text-blue-400 animate-spin" />
+          </div>
+        )}
+
+        {stats && stats.rounds === 0 && (
+          <p className="text-gray-400 text-center py-8">{t('stats.empty')}</p>
+        )}
+
+        {stats && stats.rounds > 0 && (
+          <>
+            <div className="grid grid-cols-4 gap-3">
+              <StatTile label={t('stats.winRate')} value={percent(stats.winRate)} />
+              <StatTile label={t('stats.rounds')} value={stats.rounds} />
+              <StatTile label={t('stats.bestStreak')} value={stats.longestWinStreak} />
+              <StatTile label={t('stats.matchesWon')} value={`${stats.matchesWon}/${stats.matchesWon + stats.matchesLost}`} />
+            </div>
+            <p className="text-sm text-gray-400">
+              {t('stats.record', { wins: stats.wins, losses: stats.losses, draws: stats.draws })}
+              {stats.voided > 0 && ` · ${t('stats.voided', { count: stats.voided })}`}
+              {stats.currentStreak && ` · ${t('stats.currentStreak', { kind: { key: `stats.streak.${stats.currentStreak.kind}` }, length: stats.currentStreak.length })}`}
+              {stats.longestLossStreak > 0 && ` · ${t('stats.worstRun', { count: stats.longestLossStreak })}`}
+            </p>
+
+            <section>
+              <h3 className="text-sm uppercase tracking-widest text-gray-400 mb-2">{t('stats.throws')}</h3>
+              <div className="space-y-1">
+                {Object.values(Gesture).filter(g => stats.gestureCounts[g]).map(g => (
+                  <div key={g} className="flex items-center gap-3 text-sm">
+                    <span className="w-20 text-gray-300">{t(gestureLabel(g))}</span>
+                    <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                      <div className="h-full bg-blue-400" style={{ width: `${(stats.gestureCounts[g]! / gestureTotal) * 100}%` }} />
+                    </div>
+                    <span className="w-12 text-right text-gray-400">{percent(stats.gestureCounts[g]! / gestureTotal)}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-sm uppercase tracking-widest text-gray-400 mb-2">{t('stats.habits')}</h3>
+              {stats.predictableTransitions.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('stats.noPatterns')}</p>
+              ) : (
+                <ul className="text-sm text-gray-300 space-y-1">
+                  {stats.predictableTransitions.map(tr => (
+                    <li key={tr.from}>
+                      {t('stats.transition', { from: gestureLabel(tr.from), to: gestureLabel(tr.to), percent: percent(tr.probability) })}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-sm uppercase tracking-widest text-gray-400 mb-2">{t('stats.sessions')}</h3>
+              <table className="w-full text-sm">
+                <thead className="text-gray-500 text-left">
+                  <tr>
+                    <th className="font-normal">{t('stats.started')}</th>
+                    <th className="font-normal">{t('stats.rounds')}</th>
+                    <th className="font-normal">{t('stats.record.header')}</th>
+                    <th className="font-normal">{t('stats.matches')}</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {stats.sessions.map(s => (
+                    <tr key={s.sessionId}>
+                      <td>{new Date(s.startedAt).toLocaleString(locale)}</td>
+                      <td>{s.rounds}</td>
+                      <td>{s.wins} / {s.losses} / {s.draws}</td>
+                      <td>{t('stats.sessionMatches', { won: s.matchesWon, lost: s.matchesLost })}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2 border-t border-white/10">
+          {confirmClear ? (
+            <>
+              <span className="text-sm text-gray-300 self-center">{t('stats.confirmClear')}</span>
+              <button onClick={() => setConfirmClear(false)} className="text-sm text-gray-400 hover:text-white px-3">{t('stats.cancel')}</button>
+              <button onClick={clearHistory} className="text-sm bg-red-500/20 hover:bg-red-500/40 text-red-200 border border-red-500/50 px-4 py-1.5 rounded-full">
+                {t('stats.delete')}
+              </button>
+            </>
+          ) : (
+            <button onClick={() => setConfirmClear(true)} className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-red-300">
+              <Trash2 size={14} />
+              {t('stats.clear')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { GameResult, Seat, SEATS } from '../types';
+import { Timeline, easings, lerp } from '../services/tween';
+
+// Round-outcome choreography for Scene3D. Tweens write into a SpriteFx per
+// seat and the render loop layers those offsets over each sprite's resting
+// pose, hover and countdown shake, so effects never fight the idle motion.
+
+export interface SpriteFx {
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number;
+  opacity: number;
+}
+
+export const restingFx = (): SpriteFx => ({ x: 0, y: 0, scale: 1, rotation: 0, opacity: 1 });
+
+// Every reveal tween carries this tag so a new round can cancel them together.
+export const ROUND_TAG = 'round';
+
+// Direction from each seat's sprite towards the centre of the stage
+const INWARD: Record<Seat, number> = { p1: 1, p2: -1 };
+const CLASH_MS = 180;
+
+const tweenFx = (
+  timeline: Timeline,
+  fx: SpriteFx,
+  target: Partial<SpriteFx>,
+  spec: { duration: number; delay?: number; easing?: (t: number) => number },
+  now: number
+) => {
+  let from = { ...fx };
+  const keys = Object.keys(target) as (keyof SpriteFx)[];
+  timeline.add({
+    ...spec,
+    tag: ROUND_TAG,
+    start: () => {
+      from = { ...fx };
+    },
+    update: t => keys.forEach(key => {
+      fx[key] = lerp(from[key], target[key]!, t);
+    })
+  }, now);
+};
+
+// Eases both sprites back to rest, e.g. when a new round starts mid-effect.
+export const settleFx = (timeline: Timeline, fx: Record<Seat, SpriteFx>, now: number) => {
+  timeline.cancel(ROUND_TAG);
+  SEATS.forEach(seat => tweenFx(timeline, fx[seat], restingFx(), { duration: 200, easing: easings.outCubic }, now));
+};
+
+export const playReveal = (
+  timeline: Timeline,
+  fx: Record<Seat, SpriteFx>,
+  result: GameResult,
+  now: number,
+  onBurst: (seat: Seat) => void
+) => {
+  timeline.cancel(ROUND_TAG);
+  const winner: Seat | undefined = result.winner === 'p1' || result.winner === 'p2' ? result.winner : result.awardedTo;
+
+  // Clash: both throws fly at each other...
+  SEATS.forEach(seat => tweenFx(timeline, fx[seat], { x: 1.6 * INWARD[seat] }, { duration: CLASH_MS, easing: easings.inCubic }, now));
+
+  if (winner) {
+    const loser = SEATS.find(seat => seat !== winner)!;
+    // ...the winner holds its ground and grows...
+    tweenFx(timeline, fx[winner], { x: 0, y: 0.4, scale: 1.35 }, { duration: 500, delay: CLASH_MS, easing: easings.outBack }, now);
+    // ...while the loser is knocked back and fades
+    tweenFx(
+      timeline,
+      fx[loser],
+      { x: -1.2 * INWARD[loser], y: -0.3, rotation: 0.5 * INWARD[loser], scale: 0.8, opacity: 0.45 },
+      { duration: 450, delay: CLASH_MS, easing: easings.outCubic },
+      now
+    );
+    timeline.add({ duration: 0, delay: CLASH_MS, tag: ROUND_TAG, update: () => {}, complete: () => onBurst(winner) }, now);
+    return;
+  }
+
+  // ...and bounce apart
+  SEATS.forEach(seat => tweenFx(timeline, fx[seat], { x: 0 }, { duration: 350, delay: CLASH_MS, easing: easings.outBack }, now));
+  if (result.winner === 'draw') {
+    SEATS.forEach(seat => {
+      tweenFx(timeline, fx[seat], { y: 0.9 }, { duration: 220, delay: CLASH_MS, easing: easings.outCubic }, now);
+      tweenFx(timeline, fx[seat], { y: 0 }, { duration: 650, delay: CLASH_MS + 220, easing: easings.outBounce }, now);
+    });
+  }
+};
+
+// --- Particles ---
+
+const BURST_LIFETIME_MS = 900;
+const GRAVITY = -9;
+
+export class ParticleBurst {
+  public readonly points: THREE.Points;
+  private velocities: Float32Array;
+  private material: THREE.PointsMaterial;
+  private lastUpdate: number;
+
+  constructor(origin: THREE.Vector3, color: number, private startedAt: number, count = 60) {
+    const positions = new Float32Array(count * 3);
+    this.velocities = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      positions.set([origin.x, origin.y, origin.z], i * 3);
+      // Mostly outwards and upwards
+      const angle = Math.random() * Math.PI * 2;
+      const speed = 2 + Math.random() * 4;
+      this.velocities.set([Math.cos(angle) * speed, Math.abs(Math.sin(angle)) * speed + 1, (Math.random() - 0.5) * 2], i * 3);
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    this.material = new THREE.PointsMaterial({ color, size: 0.15, transparent: true, depthWrite: false });
+    this.points = new THREE.Points(geometry, this.material);
+    this.lastUpdate = startedAt;
+  }
+
+  // Returns false once the burst has faded out.
+  public update(now: number): boolean {
+    const age = now - this.startedAt;
+    if (age >= BURST_LIFETIME_MS) return false;
+    const dt = Math.max(0, now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+
+    const position = this.points.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const array = position.array as Float32Array;
+    for (let i = 0; i < array.length; i += 3) {
+      this.velocities[i + 1] += GRAVITY * dt;
+      array[i] += this.velocities[i] * dt;
+      array[i + 1] += this.velocities[i + 1] * dt;
+      array[i + 2] += this.velocities[i + 2] * dt;
+    }
+    position.needsUpdate = true;
+    this.material.opacity = 1 - age / BURST_LIFETIME_MS;
+    return true;
+  }
+
+  public dispose() {
+    this.points.geometry.dispose();
+    this.material.dispose();
+  }
+}
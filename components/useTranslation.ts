@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Message, MessageParams } from '../types';
+import { MessageKey, formatMessage, i18n } from '../services/i18n';
+
+// Re-renders the caller when the language changes. `t` takes either a catalog
+// key with params or a Message produced by a service.
+export const useTranslation = () => {
+  const locale = useSyncExternalStore(i18n.subscribe, i18n.getLocale);
+  const t = useCallback(
+    (message: MessageKey | Message, params?: MessageParams) =>
+      formatMessage(locale, typeof message === 'string' ? { key: message, params } : message),
+    [locale]
+  );
+  return { locale, t };
+};
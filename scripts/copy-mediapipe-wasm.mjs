@@ -0,0 +1,18 @@
+// Copies the MediaPipe wasm runtime out of node_modules so the app can serve
+// it itself instead of pulling it from a CDN at runtime.
+import { cpSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const source = join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+const target = join(root, 'public', 'mediapipe', 'wasm');
+
+if (!existsSync(source)) {
+  console.warn(`MediaPipe wasm not found at ${source}; skipping copy.`);
+  process.exit(0);
+}
+
+mkdirSync(target, { recursive: true });
+cpSync(source, target, { recursive: true });
+console.log(`Copied MediaPipe wasm to ${target}`);
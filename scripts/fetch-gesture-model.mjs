@@ -0,0 +1,25 @@
+// Downloads the gesture recognizer model into public/ once, while online, so
+// the app never needs network access at runtime.
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'models', 'gesture_recognizer.task');
+
+if (existsSync(target) && !process.argv.includes('--force')) {
+  console.log(`Model already present at ${target} (use --force to re-download).`);
+  process.exit(0);
+}
+
+const response = await fetch(MODEL_URL);
+if (!response.ok) {
+  console.error(`Failed to download model: HTTP ${response.status}`);
+  process.exit(1);
+}
+
+mkdirSync(dirname(target), { recursive: true });
+writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+console.log(`Saved gesture model to ${target}`);
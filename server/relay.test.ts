@@ -0,0 +1,356 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { DrawHandling, GameMode, Gesture, MatchFormat } from '../types';
+import { LockInOutcome } from '../services/gestureStabilizer';
+import { NetMatchClient, NetState } from '../services/netClient';
+import { ClientMessage, PROTOCOL_VERSION, Reveal, RoomRules, ServerMessage, commitHash } from '../services/netProtocol';
+import { RelayServer, createRelayServer } from './relay';
+
+const RULES: RoomRules = {
+  mode: GameMode.CLASSIC,
+  format: MatchFormat.FIRST_TO,
+  target: 3,
+  drawHandling: DrawHandling.REPLAY,
+  invalidCountsAsLoss: false
+};
+
+// Short windows keep each test well under a second; the grace period
+// outlasts a NetMatchClient's first reconnect attempt (500 ms)
+const TIMING = { countdownMs: 50, startLeadMs: 0, commitWindowMs: 150, revealWindowMs: 150, graceMs: 2000 };
+
+const waitFor = async (check: () => boolean, timeoutMs = 2000) => {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) throw new Error('timed out waiting');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+// A bare protocol client, for sending what NetMatchClient never would.
+class RawClient {
+  public messages: ServerMessage[] = [];
+  private socket: WebSocket;
+
+  constructor(port: number) {
+    this.socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    this.socket.on('message', data => this.messages.push(JSON.parse(data.toString())));
+  }
+
+  public async open() {
+    if (this.socket.readyState !== WebSocket.OPEN) await new Promise(resolve => this.socket.once('open', resolve));
+    return this;
+  }
+
+  public send(message: ClientMessage) {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  public async next<T extends ServerMessage['type']>(type: T): Promise<Extract<ServerMessage, { type: T }>> {
+    await waitFor(() => this.messages.some(m => m.type === type));
+    const index = this.messages.findIndex(m => m.type === type);
+    return this.messages.splice(index, 1)[0] as Extract<ServerMessage, { type: T }>;
+  }
+
+  public close() {
+    this.socket.close();
+  }
+}
+
+// The WebSocket NetMatchClient gets: records every socket opened and what
+// went over it, so a test can cut one player's connection.
+class TrackedSocket extends WebSocket {
+  public static opened: TrackedSocket[] = [];
+  public sent: ClientMessage[] = [];
+  public received: ServerMessage[] = [];
+
+  constructor(url: string) {
+    super(url);
+    TrackedSocket.opened.push(this);
+    this.on('message', data => this.received.push(JSON.parse(data.toString())));
+  }
+
+  public override send(data: string) {
+    this.sent.push(JSON.parse(data));
+    super.send(data);
+  }
+}
+
+interface Throw {
+  round: number;
+  outcome: LockInOutcome;
+  forfeitLocal: boolean;
+}
+
+// A NetMatchClient that records what it hands to the app. The name only
+// tags its sockets; the relay ignores the path.
+const player = (port: number, name: string) => {
+  const url = `ws://127.0.0.1:${port}/${name}`;
+  const client = new NetMatchClient(url);
+  const starts: number[] = [];
+  const throws: Throw[] = [];
+  client.setCallbacks({
+    onRoundStart: round => starts.push(round),
+    onOpponentThrow: (round, outcome, forfeitLocal) => throws.push({ round, outcome, forfeitLocal })
+  });
+  const sockets = () => TrackedSocket.opened.filter(socket => socket.url === url);
+  return { client, starts, throws, sockets, state: (): NetState => client.getState() };
+};
+
+const pair = async (port: number) => {
+  const host = player(port, 'host');
+  const guest = player(port, 'guest');
+  host.client.createRoom(RULES);
+  await waitFor(() => host.state().code !== null);
+  guest.client.joinRoom(host.state().code!);
+  await waitFor(() => host.state().status === 'paired' && guest.state().status === 'paired');
+  return { host, guest };
+};
+
+const startRound = async (...players: ReturnType<typeof player>[]) => {
+  const round = players[0].state().round + 1;
+  players.forEach(p => p.client.ready());
+  await waitFor(() => players.every(p => p.starts.includes(round)));
+  return round;
+};
+
+const reveal = (gesture: Gesture, nonce = 'n0nce'): Reveal => ({ gesture, status: 'locked', nonce });
+
+const originalWebSocket = globalThis.WebSocket;
+
+describe('relay', () => {
+  let server: RelayServer;
+  const open: { close(): void }[] = [];
+
+  beforeAll(() => {
+    // Node 20 has no global WebSocket; the ws client speaks the same API
+    globalThis.WebSocket = TrackedSocket as unknown as typeof globalThis.WebSocket;
+  });
+
+  afterAll(() => {
+    globalThis.WebSocket = originalWebSocket;
+  });
+
+  beforeEach(async () => {
+    TrackedSocket.opened = [];
+    server = await createRelayServer({ port: 0, host: '127.0.0.1', ...TIMING });
+  });
+
+  // For tests that need other timing
+  const restart = async (options: Partial<typeof TIMING>) => {
+    await server.close();
+    server = await createRelayServer({ port: 0, host: '127.0.0.1', ...TIMING, ...options });
+  };
+
+  afterEach(async () => {
+    open.splice(0).forEach(c => c.close());
+    await server.close();
+  });
+
+  const raw = async () => {
+    const client = await new RawClient(server.port).open();
+    open.push(client);
+    return client;
+  };
+
+  const players = async () => {
+    const pairing = await pair(server.port);
+    open.push({ close: () => pairing.host.client.leave() }, { close: () => pairing.guest.client.leave() });
+    return pairing;
+  };
+
+  it('pairs two players and plays a round by commit-reveal', async () => {
+    const { host, guest } = await players();
+    expect(guest.state()).toMatchObject({ seat: 'p2', rules: RULES, opponentConnected: true });
+
+    const round = await startRound(host, guest);
+    host.client.submitThrow(round, { status: 'locked', gesture: Gesture.ROCK });
+    guest.client.submitThrow(round, { status: 'locked', gesture: Gesture.PAPER });
+    await waitFor(() => host.throws.length === 1 && guest.throws.length === 1);
+
+    expect(host.throws[0]).toEqual({ round, outcome: { status: 'locked', gesture: Gesture.PAPER }, forfeitLocal: false });
+    expect(guest.throws[0]).toEqual({ round, outcome: { status: 'locked', gesture: Gesture.ROCK }, forfeitLocal: false });
+    expect(host.state().error).toBeNull();
+  });
+
+  it('forfeits the throw of a player who misses the commit deadline', async () => {
+    const { host, guest } = await players();
+    const round = await startRound(host, guest);
+    host.client.submitThrow(round, { status: 'locked', gesture: Gesture.SCISSORS });
+    await waitFor(() => host.throws.length === 1 && guest.throws.length === 1);
+
+    expect(host.throws[0]).toEqual({ round, outcome: { status: 'no_hand' }, forfeitLocal: false });
+    expect(guest.throws[0]).toMatchObject({ round, forfeitLocal: true });
+  });
+
+  it('forfeits a reveal that does not match its commitment', async () => {
+    const host = player(server.port, 'host');
+    open.push({ close: () => host.client.leave() });
+    host.client.createRoom(RULES);
+    await waitFor(() => host.state().code !== null);
+    const cheat = await raw();
+    cheat.send({ type: 'join_room', version: PROTOCOL_VERSION, code: host.state().code! });
+    await cheat.next('joined');
+    await waitFor(() => host.state().status === 'paired');
+
+    host.client.ready();
+    cheat.send({ type: 'ready', round: 1 });
+    await cheat.next('round_start');
+    host.client.submitThrow(1, { status: 'locked', gesture: Gesture.ROCK });
+    // Commits to rock, then claims paper once the host's throw is known
+    cheat.send({ type: 'commit', round: 1, hash: await commitHash(1, reveal(Gesture.ROCK)) });
+    await cheat.next('reveal_requested');
+    const hostReveal = await cheat.next('opponent_revealed');
+    expect(hostReveal.reveal.gesture).toBe(Gesture.ROCK);
+    cheat.send({ type: 'reveal', round: 1, reveal: reveal(Gesture.PAPER) });
+
+    expect((await cheat.next('round_forfeit')).seats).toEqual(['p2']);
+    await waitFor(() => host.throws.length === 1);
+    expect(host.throws[0]).toEqual({ round: 1, outcome: { status: 'no_hand' }, forfeitLocal: false });
+  });
+
+  describe('reveals racing the relay', () => {
+    // Two raw players with both commitments in, waiting for reveals
+    const committed = async () => {
+      const a = await raw();
+      a.send({ type: 'create_room', version: PROTOCOL_VERSION, rules: RULES });
+      const { code } = await a.next('joined');
+      const b = await raw();
+      b.send({ type: 'join_room', version: PROTOCOL_VERSION, code });
+      await b.next('joined');
+      a.send({ type: 'ready', round: 1 });
+      b.send({ type: 'ready', round: 1 });
+      await a.next('round_start');
+      a.send({ type: 'commit', round: 1, hash: await commitHash(1, reveal(Gesture.ROCK)) });
+      b.send({ type: 'commit', round: 1, hash: await commitHash(1, reveal(Gesture.PAPER)) });
+      await a.next('reveal_requested');
+      return { a, b };
+    };
+
+    it('accepts only the first of two reveals sent back to back', async () => {
+      const { a, b } = await committed();
+      a.send({ type: 'reveal', round: 1, reveal: reveal(Gesture.ROCK) });
+      a.send({ type: 'reveal', round: 1, reveal: reveal(Gesture.ROCK) });
+
+      const error = await a.next('error');
+      expect(error.code).toBe('out_of_phase');
+      await b.next('opponent_revealed');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(b.messages.filter(m => m.type === 'opponent_revealed')).toEqual([]);
+    });
+
+    it('rejects a reveal that arrives after the reveal window', async () => {
+      const { a, b } = await committed();
+      expect((await b.next('round_forfeit')).seats).toEqual(['p1', 'p2']);
+      a.send({ type: 'reveal', round: 1, reveal: reveal(Gesture.ROCK) });
+      expect((await a.next('error')).code).toBe('out_of_phase');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(b.messages.filter(m => m.type === 'opponent_revealed')).toEqual([]);
+    });
+  });
+
+  it('rejects rooms with rules outside the settings limits', async () => {
+    const client = await raw();
+    client.send({ type: 'create_room', version: PROTOCOL_VERSION, rules: { ...RULES, target: 0 } });
+    const error = await client.next('error');
+    expect(error.code).toBe('bad_rules');
+    expect(error.message).toMatch(/target/);
+
+    client.send({ type: 'create_room', version: PROTOCOL_VERSION, rules: { ...RULES, mode: 'CHESS' as GameMode } });
+    expect((await client.next('error')).code).toBe('bad_rules');
+  });
+
+  it('refuses clients speaking another protocol version', async () => {
+    const client = await raw();
+    client.send({ type: 'create_room', version: PROTOCOL_VERSION + 1, rules: RULES });
+    expect((await client.next('error')).code).toBe('version_mismatch');
+  });
+
+  describe('reconnection', () => {
+    // Rounds stay open across a NetMatchClient's reconnect delay
+    beforeEach(() => restart({ commitWindowMs: 1500, revealWindowMs: 1500 }));
+
+    const lastJoin = (p: ReturnType<typeof player>) => {
+      const socket = p.sockets()[p.sockets().length - 1];
+      return {
+        sent: socket.sent.find(m => m.type === 'join_room' || m.type === 'create_room'),
+        joined: socket.received.find(m => m.type === 'joined')
+      };
+    };
+
+    // Cuts the guest's connection the way a network drop would
+    const drop = async (guest: ReturnType<typeof player>) => {
+      const before = guest.sockets().length;
+      guest.sockets()[before - 1].terminate();
+      await waitFor(() => guest.state().status === 'reconnecting');
+      return before;
+    };
+
+    it('rejoins mid-round with the same seat and still settles the round', async () => {
+      const { host, guest } = await players();
+      const first = lastJoin(guest).joined;
+      const round = await startRound(host, guest);
+
+      // The host commits while the guest is away and misses it
+      const sockets = await drop(guest);
+      host.client.submitThrow(round, { status: 'locked', gesture: Gesture.ROCK });
+      await waitFor(() => guest.sockets().length > sockets && guest.state().status === 'paired');
+
+      const { sent, joined } = lastJoin(guest);
+      expect(first?.type === 'joined' && sent).toEqual({ type: 'join_room', version: PROTOCOL_VERSION, code: host.state().code, playerId: first.playerId });
+      expect(joined).toMatchObject({ seat: 'p2', round, settledRound: round - 1, committed: false });
+      expect(guest.state()).toMatchObject({ seat: 'p2', round, opponentConnected: true });
+
+      guest.client.submitThrow(round, { status: 'locked', gesture: Gesture.SCISSORS });
+      await waitFor(() => host.throws.length === 1 && guest.throws.length === 1);
+      expect(host.throws[0]).toEqual({ round, outcome: { status: 'locked', gesture: Gesture.SCISSORS }, forfeitLocal: false });
+      expect(guest.throws[0]).toEqual({ round, outcome: { status: 'locked', gesture: Gesture.ROCK }, forfeitLocal: false });
+      expect(guest.state().error).toBeNull();
+    });
+
+    it('sends a commitment made while disconnected once back', async () => {
+      const { host, guest } = await players();
+      const round = await startRound(host, guest);
+
+      const sockets = await drop(guest);
+      guest.client.submitThrow(round, { status: 'locked', gesture: Gesture.PAPER });
+      host.client.submitThrow(round, { status: 'locked', gesture: Gesture.ROCK });
+      await waitFor(() => guest.sockets().length > sockets);
+
+      await waitFor(() => host.throws.length === 1 && guest.throws.length === 1);
+      expect(host.throws[0].outcome).toEqual({ status: 'locked', gesture: Gesture.PAPER });
+      expect(guest.throws[0].outcome).toEqual({ status: 'locked', gesture: Gesture.ROCK });
+    });
+
+    it('keeps a finished round settled after rejoining', async () => {
+      const { host, guest } = await players();
+      const round = await startRound(host, guest);
+      host.client.submitThrow(round, { status: 'locked', gesture: Gesture.ROCK });
+      guest.client.submitThrow(round, { status: 'locked', gesture: Gesture.PAPER });
+      await waitFor(() => host.throws.length === 1 && guest.throws.length === 1);
+
+      const sockets = await drop(guest);
+      await waitFor(() => guest.sockets().length > sockets && guest.state().status === 'paired');
+      expect(lastJoin(guest).joined).toMatchObject({ round, settledRound: round, committed: false });
+      expect(await startRound(host, guest)).toBe(round + 1);
+    });
+
+    it('closes the room once the grace period runs out', async () => {
+      await restart({ graceMs: 100 });
+      const { host, guest } = await players();
+      await drop(guest);
+
+      await waitFor(() => host.state().status === 'closed');
+      expect(host.state().error).toEqual({ key: 'error.net.closed.opponent_timeout' });
+      // The guest's reconnect finds the room gone
+      await waitFor(() => guest.state().status === 'closed');
+      expect(guest.state().error).toEqual({ key: 'error.net.room_not_found' });
+    });
+  });
+
+  it('tells the remaining player why the room closed', async () => {
+    const { host, guest } = await players();
+    guest.client.leave();
+    await waitFor(() => host.state().status === 'closed');
+    expect(host.state().error).toEqual({ key: 'error.net.closed.opponent_left' });
+  });
+});
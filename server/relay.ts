@@ -0,0 +1,319 @@
+import { randomUUID } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer, WebSocket } from 'ws';
+import { Seat } from '../types';
+import {
+  ClientMessage,
+  COMMIT_WINDOW_MS,
+  DEFAULT_COUNTDOWN_MS,
+  NetErrorCode,
+  PROTOCOL_VERSION,
+  RECONNECT_GRACE_MS,
+  Reveal,
+  RoomClosedReason,
+  RoomRules,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  ServerMessage,
+  parseMessage,
+  validateRoomRules,
+  verifyReveal
+} from '../services/netProtocol';
+
+// Minimal relay for network matches: pairs two clients in a room, owns the
+// round clock and enforces the commit-reveal order. It never decides who
+// won; both clients do that from the same verified reveals.
+//
+// Run locally with `npm run relay` (PORT defaults to 8787).
+
+export interface RelayOptions {
+  port?: number;
+  host?: string;
+  now?: () => number;
+  countdownMs?: number;
+  // Lead time added before a countdown starts so it reaches both clients first.
+  startLeadMs?: number;
+  commitWindowMs?: number;
+  revealWindowMs?: number;
+  graceMs?: number;
+}
+
+export interface RelayServer {
+  port: number;
+  close(): Promise<void>;
+}
+
+interface PlayerSlot {
+  id: string;
+  seat: Seat;
+  socket: WebSocket | null;
+  readyRound: number;
+  graceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface RoundState {
+  round: number;
+  phase: 'commit' | 'reveal' | 'done';
+  commits: Partial<Record<Seat, string>>;
+  reveals: Partial<Record<Seat, Reveal>>;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Room {
+  code: string;
+  rules: RoomRules;
+  players: Partial<Record<Seat, PlayerSlot>>;
+  round: number;
+  current: RoundState | null;
+}
+
+const other = (seat: Seat): Seat => (seat === 'p1' ? 'p2' : 'p1');
+
+export const createRelayServer = (options: RelayOptions = {}): Promise<RelayServer> => {
+  const now = options.now ?? Date.now;
+  const countdownMs = options.countdownMs ?? DEFAULT_COUNTDOWN_MS;
+  const startLeadMs = options.startLeadMs ?? 300;
+  const commitWindowMs = options.commitWindowMs ?? COMMIT_WINDOW_MS;
+  const revealWindowMs = options.revealWindowMs ?? 5000;
+  const graceMs = options.graceMs ?? RECONNECT_GRACE_MS;
+
+  const rooms = new Map<string, Room>();
+  const membership = new Map<WebSocket, { room: Room; seat: Seat }>();
+
+  const send = (socket: WebSocket | null | undefined, message: ServerMessage) => {
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const sendError = (socket: WebSocket, code: NetErrorCode, message: string) =>
+    send(socket, { type: 'error', code, message });
+
+  const broadcast = (room: Room, message: ServerMessage) =>
+    Object.values(room.players).forEach(p => send(p?.socket, message));
+
+  const newCode = () => {
+    let code = '';
+    do {
+      code = Array.from({ length: ROOM_CODE_LENGTH }, () =>
+        ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)]
+      ).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const closeRoom = (room: Room, reason: RoomClosedReason) => {
+    if (room.current?.timer) clearTimeout(room.current.timer);
+    Object.values(room.players).forEach(p => {
+      if (!p) return;
+      if (p.graceTimer) clearTimeout(p.graceTimer);
+      send(p.socket, { type: 'room_closed', reason });
+      if (p.socket) membership.delete(p.socket);
+    });
+    rooms.delete(room.code);
+  };
+
+  const attach = (room: Room, slot: PlayerSlot, socket: WebSocket) => {
+    slot.socket = socket;
+    membership.set(socket, { room, seat: slot.seat });
+    const state = room.current;
+    const inProgress = state !== null && state.phase !== 'done';
+    send(socket, {
+      type: 'joined',
+      code: room.code,
+      playerId: slot.id,
+      seat: slot.seat,
+      rules: room.rules,
+      opponentPresent: !!room.players[other(slot.seat)]?.socket,
+      round: room.round,
+      settledRound: inProgress ? room.round - 1 : room.round,
+      committed: inProgress && !!state.commits[slot.seat]
+    });
+
+    // A player back mid-round gets what it missed while away
+    if (!inProgress) return;
+    const opponentHash = state.commits[other(slot.seat)];
+    if (opponentHash) send(socket, { type: 'opponent_committed', round: state.round, hash: opponentHash });
+    if (state.phase === 'reveal' && !state.reveals[slot.seat]) send(socket, { type: 'reveal_requested', round: state.round });
+  };
+
+  // Seats that missed a deadline lose the round's throw; the round ends there.
+  const forfeitMissing = (room: Room, state: RoundState, have: Partial<Record<Seat, unknown>>) => {
+    const seats = (['p1', 'p2'] as Seat[]).filter(seat => !have[seat]);
+    broadcast(room, { type: 'round_forfeit', round: state.round, seats });
+    state.phase = 'done';
+    state.timer = null;
+  };
+
+  const startRound = (room: Room) => {
+    room.round += 1;
+    const countdownEndsAt = now() + startLeadMs + countdownMs;
+    const commitDeadline = countdownEndsAt + commitWindowMs;
+    const state: RoundState = { round: room.round, phase: 'commit', commits: {}, reveals: {}, timer: null };
+    state.timer = setTimeout(() => forfeitMissing(room, state, state.commits), commitDeadline - now());
+    room.current = state;
+    broadcast(room, { type: 'round_start', round: room.round, countdownEndsAt, countdownMs, commitDeadline });
+  };
+
+  const handle = async (socket: WebSocket, message: ClientMessage) => {
+    const member = membership.get(socket);
+
+    switch (message.type) {
+      case 'ping':
+        send(socket, { type: 'pong', clientTime: message.clientTime, serverTime: now() });
+        return;
+
+      case 'create_room': {
+        if (message.version !== PROTOCOL_VERSION) return sendError(socket, 'version_mismatch', `Server speaks protocol v${PROTOCOL_VERSION}`);
+        if (member) return sendError(socket, 'out_of_phase', 'Already in a room');
+        const problems = validateRoomRules(message.rules);
+        if (problems.length > 0) return sendError(socket, 'bad_rules', `Invalid rules: ${problems.join('; ')}`);
+        // Only the known fields are passed on to the joining player
+        const { mode, format, target, drawHandling, invalidCountsAsLoss } = message.rules;
+        const rules: RoomRules = { mode, format, target, drawHandling, invalidCountsAsLoss };
+        const room: Room = { code: newCode(), rules, players: {}, round: 0, current: null };
+        const slot: PlayerSlot = { id: randomUUID(), seat: 'p1', socket: null, readyRound: 0, graceTimer: null };
+        room.players.p1 = slot;
+        rooms.set(room.code, room);
+        attach(room, slot, socket);
+        return;
+      }
+
+      case 'join_room': {
+        if (message.version !== PROTOCOL_VERSION) return sendError(socket, 'version_mismatch', `Server speaks protocol v${PROTOCOL_VERSION}`);
+        const room = rooms.get(message.code.toUpperCase());
+        if (!room) return sendError(socket, 'room_not_found', `No room ${message.code}`);
+
+        const returning = Object.values(room.players).find(p => p && message.playerId && p.id === message.playerId);
+        if (returning) {
+          if (returning.graceTimer) clearTimeout(returning.graceTimer);
+          returning.graceTimer = null;
+          if (returning.socket && returning.socket !== socket) {
+            membership.delete(returning.socket);
+            returning.socket.close();
+          }
+          attach(room, returning, socket);
+          send(room.players[other(returning.seat)]?.socket, { type: 'opponent_reconnected' });
+          return;
+        }
+
+        if (room.players.p2) return sendError(socket, 'room_full', `Room ${room.code} already has two players`);
+        const slot: PlayerSlot = { id: randomUUID(), seat: 'p2', socket: null, readyRound: 0, graceTimer: null };
+        room.players.p2 = slot;
+        attach(room, slot, socket);
+        send(room.players.p1?.socket, { type: 'opponent_joined' });
+        return;
+      }
+
+      case 'leave':
+        if (member) closeRoom(member.room, 'opponent_left');
+        return;
+    }
+
+    if (!member) return sendError(socket, 'out_of_phase', 'Join a room first');
+    const { room, seat } = member;
+    const slot = room.players[seat]!;
+    const opponent = room.players[other(seat)];
+    const state = room.current;
+
+    switch (message.type) {
+      case 'ready': {
+        if (message.round !== room.round + 1) return sendError(socket, 'out_of_phase', `Round ${room.round + 1} is next`);
+        if (state && state.phase !== 'done') return sendError(socket, 'out_of_phase', 'Round still in progress');
+        slot.readyRound = message.round;
+        send(opponent?.socket, { type: 'opponent_ready', round: message.round });
+        if (opponent && opponent.readyRound === message.round) startRound(room);
+        return;
+      }
+
+      case 'commit': {
+        if (!state || state.round !== message.round || state.phase !== 'commit') {
+          return sendError(socket, 'out_of_phase', 'Not accepting commitments');
+        }
+        if (state.commits[seat]) return sendError(socket, 'out_of_phase', 'Already committed');
+        state.commits[seat] = message.hash;
+        send(opponent?.socket, { type: 'opponent_committed', round: state.round, hash: message.hash });
+
+        if (state.commits.p1 && state.commits.p2) {
+          if (state.timer) clearTimeout(state.timer);
+          state.phase = 'reveal';
+          state.timer = setTimeout(() => forfeitMissing(room, state, state.reveals), revealWindowMs);
+          broadcast(room, { type: 'reveal_requested', round: state.round });
+        }
+        return;
+      }
+
+      case 'reveal': {
+        if (!state || state.round !== message.round || state.phase !== 'reveal') {
+          return sendError(socket, 'out_of_phase', 'Not accepting reveals');
+        }
+        if (state.reveals[seat]) return sendError(socket, 'out_of_phase', 'Already revealed');
+        const valid = await verifyReveal(state.round, state.commits[seat]!, message.reveal);
+        // The round may have moved on while hashing: a second reveal got in
+        // first, or the reveal window ran out
+        if (room.current !== state || state.phase !== 'reveal') return sendError(socket, 'out_of_phase', 'Not accepting reveals');
+        if (state.reveals[seat]) return sendError(socket, 'out_of_phase', 'Already revealed');
+        // A reveal that doesn't match its commitment is treated as no throw.
+        if (!valid) {
+          state.reveals[seat] = { ...message.reveal, status: 'no_hand' };
+          broadcast(room, { type: 'round_forfeit', round: state.round, seats: [seat] });
+        } else {
+          state.reveals[seat] = message.reveal;
+          send(opponent?.socket, { type: 'opponent_revealed', round: state.round, reveal: message.reveal });
+        }
+
+        if (state.reveals.p1 && state.reveals.p2) {
+          if (state.timer) clearTimeout(state.timer);
+          state.timer = null;
+          state.phase = 'done';
+        }
+        return;
+      }
+    }
+  };
+
+  const onClose = (socket: WebSocket) => {
+    const member = membership.get(socket);
+    if (!member) return;
+    membership.delete(socket);
+    const { room, seat } = member;
+    const slot = room.players[seat];
+    if (!slot || slot.socket !== socket) return;
+
+    slot.socket = null;
+    send(room.players[other(seat)]?.socket, { type: 'opponent_disconnected', graceMs });
+    slot.graceTimer = setTimeout(() => closeRoom(room, 'opponent_timeout'), graceMs);
+  };
+
+  return new Promise((resolve, reject) => {
+    const wss = new WebSocketServer({ port: options.port ?? 8787, host: options.host });
+
+    wss.on('connection', socket => {
+      socket.on('message', data => {
+        const message = parseMessage<ClientMessage>(data.toString());
+        if (!message) return sendError(socket, 'bad_message', 'Expected a JSON message with a type');
+        handle(socket, message).catch(err => sendError(socket, 'bad_message', String(err?.message ?? err)));
+      });
+      socket.on('close', () => onClose(socket));
+    });
+
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      const address = wss.address();
+      resolve({
+        port: typeof address === 'object' && address ? address.port : options.port ?? 8787,
+        close: () =>
+          new Promise<void>(done => {
+            rooms.forEach(room => closeRoom(room, 'server_shutdown'));
+            wss.clients.forEach(c => c.terminate());
+            wss.close(() => done());
+          })
+      });
+    });
+  });
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 8787;
+  createRelayServer({ port }).then(server => {
+    console.log(`RPS relay listening on ws://localhost:${server.port}`);
+  });
+}
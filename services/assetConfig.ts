@@ -0,0 +1,109 @@
+import { Gesture } from '../types';
+
+// Every runtime asset is served by the app itself (see scripts/ for how the
+// wasm runtime and model land in public/). Paths can be overridden at build
+// time through the env vars wired up in vite.config.ts, or at runtime with
+// configureAssets().
+
+export type AssetKind = 'wasm' | 'model' | 'sprite';
+
+export interface AssetConfig {
+  wasmBaseUrl: string;
+  gestureModelUrl: string;
+  // null means "no image for this gesture": the scene draws its fallback glyph.
+  sprites: Record<Gesture, string | null>;
+}
+
+export interface LoadProgress {
+  stage: 'wasm' | 'model' | 'init' | 'ready';
+  loaded: number;
+  total: number | null;
+}
+
+export class AssetLoadError extends Error {
+  constructor(public kind: AssetKind, public url: string, public reason: string) {
+    super(`Failed to load ${kind} asset (${url}): ${reason}`);
+    this.name = 'AssetLoadError';
+  }
+}
+
+const BASE = (process.env.ASSET_BASE_URL || '/').replace(/\/?$/, '/');
+
+let config: AssetConfig = {
+  wasmBaseUrl: process.env.MEDIAPIPE_WASM_URL || `${BASE}mediapipe/wasm`,
+  gestureModelUrl: process.env.GESTURE_MODEL_URL || `${BASE}models/gesture_recognizer.task`,
+  sprites: {
+    [Gesture.ROCK]: `${BASE}Rock.png`,
+    [Gesture.PAPER]: `${BASE}Hand.png`,
+    [Gesture.SCISSORS]: `${BASE}Scissor.png`,
+    [Gesture.LIZARD]: null,
+    [Gesture.SPOCK]: null,
+    [Gesture.NONE]: null
+  }
+};
+
+export const getAssetConfig = (): AssetConfig => config;
+
+export const configureAssets = (overrides: Partial<AssetConfig>) => {
+  config = {
+    ...config,
+    ...overrides,
+    sprites: { ...config.sprites, ...overrides.sprites }
+  };
+};
+
+// Fetches a binary asset while reporting byte progress. Any failure is
+// rethrown as an AssetLoadError naming the asset.
+export const fetchWithProgress = async (
+  url: string,
+  kind: AssetKind,
+  onProgress?: (loaded: number, total: number | null) => void
+): Promise<Uint8Array> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err: any) {
+    throw new AssetLoadError(kind, url, err?.message || 'network error');
+  }
+  if (!response.ok) throw new AssetLoadError(kind, url, `HTTP ${response.status}`);
+
+  const header = response.headers.get('content-length');
+  const total = header ? parseInt(header, 10) : null;
+
+  if (!response.body) {
+    const buffer = new Uint8Array(await response.arrayBuffer());
+    onProgress?.(buffer.byteLength, total);
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onProgress?.(loaded, total);
+  }
+
+  const buffer = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return buffer;
+};
+
+// Cheap reachability check so a missing file is reported by name instead of
+// surfacing as an opaque wasm instantiation error.
+export const assertReachable = async (url: string, kind: AssetKind) => {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'HEAD' });
+  } catch (err: any) {
+    throw new AssetLoadError(kind, url, err?.message || 'network error');
+  }
+  if (!response.ok) throw new AssetLoadError(kind, url, `HTTP ${response.status}`);
+};
@@ -0,0 +1,204 @@
+import { resolveObjectURL } from 'node:buffer';
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { Gesture } from '../types';
+import { ASSET_PACK_VERSION, AssetPackError, loadPackFromZip, parseManifest, validateManifest } from './assetPacks';
+import { readZip } from './zipReader';
+
+// Builds a zip in memory: stored entries unless `deflate` is set, and a
+// folder entry for every path ending in "/". CRCs are left at 0; the reader
+// doesn't check them.
+const zip = (files: Record<string, string>, { deflate = false } = {}): Uint8Array => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([path, text]) => {
+    const name = encoder.encode(path);
+    const raw = encoder.encode(text);
+    const method = deflate && !path.endsWith('/') ? 8 : 0;
+    const data = method === 8 ? new Uint8Array(deflateRawSync(raw)) : raw;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+    locals.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(10, method, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, raw.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, central.length / 2, true);
+  end.setUint16(10, central.length / 2, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...locals, ...central, new Uint8Array(end.buffer)];
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((at, part) => (bytes.set(part, at), at + part.length), 0);
+  return bytes;
+};
+
+const zipFile = (files: Record<string, string>, name = 'pack.zip') => new File([zip(files)], name);
+
+const MANIFEST = {
+  version: ASSET_PACK_VERSION,
+  name: 'Neon',
+  player: { [Gesture.ROCK]: 'img/rock.png', [Gesture.PAPER]: './img/paper.png' },
+  bot: { [Gesture.ROCK]: 'img/rock.png' },
+  background: '#0a0a23',
+  grid: false,
+  spriteScale: 1.5,
+  fallback: { [Gesture.SCISSORS]: { glyph: '✌️' } }
+};
+
+const readObjectUrl = async (url: string | null) => (url ? await resolveObjectURL(url)?.text() : undefined);
+
+describe('validateManifest', () => {
+  const problems = (changes: Record<string, unknown>) => validateManifest({ ...MANIFEST, ...changes });
+
+  it('accepts a complete manifest and a bare one', () => {
+    expect(validateManifest(MANIFEST)).toEqual([]);
+    expect(validateManifest({ version: ASSET_PACK_VERSION, name: 'Plain' })).toEqual([]);
+  });
+
+  it('stops at a manifest of another version', () => {
+    expect(problems({ version: 2, name: '' })).toEqual([`version: expected ${ASSET_PACK_VERSION}`]);
+    expect(validateManifest([])).toEqual(['manifest: expected an object']);
+  });
+
+  it('names unknown gesture keys', () => {
+    expect(problems({ player: { THUMBS_UP: 'thumb.png' } })).toEqual([
+      `player.THUMBS_UP: expected one of ${Object.values(Gesture).join(', ')}`
+    ]);
+  });
+
+  it('keeps image paths inside the pack', () => {
+    const path = (p: string) => problems({ bot: { [Gesture.ROCK]: p } });
+    expect(path('../secret.png')).toEqual(['bot.ROCK: expected an image path inside the pack']);
+    expect(path('img/../../secret.png')).toHaveLength(1);
+    expect(path('/etc/rock.png')).toHaveLength(1);
+    expect(path('https://example.com/rock.png')).toHaveLength(1);
+  });
+
+  it('checks colours', () => {
+    expect(problems({ background: 'navy' })).toEqual(['background: expected a hex colour like #112233']);
+    expect(problems({ grid: { color: '#12345' } })).toEqual(['grid.color: expected a hex colour']);
+    expect(problems({ fallback: { [Gesture.ROCK]: { color: 'rgb(0,0,0)' } } })).toEqual(['fallback.ROCK.color: expected a hex colour']);
+  });
+
+  it('keeps spriteScale within its limits', () => {
+    expect(problems({ spriteScale: 10 })).toEqual(['spriteScale: expected a number from 0.25 to 4']);
+    expect(problems({ spriteScale: 0.1 })).toHaveLength(1);
+    expect(problems({ spriteScale: '2' })).toHaveLength(1);
+    expect(problems({ spriteScale: 4 })).toEqual([]);
+  });
+
+  it('reports every problem at once', () => {
+    expect(problems({ name: ' ', background: 'red', grid: { divisions: 0 } })).toHaveLength(3);
+  });
+});
+
+describe('parseManifest', () => {
+  it('wraps problems in an AssetPackError for the pack', () => {
+    expect(() => parseManifest('{ nope', 'broken.zip')).toThrow(AssetPackError);
+    expect(() => parseManifest('{ nope', 'broken.zip')).toThrow(/Asset pack "broken.zip".*manifest.json is not valid JSON/);
+    try {
+      parseManifest(JSON.stringify({ ...MANIFEST, spriteScale: 9 }), 'big.zip');
+      expect.unreachable();
+    } catch (err) {
+      expect((err as AssetPackError).problems).toEqual(['manifest.json spriteScale: expected a number from 0.25 to 4']);
+    }
+  });
+});
+
+describe('readZip', () => {
+  const files = { 'pack/': '', 'pack/manifest.json': '{"version":1}', 'pack/img/rock.png': 'rock pixels' };
+
+  it('reads stored entries and skips folders', async () => {
+    const entries = await readZip(new Blob([zip(files)]));
+    expect([...entries.keys()]).toEqual(['pack/manifest.json', 'pack/img/rock.png']);
+    expect(await (await entries.get('pack/img/rock.png')!()).text()).toBe('rock pixels');
+  });
+
+  it('inflates deflated entries', async () => {
+    const entries = await readZip(new Blob([zip(files, { deflate: true })]));
+    expect(await (await entries.get('pack/manifest.json')!()).text()).toBe('{"version":1}');
+  });
+
+  it('finds the directory behind an archive comment', async () => {
+    const bytes = zip(files);
+    const comment = new TextEncoder().encode('made by hand');
+    new DataView(bytes.buffer).setUint16(bytes.length - 2, comment.length, true);
+    const entries = await readZip(new Blob([bytes, comment]));
+    expect(entries.size).toBe(2);
+  });
+
+  it('rejects files that are not zips', async () => {
+    await expect(readZip(new Blob(['just some text that is long enough to scan']))).rejects.toThrow('not a zip archive');
+    await expect(readZip(new Blob([]))).rejects.toThrow('not a zip archive');
+  });
+
+  it('rejects entries it cannot decompress', async () => {
+    const bytes = zip({ 'a.txt': 'a' });
+    // The central directory entry follows the 30-byte local header, the name and the data; its method is at +10
+    new DataView(bytes.buffer).setUint16(30 + 5 + 1 + 10, 12, true);
+    const entries = await readZip(new Blob([bytes]));
+    await expect(entries.get('a.txt')!()).rejects.toThrow('unsupported compression method (12)');
+  });
+});
+
+describe('loadPackFromZip', () => {
+  it('roots the pack at a manifest nested in a folder', async () => {
+    const pack = await loadPackFromZip(zipFile({
+      'neon-pack/manifest.json': JSON.stringify(MANIFEST),
+      'neon-pack/img/rock.png': 'rock',
+      'neon-pack/img/paper.png': 'paper',
+      // A deeper manifest is just a file of this pack
+      'neon-pack/extras/manifest.json': '{}'
+    }));
+
+    expect(pack).toMatchObject({ name: 'Neon', background: '#0a0a23', grid: null, spriteScale: 1.5 });
+    expect(await readObjectUrl(pack.textures.p1[Gesture.ROCK])).toBe('rock');
+    expect(await readObjectUrl(pack.textures.p1[Gesture.PAPER])).toBe('paper');
+    // The same file is loaded once for both seats
+    expect(pack.textures.p2[Gesture.ROCK]).toBe(pack.textures.p1[Gesture.ROCK]);
+    expect(pack.textures.p2[Gesture.PAPER]).toBeNull();
+    expect(pack.objectUrls).toHaveLength(2);
+    expect(pack.fallback[Gesture.SCISSORS]).toEqual({ glyph: '✌️', color: '#ef4444' });
+    pack.objectUrls.forEach(url => URL.revokeObjectURL(url));
+  });
+
+  it('lists images the manifest names but the pack lacks', async () => {
+    const load = loadPackFromZip(zipFile({ 'manifest.json': JSON.stringify(MANIFEST), 'img/rock.png': 'rock' }, 'neon.zip'));
+    await expect(load).rejects.toMatchObject({
+      source: 'neon.zip',
+      problems: ['player.PAPER: ./img/paper.png is not in the pack']
+    });
+  });
+
+  it('explains archives without a manifest or that are not zips', async () => {
+    await expect(loadPackFromZip(zipFile({ 'rock.png': 'rock' }))).rejects.toMatchObject({ problems: ['no manifest.json found'] });
+    await expect(loadPackFromZip(new File(['hello'], 'notes.zip'))).rejects.toMatchObject({
+      problems: ['the zip could not be read (not a zip archive)']
+    });
+  });
+});
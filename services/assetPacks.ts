@@ -0,0 +1,275 @@
+import { Gesture, Seat, SEATS } from '../types';
+import { getAssetConfig } from './assetConfig';
+import { ZipEntries, readZip } from './zipReader';
+
+// Skins for the 3D scene. A pack is a folder or zip holding a manifest.json
+// and the images it names, with separate textures for the player (p1) and the
+// bot (p2). Anything a manifest leaves out falls back to the default look. The
+// default pack uses the sprites from the asset config (the PNGs in public/).
+
+export const ASSET_PACK_VERSION = 1;
+export const MANIFEST_FILE = 'manifest.json';
+
+export interface GridStyle {
+  color: string;
+  lineColor: string;
+  divisions: number;
+}
+
+export interface FallbackGlyph {
+  glyph: string;
+  color: string;
+}
+
+// manifest.json as written by pack authors
+export interface AssetPackManifest {
+  version: typeof ASSET_PACK_VERSION;
+  name: string;
+  // Image paths relative to the manifest; gestures left out show their fallback glyph
+  player?: Partial<Record<Gesture, string>>;
+  bot?: Partial<Record<Gesture, string>>;
+  background?: string;
+  // false hides the floor grid
+  grid?: Partial<GridStyle> | false;
+  spriteScale?: number;
+  fallback?: Partial<Record<Gesture, Partial<FallbackGlyph>>>;
+}
+
+// A manifest with its images resolved to URLs and the defaults filled in
+export interface AssetPack {
+  // Unique per load, so textures cached for one pack are never reused by another
+  id: string;
+  name: string;
+  textures: Record<Seat, Record<Gesture, string | null>>;
+  background: string;
+  grid: GridStyle | null;
+  spriteScale: number;
+  fallback: Record<Gesture, FallbackGlyph>;
+  // Object URLs made for the pack's images; revoked when the pack is replaced
+  objectUrls: string[];
+}
+
+export class AssetPackError extends Error {
+  constructor(public source: string, public problems: string[]) {
+    super(`Asset pack "${source}" could not be loaded: ${problems.join('; ')}`);
+    this.name = 'AssetPackError';
+  }
+}
+
+const DEFAULT_BACKGROUND = '#111827'; // Tailwind gray-900
+const DEFAULT_GRID: GridStyle = { color: '#334155', lineColor: '#1e293b', divisions: 40 };
+const DEFAULT_FALLBACK: Record<Gesture, FallbackGlyph> = {
+  [Gesture.ROCK]: { glyph: '🪨', color: '#475569' },
+  [Gesture.PAPER]: { glyph: '📄', color: '#3b82f6' },
+  [Gesture.SCISSORS]: { glyph: '✂️', color: '#ef4444' },
+  [Gesture.LIZARD]: { glyph: '🦎', color: '#16a34a' },
+  [Gesture.SPOCK]: { glyph: '🖖', color: '#8b5cf6' },
+  [Gesture.NONE]: { glyph: '🤔', color: '#eab308' }
+};
+export const SPRITE_SCALE_LIMITS = { min: 0.25, max: 4 };
+const MAX_GRID_DIVISIONS = 200;
+
+const SIDES: Record<Seat, 'player' | 'bot'> = { p1: 'player', p2: 'bot' };
+
+let nextPackId = 1;
+
+const noTextures = (): Record<Gesture, string | null> =>
+  Object.fromEntries(Object.values(Gesture).map(g => [g, null])) as Record<Gesture, string | null>;
+
+export const createDefaultPack = (): AssetPack => {
+  const { sprites } = getAssetConfig();
+  return {
+    id: 'default',
+    name: 'Default',
+    textures: { p1: { ...sprites }, p2: { ...sprites } },
+    background: DEFAULT_BACKGROUND,
+    grid: DEFAULT_GRID,
+    spriteScale: 1,
+    fallback: DEFAULT_FALLBACK,
+    objectUrls: []
+  };
+};
+
+// --- Manifest validation ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isColor = (value: unknown) => typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+const isGesture = (value: string) => (Object.values(Gesture) as string[]).includes(value);
+// Packs only reference their own files
+const isPackPath = (value: unknown) =>
+  typeof value === 'string' && value.trim() !== '' && !value.startsWith('/') && !value.includes('://')
+  && !value.split('/').includes('..');
+
+// Lists everything wrong with a parsed manifest, each as "field: problem".
+export const validateManifest = (data: unknown): string[] => {
+  const errors: string[] = [];
+  const check = (ok: boolean, path: string, expected: string) => {
+    if (!ok) errors.push(`${path}: expected ${expected}`);
+    return ok;
+  };
+  const checkGestureMap = (value: unknown, path: string, checkEntry: (entry: unknown, path: string) => void) => {
+    if (value === undefined || !check(isRecord(value), path, 'an object keyed by gesture')) return;
+    Object.entries(value as Record<string, unknown>).forEach(([gesture, entry]) => {
+      if (check(isGesture(gesture), `${path}.${gesture}`, `one of ${Object.values(Gesture).join(', ')}`)) {
+        checkEntry(entry, `${path}.${gesture}`);
+      }
+    });
+  };
+
+  if (!check(isRecord(data), 'manifest', 'an object')) return errors;
+  const manifest = data as Record<string, unknown>;
+  if (!check(manifest.version === ASSET_PACK_VERSION, 'version', String(ASSET_PACK_VERSION))) return errors;
+  check(typeof manifest.name === 'string' && manifest.name.trim() !== '', 'name', 'a non-empty name');
+
+  SEATS.forEach(seat => checkGestureMap(manifest[SIDES[seat]], SIDES[seat], (entry, path) =>
+    check(isPackPath(entry), path, 'an image path inside the pack')));
+  if (manifest.background !== undefined) check(isColor(manifest.background), 'background', 'a hex colour like #112233');
+  if (manifest.grid !== undefined && manifest.grid !== false && check(isRecord(manifest.grid), 'grid', 'an object or false')) {
+    const grid = manifest.grid as Record<string, unknown>;
+    if (grid.color !== undefined) check(isColor(grid.color), 'grid.color', 'a hex colour');
+    if (grid.lineColor !== undefined) check(isColor(grid.lineColor), 'grid.lineColor', 'a hex colour');
+    if (grid.divisions !== undefined) {
+      check(Number.isInteger(grid.divisions) && (grid.divisions as number) > 0 && (grid.divisions as number) <= MAX_GRID_DIVISIONS,
+        'grid.divisions', `a whole number from 1 to ${MAX_GRID_DIVISIONS}`);
+    }
+  }
+  if (manifest.spriteScale !== undefined) {
+    const scale = manifest.spriteScale;
+    check(typeof scale === 'number' && scale >= SPRITE_SCALE_LIMITS.min && scale <= SPRITE_SCALE_LIMITS.max,
+      'spriteScale', `a number from ${SPRITE_SCALE_LIMITS.min} to ${SPRITE_SCALE_LIMITS.max}`);
+  }
+  checkGestureMap(manifest.fallback, 'fallback', (entry, path) => {
+    if (!check(isRecord(entry), path, 'an object')) return;
+    const { glyph, color } = entry as Record<string, unknown>;
+    if (glyph !== undefined) check(typeof glyph === 'string' && glyph.length > 0 && glyph.length <= 8, `${path}.glyph`, 'a short text or emoji');
+    if (color !== undefined) check(isColor(color), `${path}.color`, 'a hex colour');
+  });
+  return errors;
+};
+
+export const parseManifest = (json: string, source: string): AssetPackManifest => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err: any) {
+    throw new AssetPackError(source, [`${MANIFEST_FILE} is not valid JSON (${err.message})`]);
+  }
+  const errors = validateManifest(data);
+  if (errors.length > 0) throw new AssetPackError(source, errors.map(e => `${MANIFEST_FILE} ${e}`));
+  return data as AssetPackManifest;
+};
+
+// --- Loading ---
+
+const normalizePath = (path: string) => path.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+
+// Resolves a manifest against the pack's files, keyed by path relative to it.
+const buildPack = async (source: string, files: ZipEntries): Promise<AssetPack> => {
+  const manifestFile = files.get(MANIFEST_FILE);
+  if (!manifestFile) throw new AssetPackError(source, [`no ${MANIFEST_FILE} found`]);
+  const manifest = parseManifest(await (await manifestFile()).text(), source);
+
+  // Check every reference before creating any object URLs
+  const missing = SEATS.flatMap(seat => Object.entries(manifest[SIDES[seat]] ?? {})
+    .filter(([, path]) => !files.has(normalizePath(path!)))
+    .map(([gesture, path]) => `${SIDES[seat]}.${gesture}: ${path} is not in the pack`));
+  if (missing.length > 0) throw new AssetPackError(source, missing);
+
+  const urls = new Map<string, string>();
+  const textures: Record<Seat, Record<Gesture, string | null>> = { p1: noTextures(), p2: noTextures() };
+  try {
+    for (const seat of SEATS) {
+      for (const [gesture, path] of Object.entries(manifest[SIDES[seat]] ?? {})) {
+        const key = normalizePath(path!);
+        if (!urls.has(key)) urls.set(key, URL.createObjectURL(await files.get(key)!()));
+        textures[seat][gesture as Gesture] = urls.get(key)!;
+      }
+    }
+  } catch (err: any) {
+    urls.forEach(url => URL.revokeObjectURL(url));
+    throw new AssetPackError(source, [`an image could not be read (${err?.message ?? err})`]);
+  }
+
+  const fallback = { ...DEFAULT_FALLBACK };
+  Object.entries(manifest.fallback ?? {}).forEach(([gesture, glyph]) => {
+    fallback[gesture as Gesture] = { ...DEFAULT_FALLBACK[gesture as Gesture], ...glyph };
+  });
+
+  return {
+    id: `${manifest.name}#${nextPackId++}`,
+    name: manifest.name,
+    textures,
+    background: manifest.background ?? DEFAULT_BACKGROUND,
+    grid: manifest.grid === false ? null : { ...DEFAULT_GRID, ...manifest.grid },
+    spriteScale: manifest.spriteScale ?? 1,
+    fallback,
+    objectUrls: [...urls.values()]
+  };
+};
+
+// Packs are often zipped or picked with their enclosing folder, so the
+// shallowest manifest.json marks the pack's root.
+const rootedAtManifest = (source: string, entries: ZipEntries): ZipEntries => {
+  const manifests = [...entries.keys()]
+    .filter(path => path === MANIFEST_FILE || path.endsWith(`/${MANIFEST_FILE}`))
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+  if (manifests.length === 0) throw new AssetPackError(source, [`no ${MANIFEST_FILE} found`]);
+  const root = manifests[0].slice(0, -MANIFEST_FILE.length);
+  const rooted: ZipEntries = new Map();
+  entries.forEach((load, path) => {
+    if (path.startsWith(root)) rooted.set(path.slice(root.length), load);
+  });
+  return rooted;
+};
+
+// Files picked with a folder input; their paths come from webkitRelativePath.
+export const loadPackFromFolder = (files: File[]): Promise<AssetPack> => {
+  const source = files[0]?.webkitRelativePath.split('/')[0] || 'folder';
+  const entries: ZipEntries = new Map(files.map(file => [normalizePath(file.webkitRelativePath || file.name), async () => file]));
+  return buildPack(source, rootedAtManifest(source, entries));
+};
+
+export const loadPackFromZip = async (file: File): Promise<AssetPack> => {
+  let entries: ZipEntries;
+  try {
+    entries = await readZip(file);
+  } catch (err: any) {
+    throw new AssetPackError(file.name, [`the zip could not be read (${err?.message ?? err})`]);
+  }
+  return buildPack(file.name, rootedAtManifest(file.name, entries));
+};
+
+// The pack the scene draws with. Loaded packs last for the session; their
+// images only exist as object URLs.
+class AssetPackStore {
+  private pack: AssetPack | null = null;
+  private listeners = new Set<() => void>();
+
+  // The default pack is built on first use so asset config overrides apply
+  public getPack = (): AssetPack => {
+    if (!this.pack) this.pack = createDefaultPack();
+    return this.pack;
+  };
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public setPack(pack: AssetPack) {
+    const previous = this.pack;
+    if (previous === pack) return;
+    this.pack = pack;
+    previous?.objectUrls.forEach(url => URL.revokeObjectURL(url));
+    this.listeners.forEach(listener => listener());
+  }
+
+  public useDefault() {
+    if (this.pack?.id !== 'default') this.setPack(createDefaultPack());
+  }
+}
+
+export const assetPackStore = new AssetPackStore();
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, GameMode, Gesture } from '../types';
+import { BotDecision, DIFFICULTY_STRATEGIES, RoundRecord, frequencyStrategy, markovStrategy, winStayLoseShiftStrategy } from './botStrategies';
+import { judgeRound } from './gameEngine';
+import { RULE_SETS } from './rules';
+import { seededRng } from './random';
+
+const rules = RULE_SETS[GameMode.CLASSIC];
+const { ROCK, PAPER, SCISSORS } = Gesture;
+
+// The player's throws, repeated for as many rounds as needed
+const PLAYER_PATTERN = [ROCK, ROCK, PAPER, SCISSORS, ROCK, PAPER, PAPER, SCISSORS];
+
+const playAgainst = (difficulty: Difficulty, seed: number, rounds = 40): BotDecision[] => {
+  const random = seededRng(seed);
+  const history: RoundRecord[] = [];
+  const decisions: BotDecision[] = [];
+  for (let i = 0; i < rounds; i++) {
+    const decision = DIFFICULTY_STRATEGIES[difficulty].decide({ rules, history, random });
+    const player = PLAYER_PATTERN[i % PLAYER_PATTERN.length];
+    const { winner } = judgeRound(player, decision.gesture, rules);
+    history.push({ player, bot: decision.gesture, winner: winner === 'p1' ? 'player' : winner === 'p2' ? 'bot' : 'draw' });
+    decisions.push(decision);
+  }
+  return decisions;
+};
+
+const record = (player: Gesture, bot: Gesture, winner: RoundRecord['winner']): RoundRecord => ({ player, bot, winner });
+
+describe('seededRng', () => {
+  it('repeats its sequence for a seed', () => {
+    const a = seededRng(123);
+    const b = seededRng(123);
+    const values = Array.from({ length: 100 }, () => a());
+    expect(Array.from({ length: 100 }, () => b())).toEqual(values);
+    values.forEach(v => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    });
+    expect(seededRng(124)()).not.toBe(values[0]);
+  });
+});
+
+describe('bot strategies', () => {
+  it.each(Object.values(Difficulty))('%s makes the same decisions for the same seed', difficulty => {
+    const first = playAgainst(difficulty, 2024);
+    expect(playAgainst(difficulty, 2024)).toEqual(first);
+    first.forEach(d => expect(rules.gestures).toContain(d.gesture));
+  });
+
+  it('follows the seed when guessing blind', () => {
+    const throws = (seed: number) => playAgainst(Difficulty.EASY, seed).map(d => d.gesture);
+    expect(throws(1)).not.toEqual(throws(2));
+  });
+
+  it('counters the most frequent throw', () => {
+    const history = [record(ROCK, PAPER, 'bot'), record(SCISSORS, ROCK, 'bot'), record(ROCK, ROCK, 'draw')];
+    const decision = frequencyStrategy.decide({ rules, history, random: seededRng(1) });
+    expect(decision).toMatchObject({ gesture: PAPER, predicted: ROCK });
+  });
+
+  it('predicts what followed the same moves earlier', () => {
+    const moves = [ROCK, PAPER, SCISSORS, ROCK, PAPER, SCISSORS, ROCK, PAPER];
+    const history = moves.map(m => record(m, ROCK, 'draw'));
+    const decision = markovStrategy.decide({ rules, history, random: seededRng(1) });
+    expect(decision).toMatchObject({ gesture: ROCK, predicted: SCISSORS });
+  });
+
+  it('expects a winner to stay and a loser to shift', () => {
+    const stay = winStayLoseShiftStrategy.decide({ rules, history: [record(PAPER, ROCK, 'player')], random: seededRng(1) });
+    expect(stay).toMatchObject({ gesture: SCISSORS, predicted: PAPER });
+
+    // Lost to the bot's paper, so the player moves to scissors
+    const shift = winStayLoseShiftStrategy.decide({ rules, history: [record(ROCK, PAPER, 'bot')], random: seededRng(1) });
+    expect(shift).toMatchObject({ gesture: ROCK, predicted: SCISSORS });
+  });
+});
@@ -0,0 +1,132 @@
+import { Difficulty, Gesture, Message } from '../types';
+import { Rng, pick } from './random';
+import { RuleSet, gestureLabel } from './rules';
+
+// Bot opponents. Every strategy is a pure function of the round history and
+// the injected RNG, so a seeded RNG replays the exact same bot.
+
+export interface RoundRecord {
+  player: Gesture;
+  bot: Gesture;
+  winner: 'player' | 'bot' | 'draw';
+}
+
+export interface BotContext {
+  rules: RuleSet;
+  history: RoundRecord[];
+  random: Rng;
+}
+
+export interface BotDecision {
+  gesture: Gesture;
+  // What the bot expects the player to throw; null when it is guessing blind.
+  predicted: Gesture | null;
+  reasoning: Message;
+}
+
+export interface BotStrategy {
+  id: string;
+  name: string;
+  decide(ctx: BotContext): BotDecision;
+}
+
+// Gestures that defeat `target` under the given rules.
+export const countersTo = (rules: RuleSet, target: Gesture): Gesture[] =>
+  rules.gestures.filter(g => rules.beats[g]?.[target] !== undefined);
+
+const counter = (ctx: BotContext, predicted: Gesture, reasoning: Message): BotDecision => {
+  const options = countersTo(ctx.rules, predicted);
+  if (options.length === 0) return randomStrategy.decide(ctx);
+  return { gesture: pick(options, ctx.random), predicted, reasoning };
+};
+
+// Most common key wins; ties go to whichever reached the count first.
+const mostFrequent = (moves: Gesture[]): { gesture: Gesture; count: number } | null => {
+  const counts = new Map<Gesture, number>();
+  let best: { gesture: Gesture; count: number } | null = null;
+  for (const m of moves) {
+    const count = (counts.get(m) ?? 0) + 1;
+    counts.set(m, count);
+    if (!best || count > best.count) best = { gesture: m, count };
+  }
+  return best;
+};
+
+export const randomStrategy: BotStrategy = {
+  id: 'random',
+  name: 'Uniform random',
+  decide: ({ rules, random }) => ({
+    gesture: pick(rules.gestures, random),
+    predicted: null,
+    reasoning: { key: 'bot.chance' }
+  })
+};
+
+export const frequencyStrategy: BotStrategy = {
+  id: 'frequency',
+  name: 'Frequency counter',
+  decide: ctx => {
+    const top = mostFrequent(ctx.history.map(r => r.player));
+    if (!top) return randomStrategy.decide(ctx);
+    return counter(ctx, top.gesture, { key: 'bot.frequency', params: { gesture: gestureLabel(top.gesture), count: top.count } });
+  }
+};
+
+// Looks for what followed the player's last `order` moves earlier in the
+// match, falling back to shorter contexts when the longer one is unseen.
+export const createMarkovStrategy = (order = 2): BotStrategy => ({
+  id: `markov-${order}`,
+  name: `Markov predictor (order ${order})`,
+  decide: ctx => {
+    const moves = ctx.history.map(r => r.player);
+    for (let n = Math.min(order, moves.length - 1); n >= 1; n--) {
+      const context = moves.slice(-n).join('>');
+      const followers: Gesture[] = [];
+      for (let i = n; i < moves.length; i++) {
+        if (moves.slice(i - n, i).join('>') === context) followers.push(moves[i]);
+      }
+      const top = mostFrequent(followers);
+      if (top) {
+        const sequence = moves.slice(-n).map(gestureLabel)
+          .reduce((first, second) => ({ key: 'bot.sequence', params: { first, second } }));
+        return counter(ctx, top.gesture, { key: 'bot.markov', params: { sequence, gesture: gestureLabel(top.gesture) } });
+      }
+    }
+    return frequencyStrategy.decide(ctx);
+  }
+});
+
+export const markovStrategy = createMarkovStrategy(2);
+
+// Exploits the common human habit: repeat a winning throw, and after a loss
+// switch to whatever would have beaten the bot's last move.
+export const winStayLoseShiftStrategy: BotStrategy = {
+  id: 'win-stay-lose-shift',
+  name: 'Win-stay / lose-shift',
+  decide: ctx => {
+    const last = ctx.history[ctx.history.length - 1];
+    if (!last) return randomStrategy.decide(ctx);
+
+    if (last.winner === 'bot') {
+      const shifts = countersTo(ctx.rules, last.bot);
+      if (shifts.length > 0) {
+        const predicted = pick(shifts, ctx.random);
+        return counter(ctx, predicted, {
+          key: 'bot.shift',
+          params: { lost: gestureLabel(last.player), gesture: gestureLabel(predicted) }
+        });
+      }
+    }
+    const why: Message = { key: last.winner === 'player' ? 'bot.stayAfterWin' : 'bot.stick', params: { gesture: gestureLabel(last.player) } };
+    return counter(ctx, last.player, why);
+  }
+};
+
+export const DIFFICULTY_STRATEGIES: Record<Difficulty, BotStrategy> = {
+  [Difficulty.EASY]: randomStrategy,
+  [Difficulty.MEDIUM]: frequencyStrategy,
+  [Difficulty.HARD]: winStayLoseShiftStrategy,
+  [Difficulty.EXPERT]: markovStrategy
+};
+
+export const difficultyLabel = (difficulty: Difficulty): Message => ({ key: `difficulty.${difficulty}` });
@@ -0,0 +1,312 @@
+import { Message } from '../types';
+
+// Owns the webcam stream: which device and resolution to open, getting it
+// back when the device drops out, and releasing it while the page is hidden.
+// Failures surface as CameraErrors whose kind tells the UI what to offer.
+
+export type CameraErrorKind = 'permission_denied' | 'not_found' | 'in_use' | 'overconstrained' | 'unsupported' | 'unknown';
+
+export class CameraError extends Error {
+  constructor(public kind: CameraErrorKind, message: string) {
+    super(message);
+    this.name = 'CameraError';
+  }
+}
+
+// Maps getUserMedia's DOMException names (old and new spellings) to a kind.
+export const toCameraError = (err: unknown): CameraError => {
+  if (err instanceof CameraError) return err;
+  const { name, message } = (err ?? {}) as { name?: string; message?: string };
+  const text = message || 'Unknown camera error';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return new CameraError('permission_denied', text);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return new CameraError('not_found', text);
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return new CameraError('in_use', text);
+    case 'OverconstrainedError':
+    case 'ConstraintNotSatisfiedError':
+      return new CameraError('overconstrained', text);
+    default:
+      return new CameraError('unknown', text);
+  }
+};
+
+export const cameraErrorMessage = (error: CameraError): Message => ({
+  key: `error.camera.${error.kind}`,
+  params: { message: error.message }
+});
+
+export type CameraResolution = '480p' | '720p' | '1080p';
+
+export const RESOLUTIONS: Record<CameraResolution, { width: number; height: number }> = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 }
+};
+
+export interface CameraPreferences {
+  // null lets the browser pick a front-facing camera
+  deviceId: string | null;
+  resolution: CameraResolution;
+  // Mirror the hand like a selfie preview; off for cameras facing the player from behind a screen
+  mirrored: boolean;
+}
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = { deviceId: null, resolution: '480p', mirrored: true };
+
+export interface CameraDevice {
+  deviceId: string;
+  // null until camera permission has been granted; the UI then names it by number
+  label: string | null;
+  // 1-based position among the video inputs
+  number: number;
+}
+
+export type CameraStatus = 'off' | 'starting' | 'live' | 'paused' | 'recovering' | 'failed';
+
+export interface CameraState {
+  status: CameraStatus;
+  devices: CameraDevice[];
+  // Device the open stream comes from
+  activeDeviceId: string | null;
+  preferences: CameraPreferences;
+  // Why the camera failed or is being recovered
+  error: CameraError | null;
+}
+
+const STORAGE_KEY = 'rps-camera';
+// Waits between recovery attempts; the camera is given up on after the last one
+const RECOVERY_DELAYS_MS = [500, 1500, 4000];
+
+const loadPreferences = (storage: Storage | undefined): CameraPreferences => {
+  try {
+    const stored = JSON.parse(storage?.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored) return DEFAULT_CAMERA_PREFERENCES;
+    return {
+      deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : null,
+      resolution: stored.resolution in RESOLUTIONS ? stored.resolution : DEFAULT_CAMERA_PREFERENCES.resolution,
+      mirrored: typeof stored.mirrored === 'boolean' ? stored.mirrored : DEFAULT_CAMERA_PREFERENCES.mirrored
+    };
+  } catch {
+    return DEFAULT_CAMERA_PREFERENCES;
+  }
+};
+
+export class CameraManager {
+  private state: CameraState;
+  private listeners = new Set<() => void>();
+  private video: HTMLVideoElement | null = null;
+  private stream: MediaStream | null = null;
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+  // Bumped whenever the stream is opened or dropped, so a slow getUserMedia
+  // that resolves after a newer request is discarded
+  private generation = 0;
+
+  constructor(
+    private media: MediaDevices | undefined = globalThis.navigator?.mediaDevices,
+    private storage: Storage | undefined = globalThis.localStorage,
+    private doc: Document | undefined = globalThis.document
+  ) {
+    this.state = { status: 'off', devices: [], activeDeviceId: null, preferences: loadPreferences(storage), error: null };
+  }
+
+  public getState = (): CameraState => this.state;
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Plays the camera into `video`; rejects with a CameraError when it can't be opened.
+  public async start(video: HTMLVideoElement) {
+    this.stop();
+    this.video = video;
+    this.media?.addEventListener('devicechange', this.onDeviceChange);
+    this.doc?.addEventListener('visibilitychange', this.onVisibilityChange);
+    try {
+      await this.open();
+    } catch (err) {
+      const error = toCameraError(err);
+      this.stop();
+      this.setState({ status: 'failed', error });
+      throw error;
+    }
+  }
+
+  // Releases the camera and stops watching for device and visibility changes.
+  public stop() {
+    this.generation++;
+    this.clearRecovery();
+    this.media?.removeEventListener('devicechange', this.onDeviceChange);
+    this.doc?.removeEventListener('visibilitychange', this.onVisibilityChange);
+    this.release();
+    this.video = null;
+    this.setState({ status: 'off', activeDeviceId: null, error: null });
+  }
+
+  public setPreferences(changes: Partial<CameraPreferences>) {
+    const preferences = { ...this.state.preferences, ...changes };
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    } catch (err) {
+      console.warn('Could not save camera preferences:', err);
+    }
+    this.setState({ preferences });
+    // Mirroring is applied by the scene; a device or resolution needs a new stream
+    const needsStream = changes.deviceId !== undefined || changes.resolution !== undefined;
+    if (needsStream && this.video && this.state.status !== 'off' && this.state.status !== 'paused') {
+      this.attempt = 0;
+      this.reopen();
+    }
+  }
+
+  public async refreshDevices(): Promise<CameraDevice[]> {
+    if (!this.media?.enumerateDevices) return [];
+    const devices = (await this.media.enumerateDevices())
+      .filter(d => d.kind === 'videoinput')
+      .map((d, i) => ({ deviceId: d.deviceId, label: d.label || null, number: i + 1 }));
+    this.setState({ devices });
+    return devices;
+  }
+
+  private async open() {
+    if (!this.media?.getUserMedia) {
+      throw new CameraError('unsupported', 'This browser cannot use a camera here (it needs https or localhost)');
+    }
+    const generation = ++this.generation;
+    this.setState({ status: 'starting' });
+    try {
+      await this.openStream(generation);
+    } catch (err) {
+      // A newer request or stop() took over; its outcome is the one that counts
+      if (generation === this.generation) throw err;
+    }
+  }
+
+  private async openStream(generation: number) {
+    const { deviceId, resolution } = this.state.preferences;
+    const { width, height } = RESOLUTIONS[resolution];
+    const request = (device: string | null) => this.media!.getUserMedia({
+      video: {
+        width: { ideal: width },
+        height: { ideal: height },
+        ...(device ? { deviceId: { exact: device } } : { facingMode: 'user' })
+      },
+      audio: false
+    });
+
+    let stream: MediaStream;
+    try {
+      stream = await request(deviceId);
+    } catch (err) {
+      const kind = toCameraError(err).kind;
+      // The chosen camera is gone; any camera beats none
+      if (!deviceId || (kind !== 'not_found' && kind !== 'overconstrained')) throw err;
+      stream = await request(null);
+    }
+
+    const video = this.video;
+    if (generation !== this.generation || !video) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.stream = stream;
+    const track = stream.getVideoTracks()[0];
+    track?.addEventListener('ended', this.onTrackEnded);
+    video.srcObject = stream;
+    await video.play();
+    if (generation !== this.generation) return;
+
+    this.attempt = 0;
+    this.setState({ status: 'live', activeDeviceId: track?.getSettings().deviceId ?? deviceId, error: null });
+    this.refreshDevices().catch(err => console.warn('Could not list cameras:', err));
+  }
+
+  private release() {
+    this.stream?.getTracks().forEach(track => {
+      track.removeEventListener('ended', this.onTrackEnded);
+      track.stop();
+    });
+    this.stream = null;
+    if (this.video) this.video.srcObject = null;
+  }
+
+  private reopen() {
+    this.clearRecovery();
+    this.release();
+    this.open().catch(err => this.scheduleRecovery(toCameraError(err)));
+  }
+
+  private scheduleRecovery(error: CameraError) {
+    this.clearRecovery();
+    // Retrying can't bring back a withdrawn permission
+    if (error.kind === 'permission_denied' || this.attempt >= RECOVERY_DELAYS_MS.length) {
+      this.release();
+      this.setState({ status: 'failed', error });
+      return;
+    }
+    this.setState({ status: 'recovering', error });
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = null;
+      this.reopen();
+    }, RECOVERY_DELAYS_MS[this.attempt++]);
+  }
+
+  private clearRecovery() {
+    if (this.recoveryTimer) clearTimeout(this.recoveryTimer);
+    this.recoveryTimer = null;
+  }
+
+  // Unplugged, taken by another app or stopped from the browser UI
+  private onTrackEnded = () => {
+    this.release();
+    this.scheduleRecovery(new CameraError('not_found', 'The camera stopped sending video'));
+  };
+
+  private onDeviceChange = () => {
+    this.refreshDevices().then(devices => {
+      const { status, activeDeviceId } = this.state;
+      if (status === 'live' && activeDeviceId && !devices.some(d => d.deviceId === activeDeviceId)) {
+        this.release();
+        this.attempt = 0;
+        this.scheduleRecovery(new CameraError('not_found', 'The camera was disconnected'));
+      } else if ((status === 'failed' || status === 'recovering') && devices.length > 0) {
+        // A camera was plugged in; try again straight away
+        this.attempt = 0;
+        this.reopen();
+      }
+    }).catch(err => console.warn('Could not list cameras:', err));
+  };
+
+  // Hidden tabs give the camera back (and turn its light off) until they return
+  private onVisibilityChange = () => {
+    const { status } = this.state;
+    if (this.doc?.visibilityState === 'hidden') {
+      if (status === 'off' || status === 'paused' || status === 'failed') return;
+      this.generation++;
+      this.clearRecovery();
+      this.release();
+      this.setState({ status: 'paused' });
+    } else if (status === 'paused') {
+      this.attempt = 0;
+      this.reopen();
+    }
+  };
+
+  private setState(changes: Partial<CameraState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const cameraManager = new CameraManager();
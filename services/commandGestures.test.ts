@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { CommandHold, CommandHoldState } from './commandGestures';
+
+const FRAME_MS = 50;
+
+// Pushes the same category every frame from `from` until `to`, returning every update
+const hold = (commands: CommandHold, categoryName: string | undefined, from: number, to: number): CommandHoldState[] => {
+  const states: CommandHoldState[] = [];
+  for (let now = from; now <= to; now += FRAME_MS) states.push(commands.push(categoryName, now));
+  return states;
+};
+
+const fired = (states: CommandHoldState[]) => states.filter(s => s.fired).map(s => s.fired);
+
+describe('CommandHold', () => {
+  it('fires once the gesture is held for holdMs', () => {
+    const commands = new CommandHold({ holdMs: 1000 });
+    const states = hold(commands, 'Thumb_Up', 0, 1000);
+    expect(states[20]).toEqual({ command: 'confirm', progress: 1, fired: 'confirm' });
+    expect(states[10]).toEqual({ command: 'confirm', progress: 0.5, fired: null });
+    expect(fired(states)).toEqual(['confirm']);
+  });
+
+  it('ignores gestures that are not commands', () => {
+    const commands = new CommandHold();
+    expect(fired(hold(commands, 'Closed_Fist', 0, 2000))).toEqual([]);
+    expect(commands.push(undefined, 2050)).toEqual({ command: null, progress: 0, fired: null });
+  });
+
+  it('stays latched until the hand lets go', () => {
+    const commands = new CommandHold({ holdMs: 1000, dropoutMs: 200 });
+    expect(fired(hold(commands, 'Thumb_Up', 0, 3000))).toEqual(['confirm']);
+    // A dropout shorter than dropoutMs is not letting go
+    commands.push(undefined, 3050);
+    expect(fired(hold(commands, 'Thumb_Up', 3100, 5000))).toEqual([]);
+
+    hold(commands, undefined, 5050, 5500);
+    expect(fired(hold(commands, 'Thumb_Up', 5550, 6550))).toEqual(['confirm']);
+  });
+
+  it('rides out short dropouts during a hold but restarts after long ones', () => {
+    const commands = new CommandHold({ holdMs: 1000, dropoutMs: 200 });
+    hold(commands, 'Thumb_Down', 0, 600);
+    expect(commands.push(undefined, 750).progress).toBeCloseTo(0.75);
+    expect(fired(hold(commands, 'Thumb_Down', 800, 1000))).toEqual(['quit']);
+
+    const restarted = new CommandHold({ holdMs: 1000, dropoutMs: 200 });
+    hold(restarted, 'Thumb_Down', 0, 600);
+    hold(restarted, undefined, 650, 1000);
+    const states = hold(restarted, 'Thumb_Down', 1050, 2000);
+    expect(states[0].progress).toBe(0);
+    expect(fired(states)).toEqual([]);
+  });
+
+  it('starts over when the gesture changes', () => {
+    const commands = new CommandHold({ holdMs: 1000 });
+    hold(commands, 'Thumb_Up', 0, 900);
+    expect(hold(commands, 'Pointing_Up', 950, 1900).map(s => s.fired)).not.toContain('confirm');
+    expect(commands.push('Pointing_Up', 1950).fired).toBe('settings');
+  });
+
+  it('keeps a fired command latched through cancel', () => {
+    const commands = new CommandHold({ holdMs: 1000 });
+    expect(fired(hold(commands, 'Thumb_Up', 0, 1000))).toEqual(['confirm']);
+    commands.cancel();
+    expect(fired(hold(commands, 'Thumb_Up', 1050, 3000))).toEqual([]);
+  });
+
+  it('drops a hold in progress on cancel', () => {
+    const commands = new CommandHold({ holdMs: 1000 });
+    hold(commands, 'Thumb_Up', 0, 800);
+    commands.cancel();
+    const states = hold(commands, 'Thumb_Up', 850, 1850);
+    expect(states[0].progress).toBe(0);
+    expect(fired(states)).toEqual(['confirm']);
+    expect(states.findIndex(s => s.fired)).toBe(states.length - 1);
+  });
+
+  it('forgets the latch on reset', () => {
+    const commands = new CommandHold({ holdMs: 1000 });
+    expect(fired(hold(commands, 'Thumb_Up', 0, 1000))).toEqual(['confirm']);
+    commands.reset();
+    expect(fired(hold(commands, 'Thumb_Up', 1050, 2050))).toEqual(['confirm']);
+  });
+});
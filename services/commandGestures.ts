@@ -0,0 +1,91 @@
+// Hands-free menu commands from MediaPipe's canned categories that aren't
+// game throws. A command fires once its gesture has been held for `holdMs`;
+// the hand must then leave that gesture before the same command can fire again.
+
+export type Command = 'confirm' | 'quit' | 'settings' | 'stats';
+
+export const COMMAND_BINDINGS: Record<string, Command> = {
+  Thumb_Up: 'confirm',
+  Thumb_Down: 'quit',
+  Pointing_Up: 'settings',
+  ILoveYou: 'stats'
+};
+
+export interface CommandHoldOptions {
+  holdMs: number;
+  // Frames without the gesture shorter than this don't restart the hold
+  dropoutMs: number;
+}
+
+export const DEFAULT_COMMAND_HOLD_OPTIONS: CommandHoldOptions = {
+  holdMs: 1000,
+  dropoutMs: 200
+};
+
+export interface CommandHoldState {
+  // Command being held, if any, and how far along the hold is (0..1)
+  command: Command | null;
+  progress: number;
+  // Set on the one update where the hold completed
+  fired: Command | null;
+}
+
+const IDLE: CommandHoldState = { command: null, progress: 0, fired: null };
+
+export class CommandHold {
+  private options: CommandHoldOptions;
+  private command: Command | null = null;
+  private startedAt = 0;
+  private lastSeenAt = 0;
+  // Fired command waiting for the hand to let go
+  private latched: Command | null = null;
+
+  constructor(options: Partial<CommandHoldOptions> = {}) {
+    this.options = { ...DEFAULT_COMMAND_HOLD_OPTIONS, ...options };
+  }
+
+  public reset() {
+    this.cancel();
+    this.latched = null;
+  }
+
+  // Drops the hold in progress; a command that already fired stays latched
+  // until the hand lets go, so it can't fire again straight away.
+  public cancel() {
+    this.command = null;
+  }
+
+  public push(categoryName: string | undefined, now: number): CommandHoldState {
+    const seen = categoryName ? COMMAND_BINDINGS[categoryName] ?? null : null;
+
+    if (seen === null || seen !== this.command) {
+      // Short dropouts keep the current hold alive
+      if (seen === null && this.command && now - this.lastSeenAt <= this.options.dropoutMs) {
+        return this.state(now);
+      }
+      if (seen !== this.latched) this.latched = null;
+      this.command = seen;
+      this.startedAt = now;
+    }
+    if (seen === null) return IDLE;
+
+    this.lastSeenAt = now;
+    if (this.latched === seen) return IDLE;
+
+    const state = this.state(now);
+    if (state.progress >= 1) {
+      this.latched = seen;
+      return { ...state, fired: seen };
+    }
+    return state;
+  }
+
+  private state(now: number): CommandHoldState {
+    if (!this.command || this.latched === this.command) return IDLE;
+    return {
+      command: this.command,
+      progress: Math.min(1, (now - this.startedAt) / this.options.holdMs),
+      fired: null
+    };
+  }
+}
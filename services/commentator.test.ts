@@ -0,0 +1,144 @@
+import { AddressInfo } from 'node:net';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Difficulty, GameMode, Gesture } from '../types';
+import { RoundRecord } from './botStrategies';
+import { CommentaryContext, HttpCommentator, RIVAL_PERSONALITY, TemplateCommentator, lineKindFor } from './commentator';
+import { seededRng } from './random';
+
+const { ROCK, PAPER, SCISSORS } = Gesture;
+
+const record = (player: Gesture, bot: Gesture, winner: RoundRecord['winner']): RoundRecord => ({ player, bot, winner });
+
+// A round the bot just won with paper against rock
+const context = (overrides: Partial<CommentaryContext> = {}): CommentaryContext => ({
+  event: 'round',
+  locale: 'en',
+  mode: GameMode.CLASSIC,
+  difficulty: Difficulty.MEDIUM,
+  round: 1,
+  score: { p1: 0, p2: 1 },
+  lastRound: record(ROCK, PAPER, 'bot'),
+  predicted: null,
+  matchWinner: null,
+  streak: { winner: 'bot', length: 1 },
+  habit: { gesture: ROCK, count: 1, share: 1 },
+  history: [record(ROCK, PAPER, 'bot')],
+  ...overrides
+});
+
+describe('lineKindFor', () => {
+  it('reacts to the last round', () => {
+    expect(lineKindFor(context())).toBe('botWins');
+    expect(lineKindFor(context({ predicted: ROCK }))).toBe('readYou');
+    expect(lineKindFor(context({ lastRound: record(ROCK, SCISSORS, 'player') }))).toBe('playerWins');
+    expect(lineKindFor(context({ lastRound: record(ROCK, ROCK, 'draw') }))).toBe('draw');
+    expect(lineKindFor(context({ lastRound: null }))).toBe('void');
+  });
+
+  it('calls out streaks and habits once they are established', () => {
+    expect(lineKindFor(context({ streak: { winner: 'player', length: 3 } }))).toBe('playerStreak');
+    expect(lineKindFor(context({ streak: { winner: 'draw', length: 3 } }))).toBe('botWins');
+    expect(lineKindFor(context({ habit: { gesture: ROCK, count: 4, share: 0.8 } }))).toBe('habit');
+    expect(lineKindFor(context({ habit: { gesture: ROCK, count: 3, share: 1 } }))).toBe('botWins');
+  });
+
+  it('sums up the match from the bot\'s side', () => {
+    const over = (matchWinner: CommentaryContext['matchWinner'], habit = context().habit) =>
+      lineKindFor(context({ event: 'gameOver', matchWinner, habit }));
+    expect(over('p2')).toBe('matchWon');
+    expect(over('p2', { gesture: PAPER, count: 5, share: 0.6 })).toBe('matchHabit');
+    expect(over('p1')).toBe('matchLost');
+    expect(over('draw')).toBe('matchDrawn');
+  });
+});
+
+describe('TemplateCommentator', () => {
+  it('fills the line from the context', () => {
+    const line = new TemplateCommentator(RIVAL_PERSONALITY, seededRng(1)).line(context());
+    expect(RIVAL_PERSONALITY.lines.botWins).toContain(line.key);
+    expect(line.params).toMatchObject({ p1: 0, p2: 1, gesture: { key: 'gesture.ROCK' }, count: 1, percent: 100 });
+  });
+
+  it('never repeats a line twice running', () => {
+    const commentator = new TemplateCommentator(RIVAL_PERSONALITY, seededRng(2));
+    const keys = Array.from({ length: 20 }, () => commentator.line(context()).key);
+    keys.slice(1).forEach((key, i) => expect(key).not.toBe(keys[i]));
+  });
+});
+
+describe('HttpCommentator', () => {
+  let server: Server;
+  let url: string;
+  let respond: (req: IncomingMessage, res: ServerResponse, body: string) => void;
+  const requests: unknown[] = [];
+
+  // The line the fallback would give for context()
+  const fallbackLine = () => new TemplateCommentator(RIVAL_PERSONALITY, seededRng(5)).line(context());
+  const commentator = (timeoutMs = 1000) =>
+    new HttpCommentator(url, { timeoutMs, fallback: new TemplateCommentator(RIVAL_PERSONALITY, seededRng(5)) });
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push(JSON.parse(body));
+        respond(req, res, body);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/comment`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    requests.length = 0;
+    vi.restoreAllMocks();
+  });
+
+  const answer = (status: number, body: unknown) => (_req: IncomingMessage, res: ServerResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  it('posts the context and shows the line it gets back', async () => {
+    respond = answer(200, { line: '  Paper covers your plans.  ' });
+    expect(await commentator().comment(context())).toEqual({ key: 'commentary.remote', params: { line: 'Paper covers your plans.' } });
+    expect(requests).toEqual([context()]);
+  });
+
+  it('shortens lines too long for the result panel', async () => {
+    respond = answer(200, { line: 'ha'.repeat(150) });
+    const message = await commentator().comment(context());
+    expect((message.params!.line as string).length).toBe(200);
+    expect(message.params!.line).toMatch(/…$/);
+  });
+
+  it('falls back to the templates on an error status', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    respond = answer(503, { line: 'unused' });
+    expect(await commentator().comment(context())).toEqual(fallbackLine());
+    expect(console.warn).toHaveBeenCalledWith(expect.any(String), new Error('HTTP 503'));
+  });
+
+  it('falls back to the templates on a reply without a line', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    respond = answer(200, { text: 'wrong field' });
+    expect(await commentator().comment(context())).toEqual(fallbackLine());
+  });
+
+  it('falls back to the templates when the endpoint is too slow', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    respond = (_req, res) => {
+      setTimeout(() => answer(200, { line: 'Too late.' })(_req, res), 500);
+    };
+    const started = Date.now();
+    expect(await commentator(50).comment(context())).toEqual(fallbackLine());
+    expect(Date.now() - started).toBeLessThan(400);
+  });
+});
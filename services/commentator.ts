@@ -0,0 +1,230 @@
+import { Difficulty, GameMode, GameState, Gesture, MatchWinner, Message, Score } from '../types';
+import type { MessageKey } from './i18n';
+import { RoundRecord } from './botStrategies';
+import { EngineConfig, EngineState } from './gameEngine';
+import { Rng, pick } from './random';
+
+// The bot's voice: one in-character line after each round and at the end of
+// a match. Lines come from a built-in personality pack, or from an HTTP
+// endpoint (e.g. an LLM behind a small proxy) that falls back to the pack
+// when it is slow or down.
+
+export type CommentaryEvent = 'round' | 'gameOver';
+
+export interface CommentaryStreak {
+  winner: RoundRecord['winner'];
+  length: number;
+}
+
+// The player's most thrown gesture this match
+export interface CommentaryHabit {
+  gesture: Gesture;
+  count: number;
+  // Share of decided rounds, 0..1
+  share: number;
+}
+
+export interface CommentaryContext {
+  event: CommentaryEvent;
+  // Language the line should be written in
+  locale: string;
+  mode: GameMode;
+  difficulty: Difficulty;
+  round: number;
+  score: Score;
+  // Outcome of the last round from the bot's side; null when it was voided
+  lastRound: RoundRecord | null;
+  // What the bot expected the player to throw last round
+  predicted: Gesture | null;
+  matchWinner: MatchWinner | null;
+  streak: CommentaryStreak | null;
+  habit: CommentaryHabit | null;
+  // Decided rounds of the match, oldest first
+  history: RoundRecord[];
+}
+
+export interface Commentator {
+  comment(context: CommentaryContext): Promise<Message>;
+}
+
+// A habit needs a few rounds behind it before the bot brags about it
+const MIN_HABIT_ROUNDS = 4;
+const MIN_HABIT_SHARE = 0.5;
+const MIN_STREAK = 3;
+
+const currentStreak = (history: RoundRecord[]): CommentaryStreak | null => {
+  const last = history[history.length - 1];
+  if (!last) return null;
+  let length = 0;
+  for (let i = history.length - 1; i >= 0 && history[i].winner === last.winner; i--) length++;
+  return { winner: last.winner, length };
+};
+
+const findHabit = (history: RoundRecord[]): CommentaryHabit | null => {
+  const counts = new Map<Gesture, number>();
+  let habit: CommentaryHabit | null = null;
+  for (const { player } of history) {
+    const count = (counts.get(player) ?? 0) + 1;
+    counts.set(player, count);
+    if (!habit || count > habit.count) habit = { gesture: player, count, share: 0 };
+  }
+  return habit && { ...habit, share: habit.count / history.length };
+};
+
+// Snapshot of a bot match for the commentator; only RESULT and GAME_OVER have anything to say.
+export const buildCommentaryContext = (state: EngineState, config: EngineConfig, locale: string): CommentaryContext | null => {
+  const event: CommentaryEvent | null = state.phase === GameState.GAME_OVER
+    ? 'gameOver'
+    : state.phase === GameState.RESULT ? 'round' : null;
+  if (!event) return null;
+  const decided = state.result?.winner === 'p1' || state.result?.winner === 'p2' || state.result?.winner === 'draw';
+  return {
+    event,
+    locale,
+    mode: config.mode,
+    difficulty: config.difficulty,
+    round: state.round,
+    score: state.score,
+    lastRound: decided ? state.history[state.history.length - 1] ?? null : null,
+    predicted: state.botDecision?.predicted ?? null,
+    matchWinner: state.matchWinner,
+    streak: currentStreak(state.history),
+    habit: findHabit(state.history),
+    history: state.history
+  };
+};
+
+export type LineKind =
+  | 'botWins' | 'playerWins' | 'draw' | 'void' | 'readYou'
+  | 'botStreak' | 'playerStreak' | 'habit'
+  | 'matchWon' | 'matchLost' | 'matchDrawn' | 'matchHabit';
+
+export interface Personality {
+  id: string;
+  // Catalog keys per situation; lines may use {gesture}, {count}, {percent}, {p1} and {p2}
+  lines: Record<LineKind, MessageKey[]>;
+}
+
+export const RIVAL_PERSONALITY: Personality = {
+  id: 'rival',
+  lines: {
+    botWins: ['commentary.botWins.1', 'commentary.botWins.2', 'commentary.botWins.3'],
+    playerWins: ['commentary.playerWins.1', 'commentary.playerWins.2', 'commentary.playerWins.3'],
+    draw: ['commentary.draw.1', 'commentary.draw.2'],
+    void: ['commentary.void.1', 'commentary.void.2'],
+    readYou: ['commentary.readYou.1', 'commentary.readYou.2'],
+    botStreak: ['commentary.botStreak.1', 'commentary.botStreak.2'],
+    playerStreak: ['commentary.playerStreak.1', 'commentary.playerStreak.2'],
+    habit: ['commentary.habit.1', 'commentary.habit.2'],
+    matchWon: ['commentary.matchWon.1', 'commentary.matchWon.2'],
+    matchLost: ['commentary.matchLost.1', 'commentary.matchLost.2'],
+    matchDrawn: ['commentary.matchDrawn.1'],
+    matchHabit: ['commentary.matchHabit.1']
+  }
+};
+
+// Most telling thing to say about the situation, from the bot's side ("matchWon" = the bot won).
+export const lineKindFor = (context: CommentaryContext): LineKind => {
+  const { event, lastRound, predicted, streak, habit } = context;
+  const habitual = habit !== null && habit.count >= MIN_HABIT_ROUNDS && habit.share >= MIN_HABIT_SHARE;
+
+  if (event === 'gameOver') {
+    if (context.matchWinner === 'p2') return habitual ? 'matchHabit' : 'matchWon';
+    return context.matchWinner === 'p1' ? 'matchLost' : 'matchDrawn';
+  }
+
+  if (!lastRound) return 'void';
+  if (streak && streak.length >= MIN_STREAK && streak.winner !== 'draw') {
+    return streak.winner === 'bot' ? 'botStreak' : 'playerStreak';
+  }
+  if (lastRound.winner === 'bot') {
+    if (predicted === lastRound.player) return 'readYou';
+    if (habitual && habit!.gesture === lastRound.player) return 'habit';
+    return 'botWins';
+  }
+  return lastRound.winner === 'player' ? 'playerWins' : 'draw';
+};
+
+// Offline commentator: picks a line for the situation, never the same one twice running.
+export class TemplateCommentator implements Commentator {
+  private lastKey: MessageKey | null = null;
+
+  constructor(private personality: Personality = RIVAL_PERSONALITY, private random: Rng = Math.random) {}
+
+  public async comment(context: CommentaryContext): Promise<Message> {
+    return this.line(context);
+  }
+
+  public line(context: CommentaryContext): Message {
+    const kind = lineKindFor(context);
+    const lines = this.personality.lines[kind];
+    const fresh = lines.filter(key => key !== this.lastKey);
+    const key = pick(fresh.length > 0 ? fresh : lines, this.random);
+    this.lastKey = key;
+
+    const params: Record<string, Message | number> = { p1: context.score.p1, p2: context.score.p2 };
+    const gesture = kind === 'habit' || kind === 'matchHabit' ? context.habit?.gesture : context.lastRound?.player;
+    if (gesture) params.gesture = { key: `gesture.${gesture}` };
+    if (context.streak) params.count = context.streak.length;
+    if (context.habit) params.percent = Math.round(context.habit.share * 100);
+    return { key, params };
+  }
+}
+
+export interface HttpCommentatorOptions {
+  timeoutMs?: number;
+  fallback?: Commentator;
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_TIMEOUT_MS = 2500;
+// Longer replies would not fit the result panel
+const MAX_LINE_LENGTH = 200;
+
+// Asks an HTTP endpoint for the line. The endpoint gets the context as a JSON
+// POST and answers with {"line": "..."}; anything else, an error status or no
+// answer within the timeout falls back to the template pack.
+export class HttpCommentator implements Commentator {
+  private timeoutMs: number;
+  private fallback: Commentator;
+  private fetch: typeof fetch;
+
+  constructor(private url: string, options: HttpCommentatorOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.fallback = options.fallback ?? new TemplateCommentator();
+    this.fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  public async comment(context: CommentaryContext): Promise<Message> {
+    try {
+      return { key: 'commentary.remote', params: { line: await this.request(context) } };
+    } catch (err) {
+      console.warn('Commentary endpoint failed, using the built-in lines:', err);
+      return this.fallback.comment(context);
+    }
+  }
+
+  private async request(context: CommentaryContext): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await this.fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(context),
+        signal: controller.signal
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const body = await response.json();
+      const line = typeof body?.line === 'string' ? body.line.trim() : '';
+      if (!line) throw new Error('response has no "line" string');
+      return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH - 1)}…` : line;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// The endpoint when one is configured, otherwise the offline pack.
+export const createCommentator = (url: string | undefined, options: HttpCommentatorOptions = {}): Commentator =>
+  url ? new HttpCommentator(url, options) : options.fallback ?? new TemplateCommentator();
@@ -0,0 +1,123 @@
+import { Gesture } from '../types';
+import { DetectionResult, InferenceStats, VisionConfig } from './visionService';
+
+// Rolling diagnostics for the debug overlay and bug reports: how often frames
+// are rendered and recognized, how long inference takes, and what the raw
+// recognizer said next to what the stabilizer passed on to the game.
+
+export interface GestureSample {
+  // ms since the metrics were created
+  t: number;
+  raw: Gesture;
+  stable: Gesture;
+  categoryName: string | null;
+  categoryScore: number | null;
+  hands: number;
+}
+
+export interface LatencySummary {
+  samples: number;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+export interface MetricsSnapshot {
+  capturedAt: string;
+  userAgent: string | null;
+  detectionFps: number;
+  renderFps: number;
+  inferenceMs: LatencySummary;
+  inference: InferenceStats | null;
+  vision: Pick<VisionConfig, 'classifier' | 'cannedMinScore' | 'inference' | 'targetFps'> & { profile: string | null } | null;
+  current: GestureSample | null;
+  history: GestureSample[];
+}
+
+const HISTORY_SIZE = 90;
+const LATENCY_SAMPLES = 200;
+// FPS is counted over this trailing window
+const FPS_WINDOW_MS = 2000;
+
+// Nearest-rank percentile of an ascending list.
+export const percentile = (sorted: number[], p: number): number | null =>
+  sorted.length === 0 ? null : sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+
+const round1 = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+const trimWindow = (times: number[], now: number) => {
+  while (times.length > 0 && now - times[0] > FPS_WINDOW_MS) times.shift();
+};
+
+const fps = (times: number[], now: number): number => {
+  trimWindow(times, now);
+  return Math.round((times.length / FPS_WINDOW_MS) * 1000 * 10) / 10;
+};
+
+export class DetectionMetrics {
+  private detections: number[] = [];
+  private renders: number[] = [];
+  private latencies: number[] = [];
+  private history: GestureSample[] = [];
+
+  constructor(private origin = performance.now()) {}
+
+  public recordRender(now: number) {
+    this.renders.push(now);
+    trimWindow(this.renders, now);
+  }
+
+  public recordDetection(now: number, detection: DetectionResult, stable: Gesture, inferenceMs: number | null) {
+    this.detections.push(now);
+    trimWindow(this.detections, now);
+    if (inferenceMs !== null) {
+      this.latencies.push(inferenceMs);
+      if (this.latencies.length > LATENCY_SAMPLES) this.latencies.shift();
+    }
+    this.history.push({
+      t: Math.round(now - this.origin),
+      raw: detection.gesture,
+      stable,
+      categoryName: detection.categoryName ?? null,
+      categoryScore: detection.categoryScore === undefined ? null : Math.round(detection.categoryScore * 100) / 100,
+      hands: detection.hands?.length ?? 0
+    });
+    if (this.history.length > HISTORY_SIZE) this.history.shift();
+  }
+
+  public getHistory(): GestureSample[] {
+    return this.history;
+  }
+
+  public latency(): LatencySummary {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    return {
+      samples: sorted.length,
+      p50: round1(percentile(sorted, 50)),
+      p90: round1(percentile(sorted, 90)),
+      p99: round1(percentile(sorted, 99)),
+      max: round1(sorted.length ? sorted[sorted.length - 1] : null)
+    };
+  }
+
+  public snapshot(now: number, inference: InferenceStats | null = null, vision: VisionConfig | null = null): MetricsSnapshot {
+    return {
+      capturedAt: new Date().toISOString(),
+      userAgent: typeof navigator === 'undefined' ? null : navigator.userAgent,
+      detectionFps: fps(this.detections, now),
+      renderFps: fps(this.renders, now),
+      inferenceMs: this.latency(),
+      inference,
+      vision: vision && {
+        classifier: vision.classifier,
+        cannedMinScore: vision.cannedMinScore,
+        inference: vision.inference,
+        targetFps: vision.targetFps,
+        profile: vision.profile?.name ?? null
+      },
+      current: this.history[this.history.length - 1] ?? null,
+      history: [...this.history]
+    };
+  }
+}
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { DrawHandling, GameState, Gesture, MatchFormat, OpponentType, Seat } from '../types';
+import {
+  DEFAULT_ENGINE_CONFIG,
+  EngineConfig,
+  EngineContext,
+  EngineState,
+  GameEngine,
+  GameEvent,
+  GameEventType,
+  ManualClock,
+  TRANSITIONS,
+  createInitialState,
+  determineWinner,
+  lockInFramesFor,
+  transition
+} from './gameEngine';
+import { seededRng } from './random';
+
+const FRAME_MS = 50;
+
+const setup = (config: Partial<EngineConfig> = {}) => {
+  const clock = new ManualClock();
+  const engine = new GameEngine({ config: { opponent: OpponentType.LOCAL, ...config }, clock, random: seededRng(7) });
+  return { clock, engine };
+};
+
+// Runs one round from START_ROUND to its reveal, showing the given throws on
+// every frame; seats left out show no hand.
+const playRound = (
+  { clock, engine }: ReturnType<typeof setup>,
+  throws: Partial<Record<Seat, Gesture>>,
+  frameMs = FRAME_MS
+): EngineState => {
+  engine.dispatch({ type: 'START_ROUND' });
+  for (let i = 0; i < 1000; i++) {
+    (Object.keys(throws) as Seat[]).forEach(seat =>
+      engine.dispatch({ type: 'LOCK_GESTURE', seat, gesture: throws[seat]!, confidence: 0.9 }));
+    clock.advance(frameMs);
+    const state = engine.dispatch({ type: 'TICK' });
+    if (state.phase !== GameState.COUNTDOWN && state.phase !== GameState.PLAYING) return state;
+  }
+  throw new Error('round never resolved');
+};
+
+const EVENTS: Record<GameEventType, GameEvent> = {
+  START_ROUND: { type: 'START_ROUND' },
+  TICK: { type: 'TICK' },
+  LOCK_GESTURE: { type: 'LOCK_GESTURE', gesture: Gesture.ROCK, confidence: 1 },
+  REMOTE_THROW: { type: 'REMOTE_THROW', outcome: { status: 'locked', gesture: Gesture.ROCK } },
+  RESET: { type: 'RESET' }
+};
+
+describe('transition table', () => {
+  const ctx: EngineContext = { now: 10_000, random: seededRng(1), config: DEFAULT_ENGINE_CONFIG };
+  const stateIn = (phase: GameState): EngineState => ({
+    ...createInitialState(DEFAULT_ENGINE_CONFIG),
+    phase,
+    phaseStartedAt: 0,
+    matchStartedAt: 0
+  });
+
+  Object.values(GameState).forEach(phase => {
+    (Object.keys(EVENTS) as GameEventType[]).forEach(type => {
+      const allowed = TRANSITIONS[phase][type];
+      it(allowed ? `${phase} + ${type} → ${allowed.join(' | ')}` : `${phase} ignores ${type}`, () => {
+        const before = stateIn(phase);
+        const after = transition(before, EVENTS[type], ctx);
+        if (allowed) {
+          expect(allowed).toContain(after.phase);
+        } else {
+          expect(after).toBe(before);
+        }
+      });
+    });
+  });
+});
+
+describe('determineWinner', () => {
+  it('applies the classic rules', () => {
+    expect(determineWinner(Gesture.ROCK, Gesture.SCISSORS)).toBe('p1');
+    expect(determineWinner(Gesture.ROCK, Gesture.PAPER)).toBe('p2');
+    expect(determineWinner(Gesture.PAPER, Gesture.PAPER)).toBe('draw');
+    expect(determineWinner(Gesture.NONE, Gesture.PAPER)).toBe('invalid');
+  });
+});
+
+describe('GameEngine', () => {
+  it('counts down one second at a time before opening the round', () => {
+    const game = setup();
+    game.engine.dispatch({ type: 'START_ROUND' });
+    expect(game.engine.getState()).toMatchObject({ phase: GameState.COUNTDOWN, countdown: 3, round: 1 });
+
+    game.clock.advance(1000);
+    expect(game.engine.dispatch({ type: 'TICK' }).countdown).toBe(2);
+    game.clock.advance(2000);
+    expect(game.engine.dispatch({ type: 'TICK' }).phase).toBe(GameState.PLAYING);
+  });
+
+  it('scores a decided round', () => {
+    const state = playRound(setup(), { p1: Gesture.ROCK, p2: Gesture.SCISSORS });
+    expect(state.phase).toBe(GameState.RESULT);
+    expect(state.result?.winner).toBe('p1');
+    expect(state.score).toEqual({ p1: 1, p2: 0 });
+    expect(state.history).toEqual([{ player: Gesture.ROCK, bot: Gesture.SCISSORS, winner: 'player' }]);
+  });
+
+  it('replays draws without using up a round', () => {
+    const state = playRound(setup({ format: MatchFormat.BEST_OF, target: 1 }), { p1: Gesture.PAPER, p2: Gesture.PAPER });
+    expect(state.phase).toBe(GameState.RESULT);
+    expect(state.result?.winner).toBe('draw');
+    expect(state.roundsPlayed).toBe(0);
+  });
+
+  it('ends a sudden-death match on a counted draw', () => {
+    const state = playRound(
+      setup({ format: MatchFormat.SUDDEN_DEATH, drawHandling: DrawHandling.COUNT }),
+      { p1: Gesture.PAPER, p2: Gesture.PAPER }
+    );
+    expect(state.phase).toBe(GameState.GAME_OVER);
+    expect(state.matchWinner).toBe('draw');
+  });
+
+  it('voids a round with a missing hand', () => {
+    const state = playRound(setup(), { p1: Gesture.ROCK });
+    expect(state.result).toMatchObject({ winner: 'invalid', missing: ['p2'] });
+    expect(state.score).toEqual({ p1: 0, p2: 0 });
+    expect(state.history).toEqual([]);
+  });
+
+  it('gives the point away for a missing hand when invalid rounds count as losses', () => {
+    const state = playRound(setup({ invalidCountsAsLoss: true }), { p1: Gesture.ROCK });
+    expect(state.result).toMatchObject({ winner: 'invalid', awardedTo: 'p1' });
+    expect(state.score).toEqual({ p1: 1, p2: 0 });
+  });
+
+  it('calls a round unclear when no gesture is held long enough', () => {
+    const game = setup();
+    game.engine.dispatch({ type: 'START_ROUND' });
+    game.clock.advance(3000);
+    game.engine.dispatch({ type: 'TICK' });
+    // Alternating throws never build a run of lockInFrames
+    for (let i = 0; game.engine.getState().phase === GameState.PLAYING; i++) {
+      const gesture = i % 2 === 0 ? Gesture.ROCK : Gesture.PAPER;
+      game.engine.dispatch({ type: 'LOCK_GESTURE', seat: 'p1', gesture, confidence: 0.9 });
+      game.engine.dispatch({ type: 'LOCK_GESTURE', seat: 'p2', gesture: Gesture.ROCK, confidence: 0.9 });
+      game.clock.advance(FRAME_MS);
+      game.engine.dispatch({ type: 'TICK' });
+    }
+    expect(game.engine.getState().result?.winner).toBe('unclear');
+  });
+
+  it('ends a first-to match once a seat reaches the target', () => {
+    const game = setup({ format: MatchFormat.FIRST_TO, target: 2 });
+    expect(playRound(game, { p1: Gesture.ROCK, p2: Gesture.PAPER }).phase).toBe(GameState.RESULT);
+    expect(playRound(game, { p1: Gesture.ROCK, p2: Gesture.SCISSORS }).phase).toBe(GameState.RESULT);
+    const state = playRound(game, { p1: Gesture.SCISSORS, p2: Gesture.PAPER });
+    expect(state.phase).toBe(GameState.GAME_OVER);
+    expect(state.matchWinner).toBe('p1');
+    expect(state.score).toEqual({ p1: 2, p2: 1 });
+
+    // Nothing but RESET leaves GAME_OVER
+    expect(game.engine.dispatch({ type: 'START_ROUND' })).toBe(state);
+    expect(game.engine.dispatch({ type: 'RESET' })).toMatchObject({ phase: GameState.IDLE, score: { p1: 0, p2: 0 }, round: 0 });
+  });
+
+  it('replays the same bot match from the same seed', () => {
+    const run = () => {
+      const clock = new ManualClock();
+      const engine = new GameEngine({ config: { opponent: OpponentType.BOT }, clock, random: seededRng(42) });
+      const rounds: Gesture[] = [];
+      for (let i = 0; i < 6 && engine.getState().phase !== GameState.GAME_OVER; i++) {
+        rounds.push(playRound({ clock, engine }, { p1: Gesture.ROCK }).seats.p2.gesture);
+      }
+      return rounds;
+    };
+    expect(run()).toEqual(run());
+  });
+
+  it('only accepts settings between matches', () => {
+    const game = setup();
+    game.engine.dispatch({ type: 'START_ROUND' });
+    expect(game.engine.configure({ target: 5 })).toBe(false);
+    game.engine.dispatch({ type: 'RESET' });
+    expect(game.engine.configure({ target: 5 })).toBe(true);
+    expect(game.engine.getConfig().target).toBe(5);
+  });
+
+  it.each([100, 150, 300, 2000])('locks throws within a %i ms window at the detector frame rate', lockInMs => {
+    const game = setup({ lockInMs, format: MatchFormat.FIRST_TO, target: 2 });
+    let state = playRound(game, { p1: Gesture.ROCK, p2: Gesture.SCISSORS }, 1000 / 24);
+    expect(state.result?.winner).toBe('p1');
+    state = playRound(game, { p1: Gesture.PAPER, p2: Gesture.ROCK }, 1000 / 24);
+    expect(state.phase).toBe(GameState.GAME_OVER);
+  });
+});
+
+describe('lockInFramesFor', () => {
+  it('asks for fewer frames when the window is short', () => {
+    expect(lockInFramesFor({ lockInMs: 100, lockInFrames: 5 })).toBe(2);
+    expect(lockInFramesFor({ lockInMs: 300, lockInFrames: 5 })).toBe(4);
+    expect(lockInFramesFor({ lockInMs: 500, lockInFrames: 5 })).toBe(5);
+    expect(lockInFramesFor({ lockInMs: 2000, lockInFrames: 5 })).toBe(5);
+  });
+});
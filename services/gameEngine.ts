@@ -0,0 +1,469 @@
+import { Difficulty, DrawHandling, GameMode, GameState, Gesture, MatchFormat, MatchWinner, Message, OpponentType, Score, Seat, SEATS, GameResult, TimingFlag } from '../types';
+import { RULE_SETS, RuleSet, isPlayable, resolveThrow } from './rules';
+import { EMPTY_LOCK_IN, LockInOutcome, LockInState, pushLockIn, resolveLockIn } from './gestureStabilizer';
+import { BotDecision, DIFFICULTY_STRATEGIES, RoundRecord } from './botStrategies';
+import { Rng } from './random';
+import { FormatSettings, countsAsPlayed, matchOutcome } from './matchFormat';
+import { RoundTimeline, createTimeline, judgeTiming, recordGesture } from './throwTimeline';
+import type { AssignmentStrategy } from './handAssignment';
+
+// Headless match engine. Holds no DOM or React state: time comes from an
+// injected clock and the bot's throw from an injected RNG, so a whole match
+// can be replayed deterministically by feeding it events.
+
+export type GameEvent =
+  // `at` backdates or schedules the countdown start on the engine clock
+  // (network rounds start on the server's schedule).
+  | { type: 'START_ROUND'; at?: number }
+  | { type: 'TICK' }
+  | { type: 'LOCK_GESTURE'; gesture: Gesture; confidence?: number; seat?: Seat }
+  // Opponent's verified throw in a network match. `forfeitLocal` marks our own
+  // throw as missing when the relay rejected it (e.g. committed too late).
+  | { type: 'REMOTE_THROW'; outcome: LockInOutcome; forfeitLocal?: boolean }
+  | { type: 'RESET' };
+
+export type GameEventType = GameEvent['type'];
+
+export interface Clock {
+  now(): number;
+}
+
+export type { Rng };
+
+export interface EngineConfig extends FormatSettings {
+  mode: GameMode;
+  opponent: OpponentType;
+  difficulty: Difficulty;
+  countdownSeconds: number;
+  lockInMs: number;
+  // Consecutive frames a gesture must be held during PLAYING to count; fewer
+  // when the lock-in window is too short to see that many (see lockInFramesFor).
+  lockInFrames: number;
+  // A throw must be showing this long after the countdown ends or it is flagged as late.
+  shootGraceMs: number;
+  // Void rounds with a late throw instead of only flagging them (camera seats
+  // only; a network opponent's timing can't be checked from here).
+  strictTiming: boolean;
+  // Local matches: how the camera's two hands map to seats (read by the detection loop)
+  handAssignment: AssignmentStrategy;
+}
+
+export interface SeatState {
+  gesture: Gesture;
+  confidence: number;
+  lockIn: LockInState;
+}
+
+export interface EngineState {
+  phase: GameState;
+  score: Score;
+  countdown: number;
+  phaseStartedAt: number;
+  round: number;
+  // Rounds that count towards the format's total (see countsAsPlayed)
+  roundsPlayed: number;
+  matchStartedAt: number | null;
+  // Set once the match is over
+  matchWinner: MatchWinner | null;
+  seats: Record<Seat, SeatState>;
+  // Network rounds only: p1's lock is fixed when the window closes, then the
+  // round waits for the opponent's reveal.
+  localLock: LockInOutcome | null;
+  remoteLock: LockInOutcome | null;
+  botDecision: BotDecision | null;
+  result: GameResult | null;
+  // Gesture changes of the current round, for the timing check and later review
+  timeline: RoundTimeline | null;
+  // Decided rounds of the current match, oldest first; feeds the bot.
+  history: RoundRecord[];
+}
+
+export interface EngineContext {
+  now: number;
+  random: Rng;
+  config: EngineConfig;
+}
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  mode: GameMode.CLASSIC,
+  opponent: OpponentType.BOT,
+  difficulty: Difficulty.MEDIUM,
+  format: MatchFormat.FIRST_TO,
+  target: 3,
+  drawHandling: DrawHandling.REPLAY,
+  invalidCountsAsLoss: false,
+  countdownSeconds: 3,
+  lockInMs: 500,
+  lockInFrames: 5,
+  shootGraceMs: 300,
+  strictTiming: false,
+  handAssignment: 'screen-half'
+};
+
+// Most detections per second the vision service delivers (its targetFps)
+export const DETECTION_FPS = 24;
+
+// Frames a throw must be held for within the lock-in window: at most
+// `lockInFrames`, and no more than 60% of what the detector can deliver in
+// the window, so a short window can still lock (never fewer than two).
+export const lockInFramesFor = ({ lockInMs, lockInFrames }: Pick<EngineConfig, 'lockInMs' | 'lockInFrames'>): number =>
+  Math.min(lockInFrames, Math.max(2, Math.floor((lockInMs * DETECTION_FPS) / 1000 * 0.6)));
+
+export const systemClock: Clock = { now: () => performance.now() };
+
+// Clock that only moves when told to; drives simulated matches.
+export class ManualClock implements Clock {
+  constructor(private time = 0) {}
+
+  public now(): number {
+    return this.time;
+  }
+
+  public advance(ms: number) {
+    this.time += ms;
+  }
+}
+
+// Every phase lists the events it reacts to and the phases they may lead to.
+// Events not listed for a phase are ignored.
+export const TRANSITIONS: Record<GameState, Partial<Record<GameEventType, GameState[]>>> = {
+  [GameState.IDLE]: {
+    START_ROUND: [GameState.COUNTDOWN],
+    RESET: [GameState.IDLE]
+  },
+  [GameState.COUNTDOWN]: {
+    TICK: [GameState.COUNTDOWN, GameState.PLAYING],
+    LOCK_GESTURE: [GameState.COUNTDOWN],
+    RESET: [GameState.IDLE]
+  },
+  [GameState.PLAYING]: {
+    TICK: [GameState.PLAYING, GameState.RESULT, GameState.GAME_OVER],
+    LOCK_GESTURE: [GameState.PLAYING],
+    REMOTE_THROW: [GameState.PLAYING, GameState.RESULT, GameState.GAME_OVER],
+    RESET: [GameState.IDLE]
+  },
+  // LOCK_GESTURE after the reveal only extends the round's timeline
+  [GameState.RESULT]: {
+    START_ROUND: [GameState.COUNTDOWN, GameState.GAME_OVER],
+    LOCK_GESTURE: [GameState.RESULT],
+    RESET: [GameState.IDLE]
+  },
+  [GameState.GAME_OVER]: {
+    LOCK_GESTURE: [GameState.GAME_OVER],
+    RESET: [GameState.IDLE]
+  }
+};
+
+export const canHandle = (phase: GameState, type: GameEventType): boolean =>
+  TRANSITIONS[phase][type] !== undefined;
+
+export type Winner = NonNullable<GameResult['winner']>;
+
+export interface RoundJudgement {
+  winner: Winner;
+  detail?: Message;
+}
+
+export const judgeRound = (p1: Gesture, p2: Gesture, rules: RuleSet = RULE_SETS[GameMode.CLASSIC]): RoundJudgement => {
+  if (p1 === Gesture.NONE || !isPlayable(rules, p1)) return { winner: 'invalid' };
+
+  const outcome = resolveThrow(rules, p1, p2);
+  if (outcome.winner === 'first') return { winner: 'p1', detail: outcome.description };
+  if (outcome.winner === 'second') return { winner: 'p2', detail: outcome.description };
+  return { winner: 'draw' };
+};
+
+export const determineWinner = (p1: Gesture, p2: Gesture, rules?: RuleSet): Winner =>
+  judgeRound(p1, p2, rules).winner;
+
+export const seatName = (opponent: OpponentType, seat: Seat): Message => ({ key: `seat.${opponent}.${seat}` });
+
+// Seats whose gestures come from this camera.
+export const humanSeats = (opponent: OpponentType): Seat[] =>
+  opponent === OpponentType.LOCAL ? SEATS : ['p1'];
+
+const timingDetail = (opponent: OpponentType, seat: Seat, flag: TimingFlag): Message =>
+  ({ key: `timing.${flag}`, params: { seat: seatName(opponent, seat) } });
+
+const resultMessage = (winner: Winner, opponent: OpponentType, missing?: Seat[]): Message => {
+  if (winner === 'p1' && opponent !== OpponentType.LOCAL) return { key: 'result.youWin' };
+  if (winner === 'p1' || winner === 'p2') return { key: 'result.seatWins', params: { seat: seatName(opponent, winner) } };
+  if (winner === 'draw') return { key: 'result.draw' };
+  if (winner === 'unclear') return { key: 'result.unclear' };
+  if (missing && missing.length === 1 && missing[0] === 'p2' && opponent === OpponentType.NETWORK) {
+    return { key: 'result.noOpponentThrow' };
+  }
+  if (missing && missing.length === 1 && opponent === OpponentType.LOCAL) {
+    return { key: 'result.handMissing', params: { seat: seatName(opponent, missing[0]) } };
+  }
+  return { key: 'result.noHand' };
+};
+
+const emptySeat = (): SeatState => ({ gesture: Gesture.NONE, confidence: 0, lockIn: EMPTY_LOCK_IN });
+
+const emptySeats = (): Record<Seat, SeatState> => ({ p1: emptySeat(), p2: emptySeat() });
+
+export const createInitialState = (config: EngineConfig = DEFAULT_ENGINE_CONFIG, now = 0): EngineState => ({
+  phase: GameState.IDLE,
+  score: { p1: 0, p2: 0 },
+  countdown: config.countdownSeconds,
+  phaseStartedAt: now,
+  round: 0,
+  roundsPlayed: 0,
+  matchStartedAt: null,
+  matchWinner: null,
+  seats: emptySeats(),
+  localLock: null,
+  remoteLock: null,
+  botDecision: null,
+  result: null,
+  timeline: null,
+  history: []
+});
+
+export const isMatchOver = (state: EngineState): boolean => state.matchWinner !== null;
+
+const resolveRound = (state: EngineState, ctx: EngineContext): EngineState => {
+  const rules = RULE_SETS[ctx.config.mode];
+  const humans = humanSeats(ctx.config.opponent);
+  const seats = { ...state.seats };
+
+  const locks = ctx.config.opponent === OpponentType.NETWORK
+    ? [{ seat: 'p1' as Seat, lock: state.localLock! }, { seat: 'p2' as Seat, lock: state.remoteLock! }]
+    : humans.map(seat => ({ seat, lock: resolveLockIn(state.seats[seat].lockIn, lockInFramesFor(ctx.config)) }));
+  locks.forEach(({ seat, lock }) => {
+    seats[seat] = { ...seats[seat], gesture: lock.status === 'locked' ? lock.gesture : Gesture.NONE };
+  });
+
+  let botDecision: BotDecision | null = null;
+  if (ctx.config.opponent === OpponentType.BOT) {
+    botDecision = DIFFICULTY_STRATEGIES[ctx.config.difficulty].decide({
+      rules,
+      history: state.history,
+      random: ctx.random
+    });
+    seats.p2 = { ...seats.p2, gesture: botDecision.gesture, confidence: 1 };
+  }
+
+  const missing = locks.filter(l => l.lock.status === 'no_hand').map(l => l.seat);
+  const unclear = locks.some(l => l.lock.status === 'unclear');
+  const judged: RoundJudgement = missing.length > 0
+    ? { winner: 'invalid' }
+    : unclear
+      ? { winner: 'unclear' }
+      : judgeRound(seats.p1.gesture, seats.p2.gesture, rules);
+
+  // Timing check for the throws seen by this camera
+  const timing: Partial<Record<Seat, TimingFlag>> = {};
+  if (state.timeline) {
+    humans.forEach(seat => {
+      const flag = judgeTiming(state.timeline!, seat, seats[seat].gesture, ctx.config.shootGraceMs);
+      if (flag) timing[seat] = flag;
+    });
+  }
+  const late = Object.keys(timing) as Seat[];
+  const voided = ctx.config.strictTiming && ctx.config.opponent !== OpponentType.NETWORK && late.length > 0
+    && judged.winner !== 'invalid' && judged.winner !== 'unclear';
+  const { winner, detail }: RoundJudgement = voided
+    ? {
+        winner: 'invalid',
+        detail: {
+          key: 'result.roundVoid',
+          params: { reasons: late.map(seat => timingDetail(ctx.config.opponent, seat, timing[seat]!)) }
+        }
+      }
+    : judged;
+
+  // A single missing hand can cost its seat the round
+  const awardedTo = winner === 'invalid' && ctx.config.invalidCountsAsLoss && missing.length === 1
+    ? SEATS.find(seat => seat !== missing[0])
+    : undefined;
+  const result: GameResult = {
+    winner,
+    message: voided ? { key: `result.${timing[late[0]]!}` } : resultMessage(winner, ctx.config.opponent, missing),
+    detail: awardedTo ? { key: 'result.pointFor', params: { seat: seatName(ctx.config.opponent, awardedTo) } } : detail,
+    missing: missing.length > 0 ? missing : undefined,
+    awardedTo,
+    timing: late.length > 0 ? timing : undefined
+  };
+
+  const score = { ...state.score };
+  if (winner === 'p1' || winner === 'p2') score[winner] += 1;
+  if (awardedTo) score[awardedTo] += 1;
+  const roundsPlayed = state.roundsPlayed + (countsAsPlayed(result, ctx.config) ? 1 : 0);
+  const matchWinner = matchOutcome({
+    score,
+    roundsPlayed,
+    elapsedMs: ctx.now - (state.matchStartedAt ?? ctx.now),
+    lastWinner: winner
+  }, ctx.config);
+  const history = winner === 'p1' || winner === 'p2' || winner === 'draw'
+    ? [...state.history, {
+        player: seats.p1.gesture,
+        bot: seats.p2.gesture,
+        winner: winner === 'p1' ? 'player' as const : winner === 'p2' ? 'bot' as const : 'draw' as const
+      }]
+    : state.history;
+
+  return {
+    ...state,
+    phase: matchWinner ? GameState.GAME_OVER : GameState.RESULT,
+    phaseStartedAt: ctx.now,
+    score,
+    roundsPlayed,
+    matchWinner,
+    seats,
+    botDecision,
+    history,
+    result,
+    timeline: state.timeline ? { ...state.timeline, resolvedAt: ctx.now } : null
+  };
+};
+
+const tick = (state: EngineState, ctx: EngineContext): EngineState => {
+  const elapsed = ctx.now - state.phaseStartedAt;
+
+  if (state.phase === GameState.COUNTDOWN) {
+    const total = ctx.config.countdownSeconds * 1000;
+    if (elapsed >= total) {
+      return { ...state, phase: GameState.PLAYING, phaseStartedAt: ctx.now, countdown: 0 };
+    }
+    const countdown = Math.min(ctx.config.countdownSeconds, ctx.config.countdownSeconds - Math.floor(elapsed / 1000));
+    return countdown === state.countdown ? state : { ...state, countdown };
+  }
+
+  if (state.phase === GameState.PLAYING && elapsed >= ctx.config.lockInMs) {
+    if (ctx.config.opponent !== OpponentType.NETWORK) return resolveRound(state, ctx);
+    if (!state.localLock) {
+      const localLock = resolveLockIn(state.seats.p1.lockIn, lockInFramesFor(ctx.config));
+      const next = { ...state, localLock };
+      return next.remoteLock ? resolveRound(next, ctx) : next;
+    }
+  }
+
+  return state;
+};
+
+// Pure reducer: returns the same object when the event changes nothing.
+export const transition = (state: EngineState, event: GameEvent, ctx: EngineContext): EngineState => {
+  if (!canHandle(state.phase, event.type)) return state;
+
+  switch (event.type) {
+    case 'START_ROUND': {
+      // A timed match can run out while the last result is on screen
+      const matchWinner = state.phase === GameState.RESULT
+        ? matchOutcome({
+            score: state.score,
+            roundsPlayed: state.roundsPlayed,
+            elapsedMs: ctx.now - (state.matchStartedAt ?? ctx.now),
+            lastWinner: state.result?.winner ?? null
+          }, ctx.config)
+        : null;
+      if (matchWinner) return { ...state, phase: GameState.GAME_OVER, phaseStartedAt: ctx.now, matchWinner };
+
+      const countdownStartsAt = event.at ?? ctx.now;
+      return {
+        ...state,
+        phase: GameState.COUNTDOWN,
+        phaseStartedAt: countdownStartsAt,
+        countdown: ctx.config.countdownSeconds,
+        round: state.round + 1,
+        matchStartedAt: state.matchStartedAt ?? event.at ?? ctx.now,
+        seats: emptySeats(),
+        localLock: null,
+        remoteLock: null,
+        botDecision: null,
+        result: null,
+        timeline: createTimeline(countdownStartsAt + ctx.config.countdownSeconds * 1000)
+      };
+    }
+    case 'TICK':
+      return tick(state, ctx);
+    case 'LOCK_GESTURE': {
+      const seat = event.seat ?? 'p1';
+      if (!humanSeats(ctx.config.opponent).includes(seat)) return state;
+
+      const confidence = event.confidence ?? 0;
+      const timeline = state.timeline && recordGesture(state.timeline, seat, event.gesture, confidence, ctx.now);
+      // After the reveal the played gestures are fixed; only the timeline moves
+      if (state.phase === GameState.RESULT || state.phase === GameState.GAME_OVER) {
+        return timeline === state.timeline ? state : { ...state, timeline };
+      }
+
+      const current = state.seats[seat];
+      // Only frames seen while PLAYING feed the lock-in window; during the
+      // countdown the latest gesture is just tracked for display.
+      if (state.phase !== GameState.PLAYING && current.gesture === event.gesture && current.confidence === confidence) {
+        return timeline === state.timeline ? state : { ...state, timeline };
+      }
+      const lockIn = state.phase === GameState.PLAYING ? pushLockIn(current.lockIn, event.gesture) : current.lockIn;
+      return {
+        ...state,
+        timeline,
+        seats: { ...state.seats, [seat]: { gesture: event.gesture, confidence, lockIn } }
+      };
+    }
+    case 'REMOTE_THROW': {
+      if (ctx.config.opponent !== OpponentType.NETWORK || state.remoteLock) return state;
+      const localLock = event.forfeitLocal ? { status: 'no_hand' as const } : state.localLock;
+      const next = { ...state, remoteLock: event.outcome, localLock };
+      return localLock ? resolveRound(next, ctx) : next;
+    }
+    case 'RESET':
+      return createInitialState(ctx.config, ctx.now);
+  }
+};
+
+type Listener = (state: EngineState) => void;
+
+export class GameEngine {
+  private state: EngineState;
+  private listeners = new Set<Listener>();
+  private config: EngineConfig;
+  private clock: Clock;
+  private random: Rng;
+
+  constructor(options: { config?: Partial<EngineConfig>; clock?: Clock; random?: Rng } = {}) {
+    this.config = { ...DEFAULT_ENGINE_CONFIG, ...options.config };
+    this.clock = options.clock ?? systemClock;
+    this.random = options.random ?? Math.random;
+    this.state = createInitialState(this.config, this.clock.now());
+  }
+
+  public getState = (): EngineState => this.state;
+
+  public getConfig(): EngineConfig {
+    return this.config;
+  }
+
+  public subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Match settings can only change between matches; the engine goes back to a
+  // fresh IDLE state so the new rules apply from the first round.
+  public configure(config: Partial<EngineConfig>): boolean {
+    if (this.state.phase !== GameState.IDLE) return false;
+    this.config = { ...this.config, ...config };
+    this.setState(createInitialState(this.config, this.clock.now()));
+    return true;
+  }
+
+  public dispatch(event: GameEvent): EngineState {
+    const next = transition(this.state, event, {
+      now: this.clock.now(),
+      random: this.random,
+      config: this.config
+    });
+    if (next !== this.state) this.setState(next);
+    return next;
+  }
+
+  private setState(next: EngineState) {
+    this.state = next;
+    this.listeners.forEach(l => l(next));
+  }
+}
@@ -1,8 +0,0 @@
-// This service has been deprecated in favor of local MediaPipe inference.
-// See services/visionService.ts
-export const geminiService = {
-    connect: async () => {},
-    disconnect: () => {},
-    sendFrame: () => {},
-    setOnGesture: () => {}
-};
@@ -0,0 +1,258 @@
+import { Gesture } from '../types';
+import { DetectionResult, RecognitionFrame, interpretFrame, visionService } from './visionService';
+import { CameraManager, cameraManager } from './cameraManager';
+
+// Everything the detection loop can read gestures from. The loop calls
+// read() once per animation frame; sources that have nothing new return null.
+
+export type GestureSourceKind = 'webcam' | 'video' | 'replay' | 'scripted' | 'manual';
+
+export interface GestureSource {
+  readonly kind: GestureSourceKind;
+  readonly label: string;
+  start(): Promise<void>;
+  stop(): void;
+  read(now: number): DetectionResult | null;
+}
+
+const NO_HAND: DetectionResult = { gesture: Gesture.NONE, confidence: 0, source: null };
+
+// --- Video-backed sources ---
+
+const readVideo = (video: HTMLVideoElement, now: number): DetectionResult | null =>
+  video.readyState === 4 ? visionService.detect(video, now) : null;
+
+const waitForMetadata = (video: HTMLVideoElement) =>
+  new Promise<void>((resolve, reject) => {
+    video.onloadedmetadata = () => {
+      video.play().then(resolve, reject);
+    };
+    video.onerror = () => reject(new Error('Video could not be loaded'));
+  });
+
+// The camera manager picks the device and keeps the stream alive; start()
+// rejects with a CameraError.
+export class WebcamSource implements GestureSource {
+  public readonly kind = 'webcam';
+
+  constructor(private video: HTMLVideoElement, private camera: CameraManager = cameraManager) {}
+
+  public get label(): string {
+    const { devices, activeDeviceId } = this.camera.getState();
+    return devices.find(d => d.deviceId === activeDeviceId)?.label ?? 'Webcam';
+  }
+
+  public start(): Promise<void> {
+    return this.camera.start(this.video);
+  }
+
+  public stop() {
+    this.camera.stop();
+  }
+
+  // Nothing to read while the camera is paused or being recovered
+  public read(now: number): DetectionResult | null {
+    return this.camera.getState().status === 'live' ? readVideo(this.video, now) : null;
+  }
+}
+
+export class VideoFileSource implements GestureSource {
+  public readonly kind = 'video';
+  public readonly label: string;
+  private objectUrl: string | null = null;
+
+  constructor(private video: HTMLVideoElement, private file: File | string) {
+    this.label = typeof file === 'string' ? file : file.name;
+  }
+
+  public async start() {
+    this.video.srcObject = null;
+    if (typeof this.file === 'string') {
+      this.video.src = this.file;
+    } else {
+      this.objectUrl = URL.createObjectURL(this.file);
+      this.video.src = this.objectUrl;
+    }
+    this.video.loop = true;
+    await waitForMetadata(this.video);
+  }
+
+  public stop() {
+    this.video.pause();
+    this.video.removeAttribute('src');
+    this.video.load();
+    this.video.loop = false;
+    if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+    this.objectUrl = null;
+  }
+
+  public read(now: number): DetectionResult | null {
+    return readVideo(this.video, now);
+  }
+}
+
+// --- Recorded streams ---
+
+// A frame carries either the raw recognizer output (re-interpreted with the
+// current vision settings on replay) or an already interpreted detection.
+export interface RecordedFrame {
+  t: number;
+  frame?: RecognitionFrame;
+  detection?: Pick<DetectionResult, 'gesture' | 'confidence'>;
+}
+
+export interface GestureRecording {
+  version: 1;
+  name?: string;
+  frames: RecordedFrame[];
+}
+
+export const parseRecording = (json: string): GestureRecording => {
+  const data = JSON.parse(json);
+  if (!data || data.version !== 1 || !Array.isArray(data.frames)) {
+    throw new Error('Not a gesture recording (expected { version: 1, frames: [...] })');
+  }
+  data.frames.forEach((f: RecordedFrame, i: number) => {
+    if (typeof f.t !== 'number') throw new Error(`Frame ${i} has no timestamp`);
+    if (!f.frame && !f.detection) throw new Error(`Frame ${i} has neither frame nor detection`);
+    if (f.detection && !Object.values(Gesture).includes(f.detection.gesture)) {
+      throw new Error(`Frame ${i} has unknown gesture "${f.detection.gesture}"`);
+    }
+  });
+  return data;
+};
+
+// Plays frames back against the loop's clock, relative to when start() ran.
+// Frames are emitted once each, so a slow loop skips rather than lags.
+export class ReplaySource implements GestureSource {
+  public readonly kind = 'replay';
+  public readonly label: string;
+  private startedAt: number | null = null;
+  private cursor = 0;
+  private lastElapsed = 0;
+
+  constructor(private recording: GestureRecording, private options: { loop?: boolean; now?: () => number } = {}) {
+    this.label = recording.name ?? 'Recording';
+  }
+
+  public async start() {
+    this.startedAt = (this.options.now ?? (() => performance.now()))();
+    this.cursor = 0;
+    this.lastElapsed = 0;
+  }
+
+  public stop() {
+    this.startedAt = null;
+  }
+
+  public read(now: number): DetectionResult | null {
+    const { frames } = this.recording;
+    if (this.startedAt === null || frames.length === 0) return null;
+
+    let elapsed = now - this.startedAt;
+    const duration = frames[frames.length - 1].t;
+    if (this.options.loop && duration > 0) {
+      elapsed %= duration;
+      if (elapsed < this.lastElapsed) this.cursor = 0;
+    }
+    this.lastElapsed = elapsed;
+
+    let latest: RecordedFrame | null = null;
+    while (this.cursor < frames.length && frames[this.cursor].t <= elapsed) {
+      latest = frames[this.cursor++];
+    }
+    if (!latest) return null;
+
+    if (latest.frame) return interpretFrame(latest.frame, visionService.getConfig(), visionService.getMode());
+    return { ...NO_HAND, ...latest.detection, source: null };
+  }
+}
+
+// --- Scripted source ---
+
+export interface ScriptStep {
+  gesture: Gesture;
+  durationMs: number;
+  confidence?: number;
+}
+
+// Holds each gesture for its duration, then stays on the last step. Meant for
+// tests and demos where the exact throw timing matters.
+export class ScriptedSource implements GestureSource {
+  public readonly kind = 'scripted';
+  public readonly label = 'Script';
+  private startedAt: number | null = null;
+
+  constructor(private steps: ScriptStep[], private now: () => number = () => performance.now()) {}
+
+  public async start() {
+    this.startedAt = this.now();
+  }
+
+  public stop() {
+    this.startedAt = null;
+  }
+
+  public read(now: number): DetectionResult | null {
+    if (this.startedAt === null || this.steps.length === 0) return null;
+
+    let remaining = now - this.startedAt;
+    let step = this.steps[this.steps.length - 1];
+    for (const s of this.steps) {
+      if (remaining < s.durationMs) {
+        step = s;
+        break;
+      }
+      remaining -= s.durationMs;
+    }
+    return { gesture: step.gesture, confidence: step.confidence ?? 1, source: null };
+  }
+}
+
+// --- Manual source ---
+
+// Keys for manual play; lizard and spock only count in RPSLS.
+export const MANUAL_KEYS: Record<string, Gesture> = {
+  r: Gesture.ROCK,
+  p: Gesture.PAPER,
+  s: Gesture.SCISSORS,
+  l: Gesture.LIZARD,
+  k: Gesture.SPOCK
+};
+
+// Keyboard and touch play for when there is no camera. The chosen gesture is
+// held like a steady hand until another is chosen or clear() is called, so it
+// passes through the same stabilizer and lock-in as a detected one.
+export class ManualSource implements GestureSource {
+  public readonly kind = 'manual';
+  public readonly label = 'Keyboard & touch';
+  private gesture = Gesture.NONE;
+  private active = false;
+
+  public async start() {
+    this.active = true;
+    this.gesture = Gesture.NONE;
+  }
+
+  public stop() {
+    this.active = false;
+    this.gesture = Gesture.NONE;
+  }
+
+  public choose(gesture: Gesture) {
+    this.gesture = gesture;
+  }
+
+  public clear() {
+    this.gesture = Gesture.NONE;
+  }
+
+  public getChoice(): Gesture {
+    return this.gesture;
+  }
+
+  public read(): DetectionResult | null {
+    if (!this.active) return null;
+    return this.gesture === Gesture.NONE ? NO_HAND : { gesture: this.gesture, confidence: 1, source: null };
+  }
+}
@@ -0,0 +1,146 @@
+import { Gesture } from '../types';
+
+// Smooths the raw per-frame detections before they reach the game. Frames
+// below the confidence floor count as NONE, the window votes on a majority,
+// and hysteresis keeps the output from flickering between two close
+// candidates: a challenger needs `enterRatio` of the window to take over,
+// while the current gesture holds on until it drops under `exitRatio`.
+
+export interface StabilizerOptions {
+  windowSize: number;
+  minConfidence: number;
+  enterRatio: number;
+  exitRatio: number;
+}
+
+export interface StabilizedGesture {
+  gesture: Gesture;
+  confidence: number;
+  raw: Gesture;
+  share: number;
+}
+
+export const DEFAULT_STABILIZER_OPTIONS: StabilizerOptions = {
+  windowSize: 8,
+  minConfidence: 0.5,
+  enterRatio: 0.6,
+  exitRatio: 0.35
+};
+
+interface Sample {
+  gesture: Gesture;
+  confidence: number;
+}
+
+export class GestureStabilizer {
+  private options: StabilizerOptions;
+  private window: Sample[] = [];
+  private current: Gesture = Gesture.NONE;
+
+  constructor(options: Partial<StabilizerOptions> = {}) {
+    this.options = { ...DEFAULT_STABILIZER_OPTIONS, ...options };
+  }
+
+  public configure(options: Partial<StabilizerOptions>) {
+    this.options = { ...this.options, ...options };
+    this.window = this.window.slice(-this.options.windowSize);
+  }
+
+  public reset() {
+    this.window = [];
+    this.current = Gesture.NONE;
+  }
+
+  public push(raw: { gesture: Gesture; confidence: number }): StabilizedGesture {
+    const accepted = raw.confidence >= this.options.minConfidence ? raw.gesture : Gesture.NONE;
+    this.window.push({ gesture: accepted, confidence: raw.confidence });
+    if (this.window.length > this.options.windowSize) this.window.shift();
+
+    const votes = new Map<Gesture, number>();
+    this.window.forEach(s => votes.set(s.gesture, (votes.get(s.gesture) ?? 0) + 1));
+
+    let leader = Gesture.NONE;
+    let leaderVotes = 0;
+    votes.forEach((count, gesture) => {
+      if (count > leaderVotes) {
+        leader = gesture;
+        leaderVotes = count;
+      }
+    });
+
+    const size = this.options.windowSize;
+    const currentShare = (votes.get(this.current) ?? 0) / size;
+    const leaderShare = leaderVotes / size;
+
+    if (leader !== this.current) {
+      if (leaderShare >= this.options.enterRatio) {
+        this.current = leader;
+      } else if (currentShare < this.options.exitRatio) {
+        this.current = Gesture.NONE;
+      }
+    }
+
+    const held = this.window.filter(s => s.gesture === this.current);
+    const confidence = held.length > 0
+      ? held.reduce((sum, s) => sum + s.confidence, 0) / held.length
+      : 0;
+
+    return {
+      gesture: this.current,
+      confidence: this.current === Gesture.NONE ? 0 : confidence,
+      raw: raw.gesture,
+      share: (votes.get(this.current) ?? 0) / size
+    };
+  }
+}
+
+// --- Lock-in window ---
+// Tracks the longest run of identical stabilized gestures while the round is
+// open. The played gesture is the one held for `requiredFrames` in a row;
+// without such a run the throw is unclear.
+
+export interface LockInState {
+  current: Gesture;
+  run: number;
+  best: Gesture;
+  bestRun: number;
+  frames: number;
+  handFrames: number;
+}
+
+export type LockInOutcome =
+  | { status: 'locked'; gesture: Gesture }
+  | { status: 'unclear' }
+  | { status: 'no_hand' };
+
+export const EMPTY_LOCK_IN: LockInState = {
+  current: Gesture.NONE,
+  run: 0,
+  best: Gesture.NONE,
+  bestRun: 0,
+  frames: 0,
+  handFrames: 0
+};
+
+export const pushLockIn = (state: LockInState, gesture: Gesture): LockInState => {
+  const run = gesture === state.current ? state.run + 1 : 1;
+  const isHand = gesture !== Gesture.NONE;
+  const beatsBest = isHand && run > state.bestRun;
+
+  return {
+    current: gesture,
+    run,
+    best: beatsBest ? gesture : state.best,
+    bestRun: beatsBest ? run : state.bestRun,
+    frames: state.frames + 1,
+    handFrames: state.handFrames + (isHand ? 1 : 0)
+  };
+};
+
+export const resolveLockIn = (state: LockInState, requiredFrames: number): LockInOutcome => {
+  if (state.handFrames === 0) return { status: 'no_hand' };
+  if (state.best !== Gesture.NONE && state.bestRun >= requiredFrames) {
+    return { status: 'locked', gesture: state.best };
+  }
+  return { status: 'unclear' };
+};
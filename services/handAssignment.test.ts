@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { Gesture } from '../types';
+import { assignHands } from './handAssignment';
+import { HandDetection } from './visionService';
+
+const hand = (centerX: number, handedness: HandDetection['handedness'], gesture = Gesture.ROCK, confidence = 0.9): HandDetection =>
+  ({ gesture, confidence, source: 'canned', handedness, centerX });
+
+describe('assignHands by screen half', () => {
+  // Raw frame: the left hand in the image is at x = 0.2
+  const rawLeft = hand(0.2, 'Right', Gesture.ROCK);
+  const rawRight = hand(0.8, 'Left', Gesture.PAPER);
+
+  it('puts Player 1 on the left of a mirrored preview', () => {
+    expect(assignHands([rawLeft, rawRight], 'screen-half', true)).toEqual({ p1: rawRight, p2: rawLeft });
+  });
+
+  it('follows the raw frame when the preview is not mirrored', () => {
+    expect(assignHands([rawLeft, rawRight], 'screen-half', false)).toEqual({ p1: rawLeft, p2: rawRight });
+  });
+
+  it('keeps the more confident hand when both are on one side', () => {
+    const weak = hand(0.1, null, Gesture.SCISSORS, 0.4);
+    expect(assignHands([weak, rawLeft], 'screen-half', false)).toEqual({ p1: rawLeft, p2: null });
+  });
+});
+
+describe('assignHands by handedness', () => {
+  it('gives the left hand to Player 1 wherever it is', () => {
+    const left = hand(0.2, 'Left');
+    const right = hand(0.8, 'Right');
+    expect(assignHands([right, left], 'handedness')).toEqual({ p1: left, p2: right });
+    expect(assignHands([hand(0.5, null)], 'handedness')).toEqual({ p1: null, p2: null });
+  });
+});
@@ -0,0 +1,36 @@
+import { Seat } from '../types';
+import { HandDetection } from './visionService';
+
+// Decides which detected hand belongs to which local player.
+// 'screen-half': Player 1 stands on the left of the (mirrored) preview.
+// 'handedness': Player 1 throws with their left hand, Player 2 with their right.
+export type AssignmentStrategy = 'screen-half' | 'handedness';
+
+export const ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = ['screen-half', 'handedness'];
+
+export type SeatHands = Record<Seat, HandDetection | null>;
+
+export const assignHands = (
+  hands: HandDetection[],
+  strategy: AssignmentStrategy = 'screen-half',
+  mirrored = true
+): SeatHands => {
+  const seats: SeatHands = { p1: null, p2: null };
+
+  if (strategy === 'handedness') {
+    // MediaPipe reports handedness as seen in a mirrored selfie image.
+    hands.forEach(h => {
+      const seat: Seat | null = h.handedness === 'Left' ? 'p1' : h.handedness === 'Right' ? 'p2' : null;
+      if (seat && (!seats[seat] || h.confidence > seats[seat]!.confidence)) seats[seat] = h;
+    });
+    return seats;
+  }
+
+  // In a mirrored preview the raw frame's right half shows on the left.
+  const onLeft = (h: HandDetection) => (mirrored ? h.centerX >= 0.5 : h.centerX < 0.5);
+  hands.forEach(h => {
+    const seat: Seat = onLeft(h) ? 'p1' : 'p2';
+    if (!seats[seat] || h.confidence > seats[seat]!.confidence) seats[seat] = h;
+  });
+  return seats;
+};
@@ -0,0 +1,80 @@
+import { Gesture } from '../types';
+
+// Geometry helpers over MediaPipe's 21-point hand model. Kept free of the
+// tasks-vision runtime so they can run anywhere a list of points is available.
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export const HAND = {
+  WRIST: 0,
+  THUMB_CMC: 1, THUMB_MCP: 2, THUMB_IP: 3, THUMB_TIP: 4,
+  INDEX_MCP: 5, INDEX_PIP: 6, INDEX_DIP: 7, INDEX_TIP: 8,
+  MIDDLE_MCP: 9, MIDDLE_PIP: 10, MIDDLE_DIP: 11, MIDDLE_TIP: 12,
+  RING_MCP: 13, RING_PIP: 14, RING_DIP: 15, RING_TIP: 16,
+  PINKY_MCP: 17, PINKY_PIP: 18, PINKY_DIP: 19, PINKY_TIP: 20
+} as const;
+
+// Bones of the hand model as landmark index pairs, for drawing skeletons.
+export const HAND_CONNECTIONS: [number, number][] = [
+  [HAND.WRIST, HAND.THUMB_CMC], [HAND.THUMB_CMC, HAND.THUMB_MCP], [HAND.THUMB_MCP, HAND.THUMB_IP], [HAND.THUMB_IP, HAND.THUMB_TIP],
+  [HAND.WRIST, HAND.INDEX_MCP], [HAND.INDEX_MCP, HAND.INDEX_PIP], [HAND.INDEX_PIP, HAND.INDEX_DIP], [HAND.INDEX_DIP, HAND.INDEX_TIP],
+  [HAND.MIDDLE_MCP, HAND.MIDDLE_PIP], [HAND.MIDDLE_PIP, HAND.MIDDLE_DIP], [HAND.MIDDLE_DIP, HAND.MIDDLE_TIP],
+  [HAND.RING_MCP, HAND.RING_PIP], [HAND.RING_PIP, HAND.RING_DIP], [HAND.RING_DIP, HAND.RING_TIP],
+  [HAND.WRIST, HAND.PINKY_MCP], [HAND.PINKY_MCP, HAND.PINKY_PIP], [HAND.PINKY_PIP, HAND.PINKY_DIP], [HAND.PINKY_DIP, HAND.PINKY_TIP],
+  [HAND.INDEX_MCP, HAND.MIDDLE_MCP], [HAND.MIDDLE_MCP, HAND.RING_MCP], [HAND.RING_MCP, HAND.PINKY_MCP]
+];
+
+export const distance = (a: Point3, b: Point3): number =>
+  Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+// Knuckle-to-knuckle width; used to make every threshold scale-invariant.
+export const palmWidth = (lm: Point3[]): number =>
+  Math.max(distance(lm[HAND.INDEX_MCP], lm[HAND.PINKY_MCP]), 1e-6);
+
+const FINGERS = [
+  [HAND.INDEX_PIP, HAND.INDEX_TIP],
+  [HAND.MIDDLE_PIP, HAND.MIDDLE_TIP],
+  [HAND.RING_PIP, HAND.RING_TIP],
+  [HAND.PINKY_PIP, HAND.PINKY_TIP]
+] as const;
+
+// A finger counts as extended when its tip sits clearly further from the
+// wrist than its middle joint.
+export const isFingerExtended = (lm: Point3[], pip: number, tip: number): boolean =>
+  distance(lm[HAND.WRIST], lm[tip]) > distance(lm[HAND.WRIST], lm[pip]) * 1.1;
+
+// Vulcan salute: all four fingers out, split between middle and ring while
+// each pair stays together.
+export const isSpock = (lm: Point3[]): boolean => {
+  if (!FINGERS.every(([pip, tip]) => isFingerExtended(lm, pip, tip))) return false;
+
+  const width = palmWidth(lm);
+  const split = distance(lm[HAND.MIDDLE_TIP], lm[HAND.RING_TIP]);
+  const leftPair = distance(lm[HAND.INDEX_TIP], lm[HAND.MIDDLE_TIP]);
+  const rightPair = distance(lm[HAND.RING_TIP], lm[HAND.PINKY_TIP]);
+
+  return split > width * 0.45 && leftPair < split * 0.7 && rightPair < split * 0.7;
+};
+
+// Sock-puppet lizard: fingertips pinched onto the thumb tip, but held out
+// away from the palm (which is what separates it from a fist).
+export const isLizard = (lm: Point3[]): boolean => {
+  const width = palmWidth(lm);
+  const thumb = lm[HAND.THUMB_TIP];
+  const pinched = [HAND.INDEX_TIP, HAND.MIDDLE_TIP].every(tip => distance(thumb, lm[tip]) < width * 0.5);
+  const reachedOut = distance(lm[HAND.WRIST], lm[HAND.INDEX_TIP]) > distance(lm[HAND.WRIST], lm[HAND.INDEX_MCP]) * 1.2;
+
+  return pinched && reachedOut;
+};
+
+// Shapes MediaPipe's canned categories have no label for.
+export const detectExtendedShape = (lm: Point3[] | undefined): Gesture => {
+  if (!lm || lm.length < 21) return Gesture.NONE;
+  if (isSpock(lm)) return Gesture.SPOCK;
+  if (isLizard(lm)) return Gesture.LIZARD;
+  return Gesture.NONE;
+};
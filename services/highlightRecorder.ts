@@ -0,0 +1,325 @@
+import { Message, Seat } from '../types';
+
+// Records every round as a short WebM clip for the highlights reel. Each frame
+// is composited onto an offscreen canvas (the 3D scene, the camera feed as an
+// inset and a score/result overlay) and captured with MediaRecorder.
+// A clip runs from the countdown until shortly after the reveal. Clips only
+// live in memory; the oldest are dropped once the limits are reached.
+
+export interface HighlightOverlay {
+  players: Record<Seat, string>;
+  score: Record<Seat, number>;
+  headline: string | null;
+  detail: string | null;
+}
+
+export interface HighlightLayers {
+  // Camera or video feed; null when playing without one
+  video: HTMLVideoElement | null;
+  // Flip the camera inset like the player's preview
+  mirrored: boolean;
+  overlay: HighlightOverlay;
+}
+
+export interface Highlight {
+  id: number;
+  round: number;
+  title: Message;
+  winner: Seat | null;
+  createdAt: number;
+  durationMs: number;
+  blob: Blob;
+  url: string;
+}
+
+export interface HighlightLimits {
+  maxClips: number;
+  maxTotalBytes: number;
+  // A take still running after this long is abandoned, e.g. a stalled round
+  maxClipMs: number;
+  // How long to keep recording after the reveal
+  tailMs: number;
+}
+
+export interface HighlightState {
+  enabled: boolean;
+  recording: boolean;
+  clips: Highlight[];
+}
+
+const DEFAULT_LIMITS: HighlightLimits = {
+  maxClips: 12,
+  maxTotalBytes: 64 * 1024 * 1024,
+  maxClipMs: 20_000,
+  tailMs: 1500
+};
+
+const WIDTH = 960;
+const HEIGHT = 540;
+const FPS = 30;
+const BITS_PER_SECOND = 2_500_000;
+// Chunks are flushed this often so a stopped take has little left to encode
+const TIMESLICE_MS = 1000;
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const pickMimeType = (isTypeSupported: (type: string) => boolean): string | null =>
+  MIME_TYPES.find(isTypeSupported) ?? null;
+
+interface Take {
+  round: number;
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  // Set once the round is revealed; the take is saved after the tail
+  outcome: { title: Message; winner: Seat | null } | null;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Scales `source` to fill the frame, cropping the overflow like CSS object-fit: cover.
+const drawCover = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, width: number, height: number) => {
+  if (width === 0 || height === 0) return;
+  const scale = Math.max(WIDTH / width, HEIGHT / height);
+  ctx.drawImage(source, (WIDTH - width * scale) / 2, (HEIGHT - height * scale) / 2, width * scale, height * scale);
+};
+
+export class HighlightRecorder {
+  private limits: HighlightLimits;
+  private canvas: HTMLCanvasElement | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private stream: MediaStream | null = null;
+  private take: Take | null = null;
+  // Stopped takes whose last chunk is still being encoded
+  private stopping = new Set<Take>();
+  private layers: HighlightLayers | null = null;
+  private nextId = 1;
+  private state: HighlightState = { enabled: true, recording: false, clips: [] };
+  private listeners = new Set<() => void>();
+
+  constructor(limits: Partial<HighlightLimits> = {}, private now: () => number = () => performance.now()) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  public static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined'
+      && typeof HTMLCanvasElement !== 'undefined'
+      && 'captureStream' in HTMLCanvasElement.prototype
+      && pickMimeType(type => MediaRecorder.isTypeSupported(type)) !== null;
+  }
+
+  public getState = (): HighlightState => this.state;
+
+  public getLimits(): HighlightLimits {
+    return this.limits;
+  }
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public setEnabled(enabled: boolean) {
+    if (!enabled) this.cancel();
+    this.setState({ enabled });
+  }
+
+  // What to draw besides the scene; cheap, so it can be called on every change.
+  public setLayers(layers: HighlightLayers) {
+    this.layers = layers;
+  }
+
+  // Starts a take for the round; repeated calls for the same round are ignored.
+  public start(round: number) {
+    if (!this.state.enabled || !HighlightRecorder.isSupported()) return;
+    if (this.take?.round === round) return;
+    // A quick next round cuts the previous tail short rather than losing it
+    if (this.take?.outcome) this.stopTake(this.take);
+    else this.cancel();
+
+    const stream = this.ensureStream();
+    const mimeType = pickMimeType(type => MediaRecorder.isTypeSupported(type))!;
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: BITS_PER_SECOND });
+    const take: Take = {
+      round,
+      recorder,
+      chunks: [],
+      startedAt: this.now(),
+      outcome: null,
+      timer: setTimeout(() => {
+        console.warn(`Highlight for round ${round} ran past ${this.limits.maxClipMs} ms; discarding it`);
+        this.cancel();
+      }, this.limits.maxClipMs)
+    };
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) take.chunks.push(event.data);
+    };
+    recorder.start(TIMESLICE_MS);
+    this.take = take;
+    this.setState({ recording: true });
+  }
+
+  // Keeps recording for the tail so the reveal makes it in, then saves the clip.
+  public finish(title: Message, winner: Seat | null) {
+    const take = this.take;
+    if (!take || take.outcome) return;
+    take.outcome = { title, winner };
+    clearTimeout(take.timer);
+    take.timer = setTimeout(() => this.stopTake(take), this.limits.tailMs);
+  }
+
+  // Drops the take in progress without saving it.
+  public cancel() {
+    const take = this.take;
+    if (!take) return;
+    this.take = null;
+    clearTimeout(take.timer);
+    take.recorder.ondataavailable = null;
+    take.recorder.onstop = null;
+    if (take.recorder.state !== 'inactive') take.recorder.stop();
+    this.setState({ recording: false });
+  }
+
+  // Called right after the scene renders, while its WebGL canvas still holds the frame.
+  public drawFrame(scene: HTMLCanvasElement) {
+    if (!this.take || !this.ctx) return;
+    const ctx = this.ctx;
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    drawCover(ctx, scene, scene.width, scene.height);
+    if (this.layers) {
+      this.drawCamera(ctx, this.layers.video, this.layers.mirrored);
+      this.drawOverlay(ctx, this.layers.overlay);
+    }
+  }
+
+  public remove(id: number) {
+    const clip = this.state.clips.find(c => c.id === id);
+    if (!clip) return;
+    URL.revokeObjectURL(clip.url);
+    this.setState({ clips: this.state.clips.filter(c => c.id !== id) });
+  }
+
+  public clear() {
+    this.state.clips.forEach(clip => URL.revokeObjectURL(clip.url));
+    this.setState({ clips: [] });
+  }
+
+  public dispose() {
+    this.cancel();
+    // Their clips would outlive the recorder, with object URLs nobody revokes
+    this.stopping.forEach(take => {
+      take.recorder.ondataavailable = null;
+      take.recorder.onstop = null;
+    });
+    this.stopping.clear();
+    this.clear();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.canvas = null;
+    this.ctx = null;
+  }
+
+  private stopTake(take: Take) {
+    clearTimeout(take.timer);
+    const { title, winner } = take.outcome!;
+    this.stopping.add(take);
+    take.recorder.onstop = () => {
+      this.stopping.delete(take);
+      this.save(take, title, winner);
+    };
+    take.recorder.stop();
+    if (this.take === take) {
+      this.take = null;
+      this.setState({ recording: false });
+    }
+  }
+
+  private ensureStream(): MediaStream {
+    if (!this.canvas || !this.stream) {
+      this.canvas = document.createElement('canvas');
+      this.canvas.width = WIDTH;
+      this.canvas.height = HEIGHT;
+      this.ctx = this.canvas.getContext('2d');
+      this.stream = this.canvas.captureStream(FPS);
+    }
+    return this.stream;
+  }
+
+  private drawCamera(ctx: CanvasRenderingContext2D, video: HTMLVideoElement | null, mirrored: boolean) {
+    if (!video || video.readyState < 2 || !video.videoWidth) return;
+    const width = WIDTH * 0.28;
+    const height = (width * video.videoHeight) / video.videoWidth;
+    const x = WIDTH - width - 16;
+    const y = HEIGHT - height - 16;
+    ctx.save();
+    if (mirrored) {
+      ctx.translate(x + width, y);
+      ctx.scale(-1, 1);
+    } else {
+      ctx.translate(x, y);
+    }
+    ctx.drawImage(video, 0, 0, width, height);
+    ctx.restore();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, width, height);
+  }
+
+  private drawOverlay(ctx: CanvasRenderingContext2D, { players, score, headline, detail }: HighlightOverlay) {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    ctx.shadowBlur = 8;
+
+    ctx.font = '600 22px system-ui, sans-serif';
+    ctx.fillStyle = '#93c5fd';
+    ctx.fillText(`${players.p1}  ${score.p1}`, WIDTH / 2 - 90, 36);
+    ctx.fillStyle = '#fca5a5';
+    ctx.fillText(`${score.p2}  ${players.p2}`, WIDTH / 2 + 90, 36);
+    ctx.fillStyle = '#9ca3af';
+    ctx.fillText('–', WIDTH / 2, 36);
+
+    if (headline) {
+      ctx.font = '900 64px system-ui, sans-serif';
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(headline, WIDTH / 2, HEIGHT / 2 - 20);
+    }
+    if (detail) {
+      ctx.font = '600 28px system-ui, sans-serif';
+      ctx.fillStyle = '#bfdbfe';
+      ctx.fillText(detail, WIDTH / 2, HEIGHT / 2 + 36);
+    }
+    ctx.shadowBlur = 0;
+  }
+
+  private save(take: Take, title: Message, winner: Seat | null) {
+    const blob = new Blob(take.chunks, { type: take.recorder.mimeType || 'video/webm' });
+    if (blob.size === 0) return;
+    const clip: Highlight = {
+      id: this.nextId++,
+      round: take.round,
+      title,
+      winner,
+      createdAt: Date.now(),
+      durationMs: Math.round(this.now() - take.startedAt),
+      blob,
+      url: URL.createObjectURL(blob)
+    };
+
+    // Oldest clips go first once over either limit
+    const clips = [...this.state.clips, clip];
+    let total = clips.reduce((sum, c) => sum + c.blob.size, 0);
+    while (clips.length > 0 && (clips.length > this.limits.maxClips || total > this.limits.maxTotalBytes)) {
+      const dropped = clips.shift()!;
+      total -= dropped.blob.size;
+      URL.revokeObjectURL(dropped.url);
+    }
+    this.setState({ clips });
+  }
+
+  private setState(changes: Partial<HighlightState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
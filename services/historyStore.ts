@@ -0,0 +1,156 @@
+import { Difficulty, GameMode, GameResult, Gesture, OpponentType, Score, Seat } from '../types';
+import { RoundTimeline } from './throwTimeline';
+
+// Local match history in IndexedDB. Every resolved round is stored on its own
+// so stats can be recomputed however the dashboard needs them; matches hold
+// the per-match summary. All gestures and winners are from p1's point of view
+// (p1 is always the player at this camera).
+
+export const HISTORY_DB_NAME = 'rps-history';
+export const HISTORY_SCHEMA_VERSION = 1;
+
+const ROUNDS = 'rounds';
+const MATCHES = 'matches';
+
+export interface StoredRound {
+  id?: number;
+  matchId: number;
+  sessionId: string;
+  timestamp: number;
+  round: number;
+  mode: GameMode;
+  opponent: OpponentType;
+  playerGesture: Gesture;
+  opponentGesture: Gesture;
+  confidence: number;
+  winner: GameResult['winner'];
+  // Missing on rounds saved before timing checks existed
+  timing?: GameResult['timing'];
+  timeline?: RoundTimeline;
+}
+
+export interface StoredMatch {
+  id?: number;
+  sessionId: string;
+  startedAt: number;
+  endedAt: number | null;
+  mode: GameMode;
+  opponent: OpponentType;
+  difficulty: Difficulty;
+  score: Score;
+  // null while in progress, when abandoned or when the match ended in a draw
+  winner: Seat | null;
+  abandoned: boolean;
+}
+
+// Each entry upgrades the database from the previous version. Add a new entry
+// (and bump HISTORY_SCHEMA_VERSION) instead of editing an existing one.
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: db => {
+    const rounds = db.createObjectStore(ROUNDS, { keyPath: 'id', autoIncrement: true });
+    rounds.createIndex('matchId', 'matchId');
+    rounds.createIndex('sessionId', 'sessionId');
+    rounds.createIndex('timestamp', 'timestamp');
+    const matches = db.createObjectStore(MATCHES, { keyPath: 'id', autoIncrement: true });
+    matches.createIndex('sessionId', 'sessionId');
+  }
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+export class HistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private name: string = HISTORY_DB_NAME, private factory?: IDBFactory) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const factory = this.factory ?? globalThis.indexedDB;
+        if (!factory) {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+        const req = factory.open(this.name, HISTORY_SCHEMA_VERSION);
+        req.onupgradeneeded = event => {
+          for (let v = event.oldVersion + 1; v <= HISTORY_SCHEMA_VERSION; v++) {
+            MIGRATIONS[v](req.result, req.transaction!);
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+        req.onblocked = () => reject(new Error('History database is open in another tab with an older version'));
+      });
+      // Let a later call retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  public async startMatch(match: Omit<StoredMatch, 'id'>): Promise<number> {
+    const db = await this.open();
+    const tx = db.transaction(MATCHES, 'readwrite');
+    const id = await request(tx.objectStore(MATCHES).add(match));
+    await done(tx);
+    return id as number;
+  }
+
+  public async updateMatch(id: number, changes: Partial<Omit<StoredMatch, 'id'>>): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(MATCHES, 'readwrite');
+    const store = tx.objectStore(MATCHES);
+    const existing = await request<StoredMatch | undefined>(store.get(id));
+    if (existing) store.put({ ...existing, ...changes });
+    await done(tx);
+  }
+
+  public async addRound(round: Omit<StoredRound, 'id'>): Promise<number> {
+    const db = await this.open();
+    const tx = db.transaction(ROUNDS, 'readwrite');
+    const id = await request(tx.objectStore(ROUNDS).add(round));
+    await done(tx);
+    return id as number;
+  }
+
+  public async updateRound(id: number, changes: Partial<Omit<StoredRound, 'id'>>): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(ROUNDS, 'readwrite');
+    const store = tx.objectStore(ROUNDS);
+    const existing = await request<StoredRound | undefined>(store.get(id));
+    if (existing) store.put({ ...existing, ...changes });
+    await done(tx);
+  }
+
+  public async getRounds(): Promise<StoredRound[]> {
+    const db = await this.open();
+    return request<StoredRound[]>(db.transaction(ROUNDS).objectStore(ROUNDS).index('timestamp').getAll());
+  }
+
+  public async getMatches(): Promise<StoredMatch[]> {
+    const db = await this.open();
+    return request<StoredMatch[]>(db.transaction(MATCHES).objectStore(MATCHES).getAll());
+  }
+
+  public async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([ROUNDS, MATCHES], 'readwrite');
+    tx.objectStore(ROUNDS).clear();
+    tx.objectStore(MATCHES).clear();
+    await done(tx);
+  }
+}
+
+export const historyStore = new HistoryStore();
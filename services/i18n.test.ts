@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { LOCALES, Locale, MessageValue, detectLocale, formatMessage } from './i18n';
+import { en } from './locales/en';
+
+const placeholders = (value: MessageValue): string[] => {
+  const templates = typeof value === 'string' ? [value] : Object.values(value);
+  const names = new Set<string>();
+  templates.forEach(template => template?.match(/\{(\w+)\}/g)?.forEach(match => names.add(match)));
+  return [...names].sort();
+};
+
+const referenceKeys = Object.keys(en).sort();
+
+describe.each(Object.keys(LOCALES) as Locale[])('%s catalog', locale => {
+  const catalog: Record<string, MessageValue | undefined> = LOCALES[locale].catalog;
+
+  it('has exactly the reference keys', () => {
+    const keys = Object.keys(catalog);
+    expect(referenceKeys.filter(key => !keys.includes(key)), 'missing keys').toEqual([]);
+    expect(keys.filter(key => !(key in en)), 'keys not in en').toEqual([]);
+  });
+
+  it('has a non-empty text for every key', () => {
+    const empty = referenceKeys.filter(key => {
+      const value = catalog[key];
+      if (value === undefined) return false;
+      return typeof value === 'string' ? value.trim() === '' : !value.other?.trim();
+    });
+    expect(empty).toEqual([]);
+  });
+
+  // A locale may pluralize where English doesn't, but must fill the same slots
+  it('uses the same placeholders as en', () => {
+    const mismatched = referenceKeys.filter(key => {
+      const value = catalog[key];
+      const reference = en[key as keyof typeof en] as MessageValue;
+      if (value === undefined) return false;
+      return placeholders(value).join() !== placeholders(reference).join();
+    });
+    expect(mismatched).toEqual([]);
+  });
+});
+
+describe('formatMessage', () => {
+  it('fills parameters, including nested messages', () => {
+    expect(formatMessage('en', { key: 'result.seatWins', params: { seat: { key: 'seat.LOCAL.p2' } } })).toBe('Player 2 Wins!');
+  });
+
+  it('picks the plural form from count', () => {
+    const message = (count: number) => formatMessage('en', { key: 'bot.frequency', params: { gesture: { key: 'gesture.ROCK' }, count } });
+    expect(message(1)).toBe("You've thrown Rock 1 time");
+    expect(message(3)).toBe("You've thrown Rock 3 times");
+  });
+
+  it('shows an unknown key as-is', () => {
+    expect(formatMessage('es', { key: 'no.such.key' as keyof typeof en })).toBe('no.such.key');
+  });
+});
+
+describe('detectLocale', () => {
+  it('takes the first supported browser language', () => {
+    expect(detectLocale(['fr-FR', 'es-MX', 'en'])).toBe('es');
+    expect(detectLocale(['de'])).toBe('en');
+  });
+});
@@ -0,0 +1,101 @@
+import type { Message, MessageParam, MessageParams } from '../types';
+import { en } from './locales/en';
+import { es } from './locales/es';
+
+// Message catalogs and the player's language. Services describe text as a
+// Message (catalog key plus parameters) and the UI renders it in the current
+// locale, so switching language also re-renders results already on screen.
+
+// Plural entries pick their form from the `count` parameter.
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type MessageValue = string | PluralForms;
+
+// English is the reference catalog: every other locale must define exactly its
+// keys, so a missing or stale translation fails the type-check.
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, MessageValue>;
+
+export type Locale = 'en' | 'es';
+
+export const LOCALES: Record<Locale, { label: string; catalog: Catalog }> = {
+  en: { label: 'English', catalog: en },
+  es: { label: 'Español', catalog: es }
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const STORAGE_KEY = 'rps-locale';
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+// First supported language among the browser's preferences, e.g. "es-MX" → es.
+export const detectLocale = (languages: readonly string[] = globalThis.navigator?.languages ?? []): Locale => {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+const renderParam = (locale: Locale, value: MessageParam): string => {
+  if (typeof value === 'number') return new Intl.NumberFormat(locale).format(value);
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    return new Intl.ListFormat(locale, { type: 'conjunction' }).format(value.map(v => formatMessage(locale, v)));
+  }
+  return formatMessage(locale, value);
+};
+
+// Fills {name} placeholders from the message's params. Unknown keys render as
+// the key itself rather than throwing, so a bad key is visible but harmless.
+export const formatMessage = (locale: Locale, { key, params = {} }: Message): string => {
+  const value: MessageValue | undefined = LOCALES[locale].catalog[key] ?? en[key];
+  if (value === undefined) return key;
+  const template = typeof value === 'string'
+    ? value
+    : value[new Intl.PluralRules(locale).select(Number(params.count ?? 0))] ?? value.other;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] === undefined ? match : renderParam(locale, params[name]));
+};
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string =>
+  formatMessage(locale, { key, params });
+
+class I18nStore {
+  private locale: Locale;
+  private listeners = new Set<() => void>();
+
+  constructor(private storage: Storage | undefined = globalThis.localStorage) {
+    const stored = this.storage?.getItem(STORAGE_KEY);
+    this.locale = isLocale(stored) ? stored : detectLocale();
+    this.applyToDocument();
+  }
+
+  public getLocale = (): Locale => this.locale;
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public setLocale(locale: Locale) {
+    if (locale === this.locale) return;
+    this.locale = locale;
+    try {
+      this.storage?.setItem(STORAGE_KEY, locale);
+    } catch (err) {
+      console.warn('Could not save language:', err);
+    }
+    this.applyToDocument();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Screen readers pick their voice from the document language
+  private applyToDocument() {
+    if (typeof document !== 'undefined') document.documentElement.lang = this.locale;
+  }
+}
+
+export const i18n = new I18nStore();
@@ -0,0 +1,77 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { Gesture } from '../types';
+import { Point3 } from './handGeometry';
+import { Handedness, classifyLandmarks, palmFacing } from './landmarkClassifier';
+
+// 21-point hands in MediaPipe's normalized image coordinates (x, y in 0..1,
+// z relative to the wrist), one pose per file.
+interface LandmarkFixture {
+  name: string;
+  handedness: Handedness;
+  landmarks: Point3[];
+}
+
+const fixture = (name: string): LandmarkFixture =>
+  JSON.parse(readFileSync(new URL(`./__fixtures__/landmarks/${name}.json`, import.meta.url), 'utf8'));
+
+const classify = (name: string) => {
+  const { landmarks, handedness } = fixture(name);
+  return classifyLandmarks(landmarks, handedness)!;
+};
+
+describe('classifyLandmarks', () => {
+  it.each([
+    ['rock', Gesture.ROCK, 0.9],
+    ['paper', Gesture.PAPER, 0.9],
+    ['paper_small_far', Gesture.PAPER, 0.9],
+    ['scissors', Gesture.SCISSORS, 0.9],
+    ['scissors_tilted', Gesture.SCISSORS, 0.8]
+  ])('reads %s as %s', (name, gesture, minConfidence) => {
+    const result = classify(name);
+    expect(result.gesture).toBe(gesture);
+    expect(result.confidence).toBeGreaterThanOrEqual(minConfidence);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('takes a loose fist for rock, with low confidence', () => {
+    const result = classify('rock_loose');
+    expect(result.gesture).toBe(Gesture.ROCK);
+    expect(result.confidence).toBeLessThan(0.5);
+    expect(result.diagnostics.fingers.slice(1).every(f => f.state === 'partial')).toBe(true);
+  });
+
+  it.each(['ambiguous_point', 'ambiguous_half_open'])('refuses to guess on %s', name => {
+    expect(classify(name)).toMatchObject({ gesture: Gesture.NONE, confidence: 0 });
+  });
+
+  it('reports per-finger diagnostics', () => {
+    const { diagnostics } = classify('scissors');
+    expect(diagnostics.fingers.map(f => f.finger)).toEqual(['thumb', 'index', 'middle', 'ring', 'pinky']);
+    expect(diagnostics.fingers.map(f => f.state)).toEqual(['partial', 'extended', 'extended', 'curled', 'curled']);
+    expect(diagnostics.handedness).toBe('Right');
+  });
+
+  it('only returns allowed gestures', () => {
+    const { landmarks } = fixture('scissors');
+    const result = classifyLandmarks(landmarks, 'Right', {
+      allowed: [Gesture.ROCK, Gesture.PAPER],
+      extendedBelow: 60,
+      curledAbove: 100
+    });
+    expect(result?.gesture).toBe(Gesture.NONE);
+  });
+
+  it('needs all 21 landmarks', () => {
+    expect(classifyLandmarks(fixture('rock').landmarks.slice(0, 20))).toBeNull();
+    expect(classifyLandmarks(undefined)).toBeNull();
+  });
+});
+
+describe('palmFacing', () => {
+  it('uses handedness to tell the palm from the back of the hand', () => {
+    const { landmarks } = fixture('paper');
+    expect(palmFacing(landmarks, 'Right')).toBe('camera');
+    expect(palmFacing(landmarks, 'Left')).toBe('away');
+  });
+});
@@ -0,0 +1,147 @@
+import { Gesture } from '../types';
+import { HAND, Point3, detectExtendedShape, distance, palmWidth } from './handGeometry';
+
+// Rule-based classifier that reads the 21 hand landmarks directly instead of
+// trusting MediaPipe's canned category. Each finger gets a curl angle (sum of
+// the bends at its three joints); the gesture is then decided from which
+// fingers are out, so a tilted scissors or a loose fist still resolves.
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+export type Handedness = 'Left' | 'Right';
+export type FingerState = 'extended' | 'curled' | 'partial';
+
+export interface FingerDiagnostics {
+  finger: FingerName;
+  curl: number; // degrees, 0 = straight
+  state: FingerState;
+}
+
+export interface LandmarkDiagnostics {
+  fingers: FingerDiagnostics[];
+  palmFacing: 'camera' | 'away';
+  handedness: Handedness | null;
+}
+
+export interface LandmarkClassification {
+  gesture: Gesture;
+  confidence: number;
+  diagnostics: LandmarkDiagnostics;
+}
+
+export interface LandmarkClassifierOptions {
+  // Gestures the classifier may return; anything else collapses to NONE.
+  allowed: Gesture[];
+  extendedBelow: number;
+  curledAbove: number;
+}
+
+export const DEFAULT_CLASSIFIER_OPTIONS: LandmarkClassifierOptions = {
+  allowed: [Gesture.ROCK, Gesture.PAPER, Gesture.SCISSORS],
+  extendedBelow: 60,
+  curledAbove: 100
+};
+
+const FINGER_CHAINS: Record<FingerName, number[]> = {
+  thumb: [HAND.WRIST, HAND.THUMB_CMC, HAND.THUMB_MCP, HAND.THUMB_IP, HAND.THUMB_TIP],
+  index: [HAND.WRIST, HAND.INDEX_MCP, HAND.INDEX_PIP, HAND.INDEX_DIP, HAND.INDEX_TIP],
+  middle: [HAND.WRIST, HAND.MIDDLE_MCP, HAND.MIDDLE_PIP, HAND.MIDDLE_DIP, HAND.MIDDLE_TIP],
+  ring: [HAND.WRIST, HAND.RING_MCP, HAND.RING_PIP, HAND.RING_DIP, HAND.RING_TIP],
+  pinky: [HAND.WRIST, HAND.PINKY_MCP, HAND.PINKY_PIP, HAND.PINKY_DIP, HAND.PINKY_TIP]
+};
+
+const sub = (a: Point3, b: Point3): Point3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+// Angle in degrees between two segment directions (0 when collinear).
+export const bendAngle = (a: Point3, b: Point3, c: Point3): number => {
+  const u = sub(b, a);
+  const v = sub(c, b);
+  const lu = Math.hypot(u.x, u.y, u.z);
+  const lv = Math.hypot(v.x, v.y, v.z);
+  if (lu === 0 || lv === 0) return 0;
+  const cos = (u.x * v.x + u.y * v.y + u.z * v.z) / (lu * lv);
+  return (Math.acos(Math.min(1, Math.max(-1, cos))) * 180) / Math.PI;
+};
+
+export const fingerCurl = (lm: Point3[], finger: FingerName): number => {
+  const chain = FINGER_CHAINS[finger].map(i => lm[i]);
+  // Skip the wrist->CMC bend for the thumb: it reflects thumb abduction, not curl.
+  const start = finger === 'thumb' ? 1 : 0;
+  let total = 0;
+  for (let i = start; i < chain.length - 2; i++) {
+    total += bendAngle(chain[i], chain[i + 1], chain[i + 2]);
+  }
+  return total;
+};
+
+const fingerState = (curl: number, options: LandmarkClassifierOptions): FingerState => {
+  if (curl < options.extendedBelow) return 'extended';
+  if (curl > options.curledAbove) return 'curled';
+  return 'partial';
+};
+
+// The palm normal flips sign between hands, so handedness is needed to tell
+// a palm facing the camera from the back of the hand.
+export const palmFacing = (lm: Point3[], handedness: Handedness | null): 'camera' | 'away' => {
+  const a = sub(lm[HAND.INDEX_MCP], lm[HAND.WRIST]);
+  const b = sub(lm[HAND.PINKY_MCP], lm[HAND.WRIST]);
+  const normalZ = a.x * b.y - a.y * b.x;
+  const facing = handedness === 'Left' ? normalZ < 0 : normalZ > 0;
+  return facing ? 'camera' : 'away';
+};
+
+// Maps how far a curl value sits past its threshold onto 0..1.
+const margin = (curl: number, state: FingerState, options: LandmarkClassifierOptions): number => {
+  if (state === 'extended') return Math.min(1, (options.extendedBelow - curl) / options.extendedBelow + 0.5);
+  if (state === 'curled') return Math.min(1, (curl - options.curledAbove) / 80 + 0.5);
+  return 0.25;
+};
+
+export const classifyLandmarks = (
+  lm: Point3[] | undefined,
+  handedness: Handedness | null = null,
+  options: LandmarkClassifierOptions = DEFAULT_CLASSIFIER_OPTIONS
+): LandmarkClassification | null => {
+  if (!lm || lm.length < 21) return null;
+
+  const fingers = (Object.keys(FINGER_CHAINS) as FingerName[]).map(finger => {
+    const curl = fingerCurl(lm, finger);
+    return { finger, curl, state: fingerState(curl, options) };
+  });
+  const diagnostics: LandmarkDiagnostics = {
+    fingers,
+    palmFacing: palmFacing(lm, handedness),
+    handedness
+  };
+
+  const allowed = (g: Gesture) => options.allowed.includes(g);
+  const [, index, middle, ring, pinky] = fingers;
+  const longFingers = [index, middle, ring, pinky];
+  const isOut = (f: FingerDiagnostics) => f.state === 'extended';
+  // A loose fist often leaves fingers half-bent; treat "not extended" as closed.
+  const isIn = (f: FingerDiagnostics) => f.state !== 'extended';
+  const certainty = (fs: FingerDiagnostics[]) =>
+    fs.reduce((sum, f) => sum + margin(f.curl, f.state, options), 0) / fs.length;
+
+  const extended = detectExtendedShape(lm);
+  if (extended !== Gesture.NONE && allowed(extended)) {
+    return { gesture: extended, confidence: 0.8, diagnostics };
+  }
+
+  if (longFingers.every(isOut) && allowed(Gesture.PAPER)) {
+    return { gesture: Gesture.PAPER, confidence: certainty(longFingers), diagnostics };
+  }
+
+  if (isOut(index) && isOut(middle) && isIn(ring) && isIn(pinky) && allowed(Gesture.SCISSORS)) {
+    return { gesture: Gesture.SCISSORS, confidence: certainty(longFingers), diagnostics };
+  }
+
+  if (longFingers.every(isIn) && allowed(Gesture.ROCK)) {
+    // Fingertips folded back toward the wrist confirm a fist even when the
+    // joint angles are ambiguous.
+    const tucked = distance(lm[HAND.WRIST], lm[HAND.MIDDLE_TIP]) < palmWidth(lm) * 1.6;
+    const base = certainty(longFingers);
+    return { gesture: Gesture.ROCK, confidence: tucked ? Math.max(base, 0.7) : base, diagnostics };
+  }
+
+  return { gesture: Gesture.NONE, confidence: 0, diagnostics };
+};
@@ -0,0 +1,36 @@
+import { Point3 } from './handGeometry';
+
+// Exponential smoothing of a landmark set between frames. A hand that was lost
+// for longer than `resetAfterMs` starts fresh instead of gliding in from where
+// the previous one was last seen.
+
+export class LandmarkSmoother {
+  private points: Point3[] | null = null;
+  private lastSeenAt = -Infinity;
+
+  // alpha: weight of the newest frame, 0..1 (1 = no smoothing)
+  constructor(private alpha = 0.5, private resetAfterMs = 300) {}
+
+  public push(points: Point3[] | null | undefined, now: number): Point3[] | null {
+    if (!points || points.length === 0) {
+      if (now - this.lastSeenAt > this.resetAfterMs) this.points = null;
+      return this.points;
+    }
+
+    const previous = this.points;
+    this.points = previous && previous.length === points.length
+      ? points.map((p, i) => ({
+          x: previous[i].x + (p.x - previous[i].x) * this.alpha,
+          y: previous[i].y + (p.y - previous[i].y) * this.alpha,
+          z: previous[i].z + (p.z - previous[i].z) * this.alpha
+        }))
+      : points.map(p => ({ ...p }));
+    this.lastSeenAt = now;
+    return this.points;
+  }
+
+  public reset() {
+    this.points = null;
+    this.lastSeenAt = -Infinity;
+  }
+}
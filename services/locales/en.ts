@@ -0,0 +1,387 @@
+import type { MessageValue } from '../i18n';
+
+// Reference catalog; its keys define MessageKey.
+export const en = {
+  // Gestures and rules
+  'gesture.NONE': 'None',
+  'gesture.ROCK': 'Rock',
+  'gesture.PAPER': 'Paper',
+  'gesture.SCISSORS': 'Scissors',
+  'gesture.LIZARD': 'Lizard',
+  'gesture.SPOCK': 'Spock',
+  'verb.crushes': 'crushes',
+  'verb.covers': 'covers',
+  'verb.disproves': 'disproves',
+  'verb.cuts': 'cuts',
+  'verb.decapitates': 'decapitates',
+  'verb.poisons': 'poisons',
+  'verb.eats': 'eats',
+  'verb.smashes': 'smashes',
+  'verb.vaporizes': 'vaporizes',
+  'rule.beats': '{winner} {verb} {loser}',
+  'mode.CLASSIC': 'Classic',
+  'mode.RPSLS': 'Lizard & Spock',
+
+  // Match setup
+  'opponent.BOT': 'vs Bot',
+  'opponent.LOCAL': '2 Players',
+  'opponent.NETWORK': 'Online',
+  'difficulty.EASY': 'Easy',
+  'difficulty.MEDIUM': 'Medium',
+  'difficulty.HARD': 'Hard',
+  'difficulty.EXPERT': 'Expert',
+  'format.FIRST_TO': 'First to N',
+  'format.BEST_OF': 'Best of N',
+  'format.TIMED': 'Timed',
+  'format.SUDDEN_DEATH': 'Sudden Death',
+  'format.describe.FIRST_TO': {
+    one: 'Win {count} round to become the champion.',
+    other: 'Win {count} rounds to become the champion.'
+  },
+  'format.describe.BEST_OF': 'Best of {count}: take the most of {count} rounds.',
+  'format.describe.TIMED': 'Most wins in {count} seconds takes the match.',
+  'format.describe.SUDDEN_DEATH': 'Sudden death: the first round won decides the match.',
+  'format.status.FIRST_TO': 'First to {target}',
+  'format.status.BEST_OF': 'Best of {target} · {count} played',
+  'format.status.SUDDEN_DEATH': 'Sudden death',
+  'format.status.timeLeft': '{time} left',
+  'format.status.timeUp': 'Time up · last round',
+
+  // Seats
+  'seat.BOT.p1': 'You',
+  'seat.BOT.p2': 'Bot',
+  'seat.LOCAL.p1': 'Player 1',
+  'seat.LOCAL.p2': 'Player 2',
+  'seat.NETWORK.p1': 'You',
+  'seat.NETWORK.p2': 'Opponent',
+
+  // Round results
+  'result.youWin': 'You Win!',
+  'result.seatWins': '{seat} Wins!',
+  'result.draw': 'Draw!',
+  'result.unclear': 'Gesture Unclear',
+  'result.noOpponentThrow': 'No Throw From Opponent',
+  'result.handMissing': "{seat}'s Hand Missing",
+  'result.noHand': 'No Hand Detected',
+  'result.late_switch': 'Late Switch',
+  'result.late_throw': 'Late Throw',
+  'result.roundVoid': 'Round void: {reasons}',
+  'result.pointFor': 'Counts as a point for {seat}',
+  'timing.late_switch': '{seat} changed gesture after the shoot deadline',
+  'timing.late_throw': '{seat} only formed a gesture after the shoot deadline',
+  'result.noDetection': 'No Detection',
+  'result.versus': '{p1} vs {p2}',
+  'result.botExpected': 'Bot expected {gesture}: {reasoning}',
+  'result.tryAgain': 'Try Again',
+  'result.nextRound': 'Next Round →',
+  'hint.lateTiming': 'Show your gesture right as the countdown ends, and keep it',
+  'hint.localMissing': '{seats}: keep your hand in your half of the frame',
+  'hint.opponentLate': 'Your opponent did not throw in time',
+  'hint.showHand': 'Please hold your hand clearly in front of the camera',
+  'hint.unclear': 'Hold one gesture steady until the reveal',
+  'hint.lateFlagged': 'Late throw flagged: {seats}',
+
+  // Bot reasoning
+  'bot.chance': 'Pure chance',
+  'bot.frequency': {
+    one: "You've thrown {gesture} {count} time",
+    other: "You've thrown {gesture} {count} times"
+  },
+  'bot.sequence': '{first} → {second}',
+  'bot.markov': 'After {sequence} you usually throw {gesture}',
+  'bot.shift': "You lost with {lost}, so you'll switch to {gesture}",
+  'bot.stayAfterWin': "You won with {gesture}, so you'll stay",
+  'bot.stick': "You'll stick with {gesture}",
+
+  // Match over
+  'gameOver.draw': "It's a draw",
+  'gameOver.victory': 'Victory!',
+  'gameOver.defeat': 'Defeat',
+  'gameOver.seatWins': '{seat} wins!',
+  'gameOver.finalScore': 'Final score {p1} – {p2}',
+  'gameOver.outplayed': 'You outplayed your opponent.',
+  'gameOver.readYou': 'Your opponent read you this time.',
+  'gameOver.playAgain': 'Play Again',
+
+  // Bot commentary (the built-in personality; lines are the bot speaking)
+  'commentary.botWins.1': 'Too easy.',
+  'commentary.botWins.2': '{gesture}? I was counting on it.',
+  'commentary.botWins.3': 'Another point for the machine.',
+  'commentary.playerWins.1': 'Lucky. It will not happen twice.',
+  'commentary.playerWins.2': 'Fine, you get that one.',
+  'commentary.playerWins.3': 'Recalculating...',
+  'commentary.draw.1': 'Great minds think alike. Mine thinks faster.',
+  'commentary.draw.2': 'A stalemate. How dull.',
+  'commentary.void.1': "I can't beat a hand I can't see.",
+  'commentary.void.2': 'Scared to commit?',
+  'commentary.readYou.1': 'I knew you would throw {gesture}.',
+  'commentary.readYou.2': 'Predictable. {gesture}, exactly as planned.',
+  'commentary.botStreak.1': '{count} in a row. Are you even trying?',
+  'commentary.botStreak.2': "That's {count} straight. I could do this all day.",
+  'commentary.playerStreak.1': '{count} in a row? Something is wrong with my sensors.',
+  'commentary.playerStreak.2': "{count} straight... I'm studying you, you know.",
+  'commentary.habit.1': 'You throw {gesture} {percent}% of the time. I noticed.',
+  'commentary.habit.2': 'More {gesture}? You really like that one.',
+  'commentary.matchWon.1': 'The machine detected your weakness.',
+  'commentary.matchWon.2': 'Victory, {p2} – {p1}. Come back when you have a plan.',
+  'commentary.matchLost.1': 'You crushed the machine. Enjoy it while it lasts.',
+  'commentary.matchLost.2': '{p1} – {p2}. I demand a rematch.',
+  'commentary.matchDrawn.1': 'Even. We will settle this next time.',
+  'commentary.matchHabit.1': '{percent}% {gesture}. You made it easy for me.',
+  'commentary.remote': '{line}',
+
+  // Loading and input sources
+  'loading.runtime': 'Loading Vision Runtime...',
+  'loading.modelPercent': 'Loading Vision Model... {percent}%',
+  'loading.modelMb': 'Loading Vision Model... {mb} MB',
+  'loading.recognizer': 'Starting Recognizer...',
+  'status.loadingModel': 'Loading Model...',
+  'status.visionActive': 'Vision Active · {source}',
+  'status.cameraOff': 'Camera Off',
+  'status.cameraRecovering': 'Reconnecting camera...',
+  'source.webcam': 'Webcam',
+  'source.manual': 'Keyboard & touch',
+  'warning.missingSprite': 'Missing sprite: {url}',
+  'error.cameraTitle': 'Camera Error',
+  'error.assetTitle': 'Asset Error',
+  'error.camera.permission_denied': 'Camera access was denied. Allow it in your browser settings and retry.',
+  'error.camera.not_found': 'No camera was found. Connect one and retry.',
+  'error.camera.in_use': 'The camera is busy. Close other apps or tabs using it and retry.',
+  'error.camera.overconstrained': 'The camera cannot provide the chosen resolution. Pick a lower one in Settings.',
+  'error.camera.unsupported': 'This browser cannot use a camera here. Open the game over https or on localhost.',
+  'error.camera.unknown': 'Camera error: {message}',
+  'error.source': 'Could not use {file}: {message}',
+  'error.system': 'System error: {message}',
+  'error.asset': 'Failed to load {kind} asset ({url}): {reason}',
+  'error.unknown': 'Unknown error',
+  'error.fetchModelHint': 'Run {command} while online to bundle the model.',
+  'error.reload': 'Reload',
+  'error.retryCamera': 'Retry Camera',
+  'error.useVideo': 'Play from a video file instead',
+  'error.useManual': 'Play with keyboard & touch instead',
+  'manual.cameraDenied': 'Camera access denied. Allow camera permissions in your browser settings to play with gestures.',
+  'manual.noCamera': 'No camera found. Connect a camera to play with gestures.',
+  'manual.needsCamera': 'Needs a camera',
+  'manual.choose': 'Choose your throw',
+  'manual.keys': 'Keys: {keys}',
+  'manual.key': '{key} {gesture}',
+
+  // Menu
+  'menu.useVideo': 'Use video or recording',
+  'menu.useCamera': 'Use camera',
+  'menu.useManual': 'Use keyboard & touch',
+  'menu.stats': 'Stats',
+  'menu.highlights': 'Highlights ({count})',
+  'menu.recording': 'Recording round',
+  'menu.matchLog': 'Match log',
+  'menu.settings': 'Settings',
+  'menu.calibrate': 'Calibrate hand',
+  'menu.calibration': 'Calibration · {name}',
+  'menu.language': 'Language',
+  'idle.title': 'Ready to Play?',
+  'idle.showHand': 'Show your hand to the camera.',
+  'idle.pickThrow': 'Pick your throw with the buttons or keys.',
+  'idle.localSides.screen-half': 'Player 1 stands on the left, Player 2 on the right.',
+  'idle.localSides.handedness': 'Player 1 throws with the left hand, Player 2 with the right.',
+  'idle.start': 'Start Game',
+  'idle.waitingForOpponent': 'Waiting for Opponent...',
+  'idle.handsFree': 'Hands-free: hold 👍 to start or continue, 👎 to quit, ☝️ for settings',
+  'play.showHand': 'SHOW YOUR HAND!',
+  'toast.waiting': 'Waiting for gesture...',
+  'toast.detected': 'Detected:',
+  'toast.yourThrow': 'Your throw:',
+  'footer.poweredBy': 'Powered by MediaPipe Tasks Vision',
+
+  // Online play
+  'online.reconnecting': 'Reconnecting to relay...',
+  'online.disconnected': 'Disconnected',
+  'online.opponentAway': 'Opponent disconnected, waiting for them to return',
+  'online.room': 'Room {code}',
+  'online.latency': '{ms} ms',
+  'online.opponentConnected': 'Opponent connected',
+  'online.waiting': 'Waiting for opponent...',
+  'online.createRoom': 'Create Room',
+  'online.codePlaceholder': 'CODE',
+  'online.join': 'Join',
+  'error.net.unreachable': 'Cannot reach the relay: {message}',
+  'error.net.connection_lost': 'Lost the connection to the relay.',
+  'error.net.insecure_context': 'Online play needs a secure page. Open the game over https or on localhost.',
+  'error.net.client': 'The online match stopped because of an error: {message}',
+  'error.net.bad_reveal': "Your opponent's throw did not match what they committed to, so it does not count.",
+  'error.net.bad_message': 'The relay could not understand a message from this game.',
+  'error.net.version_mismatch': 'The relay runs a different version of the game. Update both sides.',
+  'error.net.room_not_found': 'There is no room with that code.',
+  'error.net.room_full': 'That room already has two players.',
+  'error.net.out_of_phase': 'The relay rejected a message sent at the wrong moment.',
+  'error.net.bad_rules': 'The relay refused the match settings for this room.',
+  'error.net.closed.opponent_left': 'Your opponent left the match.',
+  'error.net.closed.opponent_timeout': 'Your opponent did not reconnect.',
+  'error.net.closed.server_shutdown': 'The relay is shutting down.',
+
+  // Command gestures
+  'command.close': 'Close',
+  'command.playAgain': 'Play again',
+  'command.start': 'Start game',
+  'command.nextRound': 'Next round',
+  'command.quit': 'Quit to menu',
+  'command.settings': 'Settings',
+  'command.stats': 'Stats',
+
+  // Screen-reader announcements
+  'announce.shoot': 'Shoot!',
+  'announce.score': 'Score {p1} to {p2}',
+  'announce.matchOver': 'Match over, {outcome}. Final score {p1} to {p2}',
+  'announce.draw': "it's a draw",
+  'announce.youWon': 'you won',
+  'announce.youLost': 'you lost',
+  'announce.seatWon': '{seat} won',
+
+  // Settings panel
+  'settings.title': 'Match Settings',
+  'settings.close': 'Close settings',
+  'settings.target.FIRST_TO': 'Wins needed',
+  'settings.target.BEST_OF': 'Rounds',
+  'settings.target.TIMED': 'Seconds',
+  'settings.countdown': 'Countdown',
+  'settings.countdownHint': '{seconds} s before each throw',
+  'settings.lockIn': 'Lock-in time',
+  'settings.lockInHint': 'Hold your gesture {ms} ms after the countdown',
+  'settings.draws': 'Draws',
+  'settings.drawsReplayHint': 'Replayed, not counted',
+  'settings.drawsCountHint': 'Count as a played round',
+  'settings.replay': 'Replay',
+  'settings.count': 'Count',
+  'settings.missingLoses': 'Missing hand loses the round',
+  'settings.missingLosesHint': 'Otherwise the round is voided',
+  'settings.strictTiming': 'Strict timing',
+  'settings.strictTimingHint': 'Void rounds where a throw changed or formed after "shoot"',
+  'settings.handAssignment': 'Two-player hands',
+  'settings.handAssignment.screen-half': 'Screen half',
+  'settings.handAssignment.handedness': 'Left / right hand',
+  'settings.handAssignmentHint.screen-half': 'Player 1 plays on the left of the screen',
+  'settings.handAssignmentHint.handedness': 'Player 1 throws with their left hand, Player 2 with their right',
+  'settings.camera': 'Camera',
+  'settings.cameraDefault': 'Default camera',
+  'settings.cameraMissing': 'Saved camera (not connected)',
+  'settings.cameraUnnamed': 'Camera {number}',
+  'settings.resolution': 'Resolution',
+  'settings.mirror': 'Mirror hand',
+  'settings.mirrorHint': 'Like a selfie preview; turn off for a camera facing you from behind',
+  'settings.assetPack': 'Asset pack',
+  'settings.assetPackDefault': 'Built-in look',
+  'settings.assetPackFolder': 'Load pack folder',
+  'settings.assetPackZip': 'Load pack zip',
+  'settings.assetPackReset': 'Use built-in',
+  'settings.assetPackError': 'Could not load {source}:',
+  'settings.reset': 'Reset to defaults',
+  'settings.done': 'Done',
+
+  // Stats panel
+  'stats.title': 'Your Stats',
+  'stats.close': 'Close stats',
+  'stats.loadError': 'Could not load history: {message}',
+  'stats.clearError': 'Could not clear history: {message}',
+  'stats.empty': 'No rounds played yet. Finish a round and it will show up here.',
+  'stats.winRate': 'Win rate',
+  'stats.rounds': 'Rounds',
+  'stats.bestStreak': 'Best streak',
+  'stats.matchesWon': 'Matches won',
+  'stats.record': '{wins}W · {losses}L · {draws}D',
+  'stats.voided': '{count} voided',
+  'stats.currentStreak': 'current streak: {kind} ×{length}',
+  'stats.streak.win': 'win',
+  'stats.streak.loss': 'loss',
+  'stats.streak.draw': 'draw',
+  'stats.worstRun': 'worst losing run: {count}',
+  'stats.throws': 'Your throws',
+  'stats.habits': 'Your habits',
+  'stats.noPatterns': 'Not enough rounds to spot patterns yet.',
+  'stats.transition': 'After {from} you throw {to} {percent} of the time',
+  'stats.sessions': 'Sessions',
+  'stats.started': 'Started',
+  'stats.record.header': 'W / L / D',
+  'stats.matches': 'Matches',
+  'stats.sessionMatches': '{won} won, {lost} lost',
+  'stats.confirmClear': 'Delete all saved rounds and matches?',
+  'stats.cancel': 'Cancel',
+  'stats.delete': 'Delete',
+  'stats.clear': 'Clear data',
+
+  // Highlights panel
+  'highlights.title': 'Highlights',
+  'highlights.close': 'Close highlights',
+  'highlights.record': 'Record rounds',
+  'highlights.limits': 'Clips stay in memory until you leave the page; the oldest are dropped after {count} clips or {size}.',
+  'highlights.empty': 'No highlights yet. Play a round and it will show up here.',
+  'highlights.round': 'Round {round}',
+  'highlights.meta': '{seconds}s · {size}',
+  'highlights.download': 'Download WebM',
+  'highlights.delete': 'Delete clip',
+  'highlights.clear': 'Delete all',
+
+  // Match log panel
+  'matchLog.title': 'Match Log',
+  'matchLog.close': 'Close match log',
+  'matchLog.import': 'Import log',
+  'matchLog.importError': 'Could not import {file}: {message}',
+  'matchLog.showOwn': 'Show my last match',
+  'matchLog.empty': 'No match played yet. Play a round or import a log.',
+  'matchLog.own': 'Last match',
+  'matchLog.imported': 'Imported from {file}',
+  'matchLog.abandoned': 'Abandoned',
+  'matchLog.inProgress': 'In progress',
+  'matchLog.started': 'Started {date}',
+  'matchLog.frames': { one: '{count} frame recorded', other: '{count} frames recorded' },
+  'matchLog.noRounds': 'No rounds were finished.',
+  'matchLog.round': 'Round',
+  'matchLog.outcome': 'Outcome',
+  'matchLog.score': 'Score',
+  'matchLog.void': 'Void',
+  'matchLog.includeFrames': 'Include frame stream',
+  'matchLog.exportJson': 'Export JSON',
+  'matchLog.exportCsv': 'Export CSV',
+
+  // Calibration panel
+  'calibration.title': 'Hand Calibration',
+  'calibration.close': 'Close calibration',
+  'calibration.saveError': 'Could not save profile: {message}',
+  'calibration.importError': 'Could not import {file}: {message}',
+  'calibration.intro': 'A profile teaches the game how your hand looks from your camera. It is used alongside the built-in recognizer.',
+  'calibration.builtInOnly': 'Built-in recognizer only',
+  'calibration.gestureCount': { one: '{count} gesture', other: '{count} gestures' },
+  'calibration.sampleCount': { one: '{count} sample', other: '{count} samples' },
+  'calibration.export': 'Export {name}',
+  'calibration.delete': 'Delete {name}',
+  'calibration.namePlaceholder': 'Profile name',
+  'calibration.calibrate': 'Calibrate',
+  'calibration.import': 'Import profile',
+  'calibration.step': 'Gesture {index} of {total}',
+  'calibration.holdHint': 'Hold it in front of the camera and move it around a little so the profile sees a few angles.',
+  'calibration.capture': 'Capture',
+  'calibration.cancel': 'Cancel',
+  'calibration.selfCheck': 'Self-check on the captured samples: {percent}% read back correctly. Red cells are gestures the profile mixes up; recapture if they are large.',
+  'calibration.tableCorner': 'shown ↓ / read →',
+  'calibration.recapture': 'Recapture',
+  'calibration.save': 'Save & use',
+
+  // Diagnostics overlay
+  'debug.title': 'Diagnostics',
+  'debug.toggleHint': '(` to toggle)',
+  'debug.close': 'Close diagnostics',
+  'debug.category': 'category',
+  'debug.rawStable': 'raw / stable',
+  'debug.hands': 'hands',
+  'debug.detectRender': 'detect / render',
+  'debug.fps': '{detect} / {render} fps',
+  'debug.inferenceP50': 'inference p50',
+  'debug.p90p99': 'p90 / p99',
+  'debug.ms': '{value} ms',
+  'debug.backend': 'backend',
+  'debug.dropped': 'dropped',
+  'debug.droppedFrames': { one: '{frames} ({count} restart)', other: '{frames} ({count} restarts)' },
+  'debug.historyRaw': 'raw',
+  'debug.historyStable': 'stable',
+  'debug.copy': 'Copy report',
+  'debug.copied': 'Copied',
+  'debug.downloaded': 'Downloaded'
+} satisfies Record<string, MessageValue>;
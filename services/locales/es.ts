@@ -0,0 +1,389 @@
+import type { Catalog } from '../i18n';
+
+export const es: Catalog = {
+  // Gestures and rules
+  'gesture.NONE': 'Nada',
+  'gesture.ROCK': 'Piedra',
+  'gesture.PAPER': 'Papel',
+  'gesture.SCISSORS': 'Tijeras',
+  'gesture.LIZARD': 'Lagarto',
+  'gesture.SPOCK': 'Spock',
+  'verb.crushes': 'aplasta a',
+  'verb.covers': 'envuelve a',
+  'verb.disproves': 'refuta a',
+  'verb.cuts': 'cortan a',
+  'verb.decapitates': 'decapitan a',
+  'verb.poisons': 'envenena a',
+  'verb.eats': 'se come a',
+  'verb.smashes': 'rompe a',
+  'verb.vaporizes': 'vaporiza a',
+  'rule.beats': '{winner} {verb} {loser}',
+  'mode.CLASSIC': 'Clásico',
+  'mode.RPSLS': 'Lagarto y Spock',
+
+  // Match setup
+  'opponent.BOT': 'contra el bot',
+  'opponent.LOCAL': '2 jugadores',
+  'opponent.NETWORK': 'En línea',
+  'difficulty.EASY': 'Fácil',
+  'difficulty.MEDIUM': 'Media',
+  'difficulty.HARD': 'Difícil',
+  'difficulty.EXPERT': 'Experto',
+  'format.FIRST_TO': 'Primero a N',
+  'format.BEST_OF': 'Al mejor de N',
+  'format.TIMED': 'Contrarreloj',
+  'format.SUDDEN_DEATH': 'Muerte súbita',
+  'format.describe.FIRST_TO': {
+    one: 'Gana {count} ronda para ser el campeón.',
+    other: 'Gana {count} rondas para ser el campeón.'
+  },
+  'format.describe.BEST_OF': 'Al mejor de {count}: gana la mayoría de {count} rondas.',
+  'format.describe.TIMED': 'Quien más rondas gane en {count} segundos se lleva la partida.',
+  'format.describe.SUDDEN_DEATH': 'Muerte súbita: la primera ronda ganada decide la partida.',
+  'format.status.FIRST_TO': 'Primero a {target}',
+  'format.status.BEST_OF': {
+    one: 'Al mejor de {target} · {count} jugada',
+    other: 'Al mejor de {target} · {count} jugadas'
+  },
+  'format.status.SUDDEN_DEATH': 'Muerte súbita',
+  'format.status.timeLeft': 'Quedan {time}',
+  'format.status.timeUp': 'Tiempo · última ronda',
+
+  // Seats
+  'seat.BOT.p1': 'Tú',
+  'seat.BOT.p2': 'Bot',
+  'seat.LOCAL.p1': 'Jugador 1',
+  'seat.LOCAL.p2': 'Jugador 2',
+  'seat.NETWORK.p1': 'Tú',
+  'seat.NETWORK.p2': 'Rival',
+
+  // Round results
+  'result.youWin': '¡Ganas!',
+  'result.seatWins': '¡Gana {seat}!',
+  'result.draw': '¡Empate!',
+  'result.unclear': 'Gesto poco claro',
+  'result.noOpponentThrow': 'El rival no ha jugado',
+  'result.handMissing': 'Falta la mano de {seat}',
+  'result.noHand': 'No se detecta la mano',
+  'result.late_switch': 'Cambio tardío',
+  'result.late_throw': 'Jugada tardía',
+  'result.roundVoid': 'Ronda anulada: {reasons}',
+  'result.pointFor': 'Punto para: {seat}',
+  'timing.late_switch': '{seat}: cambio de gesto después de la señal',
+  'timing.late_throw': '{seat}: gesto formado después de la señal',
+  'result.noDetection': 'Sin detección',
+  'result.versus': '{p1} contra {p2}',
+  'result.botExpected': 'El bot esperaba {gesture}: {reasoning}',
+  'result.tryAgain': 'Reintentar',
+  'result.nextRound': 'Siguiente ronda →',
+  'hint.lateTiming': 'Muestra tu gesto justo cuando acabe la cuenta atrás y mantenlo',
+  'hint.localMissing': '{seats}: mantened la mano en vuestra mitad de la imagen',
+  'hint.opponentLate': 'Tu rival no jugó a tiempo',
+  'hint.showHand': 'Mantén la mano bien visible delante de la cámara',
+  'hint.unclear': 'Mantén un mismo gesto hasta la revelación',
+  'hint.lateFlagged': 'Jugada tardía: {seats}',
+
+  // Bot reasoning
+  'bot.chance': 'Puro azar',
+  'bot.frequency': {
+    one: 'Has sacado {gesture} {count} vez',
+    other: 'Has sacado {gesture} {count} veces'
+  },
+  'bot.sequence': '{first} → {second}',
+  'bot.markov': 'Después de {sequence} sueles sacar {gesture}',
+  'bot.shift': 'Perdiste con {lost}, así que cambiarás a {gesture}',
+  'bot.stayAfterWin': 'Ganaste con {gesture}, así que repetirás',
+  'bot.stick': 'Seguirás con {gesture}',
+
+  // Match over
+  'gameOver.draw': 'Empate',
+  'gameOver.victory': '¡Victoria!',
+  'gameOver.defeat': 'Derrota',
+  'gameOver.seatWins': '¡Gana {seat}!',
+  'gameOver.finalScore': 'Resultado final {p1} – {p2}',
+  'gameOver.outplayed': 'Has superado a tu rival.',
+  'gameOver.readYou': 'Esta vez tu rival te ha leído.',
+  'gameOver.playAgain': 'Jugar de nuevo',
+
+  // Bot commentary
+  'commentary.botWins.1': 'Demasiado fácil.',
+  'commentary.botWins.2': '¿{gesture}? Contaba con ello.',
+  'commentary.botWins.3': 'Otro punto para la máquina.',
+  'commentary.playerWins.1': 'Suerte. No volverá a pasar.',
+  'commentary.playerWins.2': 'Vale, esa te la concedo.',
+  'commentary.playerWins.3': 'Recalculando...',
+  'commentary.draw.1': 'Pensamos igual. Yo, más rápido.',
+  'commentary.draw.2': 'Empate. Qué aburrido.',
+  'commentary.void.1': 'No puedo ganar a una mano que no veo.',
+  'commentary.void.2': '¿Miedo a decidirte?',
+  'commentary.readYou.1': 'Sabía que sacarías {gesture}.',
+  'commentary.readYou.2': 'Previsible. {gesture}, tal como lo planeé.',
+  'commentary.botStreak.1': '{count} seguidas. ¿Lo estás intentando?',
+  'commentary.botStreak.2': 'Ya van {count} seguidas. Podría seguir todo el día.',
+  'commentary.playerStreak.1': '¿{count} seguidas? Algo falla en mis sensores.',
+  'commentary.playerStreak.2': '{count} seguidas... Te estoy estudiando, que lo sepas.',
+  'commentary.habit.1': 'Sacas {gesture} el {percent}% de las veces. Me he fijado.',
+  'commentary.habit.2': '¿Más {gesture}? Sí que te gusta.',
+  'commentary.matchWon.1': 'La máquina ha descubierto tu punto débil.',
+  'commentary.matchWon.2': 'Victoria, {p2} – {p1}. Vuelve cuando tengas un plan.',
+  'commentary.matchLost.1': 'Has aplastado a la máquina. Disfrútalo mientras dure.',
+  'commentary.matchLost.2': '{p1} – {p2}. Exijo la revancha.',
+  'commentary.matchDrawn.1': 'Igualados. Lo resolveremos la próxima vez.',
+  'commentary.matchHabit.1': '{gesture} el {percent}% de las veces. Me lo has puesto fácil.',
+  'commentary.remote': '{line}',
+
+  // Loading and input sources
+  'loading.runtime': 'Cargando el motor de visión...',
+  'loading.modelPercent': 'Cargando el modelo de visión... {percent}%',
+  'loading.modelMb': 'Cargando el modelo de visión... {mb} MB',
+  'loading.recognizer': 'Iniciando el reconocedor...',
+  'status.loadingModel': 'Cargando modelo...',
+  'status.visionActive': 'Visión activa · {source}',
+  'status.cameraOff': 'Cámara apagada',
+  'status.cameraRecovering': 'Reconectando la cámara...',
+  'source.webcam': 'Webcam',
+  'source.manual': 'Teclado y pantalla táctil',
+  'warning.missingSprite': 'Falta el sprite: {url}',
+  'error.cameraTitle': 'Error de cámara',
+  'error.assetTitle': 'Error de recursos',
+  'error.camera.permission_denied': 'Se denegó el acceso a la cámara. Permítelo en los ajustes del navegador y vuelve a intentarlo.',
+  'error.camera.not_found': 'No se encontró ninguna cámara. Conecta una y vuelve a intentarlo.',
+  'error.camera.in_use': 'La cámara está ocupada. Cierra otras aplicaciones o pestañas que la usen y vuelve a intentarlo.',
+  'error.camera.overconstrained': 'La cámara no admite la resolución elegida. Elige una menor en Ajustes.',
+  'error.camera.unsupported': 'Este navegador no puede usar la cámara aquí. Abre el juego por https o en localhost.',
+  'error.camera.unknown': 'Error de cámara: {message}',
+  'error.source': 'No se puede usar {file}: {message}',
+  'error.system': 'Error del sistema: {message}',
+  'error.asset': 'No se pudo cargar el recurso {kind} ({url}): {reason}',
+  'error.unknown': 'Error desconocido',
+  'error.fetchModelHint': 'Ejecuta {command} con conexión para incluir el modelo.',
+  'error.reload': 'Recargar',
+  'error.retryCamera': 'Reintentar cámara',
+  'error.useVideo': 'Jugar con un archivo de vídeo',
+  'error.useManual': 'Jugar con teclado o pantalla táctil',
+  'manual.cameraDenied': 'Acceso a la cámara denegado. Permite la cámara en los ajustes del navegador para jugar con gestos.',
+  'manual.noCamera': 'No se encontró ninguna cámara. Conecta una para jugar con gestos.',
+  'manual.needsCamera': 'Necesita una cámara',
+  'manual.choose': 'Elige tu jugada',
+  'manual.keys': 'Teclas: {keys}',
+  'manual.key': '{key} {gesture}',
+
+  // Menu
+  'menu.useVideo': 'Usar vídeo o grabación',
+  'menu.useCamera': 'Usar cámara',
+  'menu.useManual': 'Usar teclado o pantalla táctil',
+  'menu.stats': 'Estadísticas',
+  'menu.highlights': 'Repeticiones ({count})',
+  'menu.recording': 'Grabando ronda',
+  'menu.matchLog': 'Registro de partida',
+  'menu.settings': 'Ajustes',
+  'menu.calibrate': 'Calibrar mano',
+  'menu.calibration': 'Calibración · {name}',
+  'menu.language': 'Idioma',
+  'idle.title': '¿Listo para jugar?',
+  'idle.showHand': 'Muestra la mano a la cámara.',
+  'idle.pickThrow': 'Elige tu jugada con los botones o las teclas.',
+  'idle.localSides.screen-half': 'El jugador 1 se coloca a la izquierda y el jugador 2 a la derecha.',
+  'idle.localSides.handedness': 'El jugador 1 lanza con la mano izquierda y el jugador 2 con la derecha.',
+  'idle.start': 'Empezar',
+  'idle.waitingForOpponent': 'Esperando al rival...',
+  'idle.handsFree': 'Sin manos: mantén 👍 para empezar o seguir, 👎 para salir, ☝️ para los ajustes',
+  'play.showHand': '¡MUESTRA LA MANO!',
+  'toast.waiting': 'Esperando un gesto...',
+  'toast.detected': 'Detectado:',
+  'toast.yourThrow': 'Tu jugada:',
+  'footer.poweredBy': 'Funciona con MediaPipe Tasks Vision',
+
+  // Online play
+  'online.reconnecting': 'Reconectando con el servidor...',
+  'online.disconnected': 'Desconectado',
+  'online.opponentAway': 'El rival se ha desconectado; esperando a que vuelva',
+  'online.room': 'Sala {code}',
+  'online.latency': '{ms} ms',
+  'online.opponentConnected': 'Rival conectado',
+  'online.waiting': 'Esperando al rival...',
+  'online.createRoom': 'Crear sala',
+  'online.codePlaceholder': 'CÓDIGO',
+  'online.join': 'Unirse',
+  'error.net.unreachable': 'No se puede conectar con el servidor: {message}',
+  'error.net.connection_lost': 'Se ha perdido la conexión con el servidor.',
+  'error.net.insecure_context': 'El juego en línea necesita una página segura. Ábrelo por https o en localhost.',
+  'error.net.client': 'La partida en línea se ha detenido por un error: {message}',
+  'error.net.bad_reveal': 'La jugada del rival no coincide con la que había comprometido, así que no cuenta.',
+  'error.net.bad_message': 'El servidor no ha entendido un mensaje de este juego.',
+  'error.net.version_mismatch': 'El servidor usa otra versión del juego. Actualizad los dos lados.',
+  'error.net.room_not_found': 'No hay ninguna sala con ese código.',
+  'error.net.room_full': 'Esa sala ya tiene dos jugadores.',
+  'error.net.out_of_phase': 'El servidor ha rechazado un mensaje enviado a destiempo.',
+  'error.net.bad_rules': 'El servidor ha rechazado los ajustes de partida de esta sala.',
+  'error.net.closed.opponent_left': 'Tu rival ha abandonado la partida.',
+  'error.net.closed.opponent_timeout': 'Tu rival no se ha vuelto a conectar.',
+  'error.net.closed.server_shutdown': 'El servidor se está apagando.',
+
+  // Command gestures
+  'command.close': 'Cerrar',
+  'command.playAgain': 'Jugar de nuevo',
+  'command.start': 'Empezar',
+  'command.nextRound': 'Siguiente ronda',
+  'command.quit': 'Volver al menú',
+  'command.settings': 'Ajustes',
+  'command.stats': 'Estadísticas',
+
+  // Screen-reader announcements
+  'announce.shoot': '¡Ya!',
+  'announce.score': 'Marcador {p1} a {p2}',
+  'announce.matchOver': 'Fin de la partida: {outcome}. Resultado final {p1} a {p2}',
+  'announce.draw': 'empate',
+  'announce.youWon': 'has ganado',
+  'announce.youLost': 'has perdido',
+  'announce.seatWon': 'gana {seat}',
+
+  // Settings panel
+  'settings.title': 'Ajustes de la partida',
+  'settings.close': 'Cerrar ajustes',
+  'settings.target.FIRST_TO': 'Victorias necesarias',
+  'settings.target.BEST_OF': 'Rondas',
+  'settings.target.TIMED': 'Segundos',
+  'settings.countdown': 'Cuenta atrás',
+  'settings.countdownHint': '{seconds} s antes de cada jugada',
+  'settings.lockIn': 'Tiempo de fijación',
+  'settings.lockInHint': 'Mantén el gesto {ms} ms tras la cuenta atrás',
+  'settings.draws': 'Empates',
+  'settings.drawsReplayHint': 'Se repiten y no cuentan',
+  'settings.drawsCountHint': 'Cuentan como ronda jugada',
+  'settings.replay': 'Repetir',
+  'settings.count': 'Contar',
+  'settings.missingLoses': 'Sin mano se pierde la ronda',
+  'settings.missingLosesHint': 'Si no, la ronda se anula',
+  'settings.strictTiming': 'Tiempo estricto',
+  'settings.strictTimingHint': 'Anula las rondas en las que una jugada cambió o se formó después de la señal',
+  'settings.handAssignment': 'Manos a dos jugadores',
+  'settings.handAssignment.screen-half': 'Mitad de pantalla',
+  'settings.handAssignment.handedness': 'Mano izquierda / derecha',
+  'settings.handAssignmentHint.screen-half': 'El jugador 1 juega en la mitad izquierda de la pantalla',
+  'settings.handAssignmentHint.handedness': 'El jugador 1 lanza con la mano izquierda y el jugador 2 con la derecha',
+  'settings.camera': 'Cámara',
+  'settings.cameraDefault': 'Cámara predeterminada',
+  'settings.cameraMissing': 'Cámara guardada (no conectada)',
+  'settings.cameraUnnamed': 'Cámara {number}',
+  'settings.resolution': 'Resolución',
+  'settings.mirror': 'Reflejar la mano',
+  'settings.mirrorHint': 'Como en un selfi; desactívalo si la cámara te mira desde detrás',
+  'settings.assetPack': 'Paquete de gráficos',
+  'settings.assetPackDefault': 'Aspecto integrado',
+  'settings.assetPackFolder': 'Cargar carpeta del paquete',
+  'settings.assetPackZip': 'Cargar zip del paquete',
+  'settings.assetPackReset': 'Usar el integrado',
+  'settings.assetPackError': 'No se pudo cargar {source}:',
+  'settings.reset': 'Restablecer valores',
+  'settings.done': 'Listo',
+
+  // Stats panel
+  'stats.title': 'Tus estadísticas',
+  'stats.close': 'Cerrar estadísticas',
+  'stats.loadError': 'No se pudo cargar el historial: {message}',
+  'stats.clearError': 'No se pudo borrar el historial: {message}',
+  'stats.empty': 'Aún no has jugado ninguna ronda. Termina una y aparecerá aquí.',
+  'stats.winRate': 'Victorias',
+  'stats.rounds': 'Rondas',
+  'stats.bestStreak': 'Mejor racha',
+  'stats.matchesWon': 'Partidas ganadas',
+  'stats.record': '{wins}V · {losses}D · {draws}E',
+  'stats.voided': { one: '{count} anulada', other: '{count} anuladas' },
+  'stats.currentStreak': 'racha actual: {kind} ×{length}',
+  'stats.streak.win': 'victorias',
+  'stats.streak.loss': 'derrotas',
+  'stats.streak.draw': 'empates',
+  'stats.worstRun': 'peor racha de derrotas: {count}',
+  'stats.throws': 'Tus jugadas',
+  'stats.habits': 'Tus costumbres',
+  'stats.noPatterns': 'Aún no hay rondas suficientes para ver patrones.',
+  'stats.transition': 'Después de {from} sacas {to} el {percent} de las veces',
+  'stats.sessions': 'Sesiones',
+  'stats.started': 'Inicio',
+  'stats.record.header': 'V / D / E',
+  'stats.matches': 'Partidas',
+  'stats.sessionMatches': '{won} ganadas, {lost} perdidas',
+  'stats.confirmClear': '¿Borrar todas las rondas y partidas guardadas?',
+  'stats.cancel': 'Cancelar',
+  'stats.delete': 'Borrar',
+  'stats.clear': 'Borrar datos',
+
+  // Highlights panel
+  'highlights.title': 'Repeticiones',
+  'highlights.close': 'Cerrar repeticiones',
+  'highlights.record': 'Grabar rondas',
+  'highlights.limits': 'Los clips se guardan en memoria hasta que salgas de la página; los más antiguos se descartan al pasar de {count} clips o {size}.',
+  'highlights.empty': 'Aún no hay repeticiones. Juega una ronda y aparecerá aquí.',
+  'highlights.round': 'Ronda {round}',
+  'highlights.meta': '{seconds} s · {size}',
+  'highlights.download': 'Descargar WebM',
+  'highlights.delete': 'Borrar clip',
+  'highlights.clear': 'Borrar todo',
+
+  // Match log panel
+  'matchLog.title': 'Registro de partida',
+  'matchLog.close': 'Cerrar registro',
+  'matchLog.import': 'Importar registro',
+  'matchLog.importError': 'No se pudo importar {file}: {message}',
+  'matchLog.showOwn': 'Ver mi última partida',
+  'matchLog.empty': 'Aún no has jugado ninguna partida. Juega una ronda o importa un registro.',
+  'matchLog.own': 'Última partida',
+  'matchLog.imported': 'Importado de {file}',
+  'matchLog.abandoned': 'Abandonada',
+  'matchLog.inProgress': 'En curso',
+  'matchLog.started': 'Empezó {date}',
+  'matchLog.frames': { one: '{count} fotograma grabado', other: '{count} fotogramas grabados' },
+  'matchLog.noRounds': 'No se terminó ninguna ronda.',
+  'matchLog.round': 'Ronda',
+  'matchLog.outcome': 'Resultado',
+  'matchLog.score': 'Marcador',
+  'matchLog.void': 'Anulada',
+  'matchLog.includeFrames': 'Incluir los fotogramas',
+  'matchLog.exportJson': 'Exportar JSON',
+  'matchLog.exportCsv': 'Exportar CSV',
+
+  // Calibration panel
+  'calibration.title': 'Calibración de la mano',
+  'calibration.close': 'Cerrar calibración',
+  'calibration.saveError': 'No se pudo guardar el perfil: {message}',
+  'calibration.importError': 'No se pudo importar {file}: {message}',
+  'calibration.intro': 'Un perfil enseña al juego cómo se ve tu mano desde tu cámara. Se usa junto al reconocedor integrado.',
+  'calibration.builtInOnly': 'Solo el reconocedor integrado',
+  'calibration.gestureCount': { one: '{count} gesto', other: '{count} gestos' },
+  'calibration.sampleCount': { one: '{count} muestra', other: '{count} muestras' },
+  'calibration.export': 'Exportar {name}',
+  'calibration.delete': 'Borrar {name}',
+  'calibration.namePlaceholder': 'Nombre del perfil',
+  'calibration.calibrate': 'Calibrar',
+  'calibration.import': 'Importar perfil',
+  'calibration.step': 'Gesto {index} de {total}',
+  'calibration.holdHint': 'Mantenlo delante de la cámara y muévelo un poco para que el perfil lo vea desde varios ángulos.',
+  'calibration.capture': 'Capturar',
+  'calibration.cancel': 'Cancelar',
+  'calibration.selfCheck': 'Autocomprobación con las muestras capturadas: {percent}% reconocidas correctamente. Las celdas rojas son gestos que el perfil confunde; vuelve a capturar si son grandes.',
+  'calibration.tableCorner': 'mostrado ↓ / leído →',
+  'calibration.recapture': 'Volver a capturar',
+  'calibration.save': 'Guardar y usar',
+
+  // Diagnostics overlay
+  'debug.title': 'Diagnóstico',
+  'debug.toggleHint': '(` para mostrar u ocultar)',
+  'debug.close': 'Cerrar diagnóstico',
+  'debug.category': 'categoría',
+  'debug.rawStable': 'bruto / estable',
+  'debug.hands': 'manos',
+  'debug.detectRender': 'detección / render',
+  'debug.fps': '{detect} / {render} fps',
+  'debug.inferenceP50': 'inferencia p50',
+  'debug.p90p99': 'p90 / p99',
+  'debug.ms': '{value} ms',
+  'debug.backend': 'backend',
+  'debug.dropped': 'descartados',
+  'debug.droppedFrames': { one: '{frames} ({count} reinicio)', other: '{frames} ({count} reinicios)' },
+  'debug.historyRaw': 'bruto',
+  'debug.historyStable': 'estable',
+  'debug.copy': 'Copiar informe',
+  'debug.copied': 'Copiado',
+  'debug.downloaded': 'Descargado'
+};
@@ -0,0 +1,66 @@
+import { DrawHandling, GameResult, MatchFormat, MatchWinner, Message, Score, SEATS } from '../types';
+
+// When a match ends and who won it, for each format. `target` means wins for
+// FIRST_TO, rounds for BEST_OF and seconds for TIMED; SUDDEN_DEATH ignores it.
+
+export interface FormatSettings {
+  format: MatchFormat;
+  target: number;
+  drawHandling: DrawHandling;
+  invalidCountsAsLoss: boolean;
+}
+
+export interface MatchProgress {
+  score: Score;
+  // Rounds that count towards a BEST_OF total
+  roundsPlayed: number;
+  // Time since the first countdown of the match
+  elapsedMs: number;
+  lastWinner: GameResult['winner'];
+}
+
+export const formatLabel = (format: MatchFormat): Message => ({ key: `format.${format}` });
+
+export const DEFAULT_TARGETS: Record<MatchFormat, number> = {
+  [MatchFormat.FIRST_TO]: 3,
+  [MatchFormat.BEST_OF]: 5,
+  [MatchFormat.TIMED]: 60,
+  [MatchFormat.SUDDEN_DEATH]: 1
+};
+
+export const describeFormat = ({ format, target }: FormatSettings): Message =>
+  ({ key: `format.describe.${format}`, params: { count: target } });
+
+const leader = (score: Score): MatchWinner =>
+  score.p1 === score.p2 ? 'draw' : score.p1 > score.p2 ? 'p1' : 'p2';
+
+// Whether a resolved round uses up one of a BEST_OF's rounds.
+export const countsAsPlayed = (result: GameResult, settings: FormatSettings): boolean => {
+  if (result.winner === 'p1' || result.winner === 'p2') return true;
+  if (result.winner === 'draw') return settings.drawHandling === DrawHandling.COUNT;
+  return result.awardedTo !== undefined;
+};
+
+// null while the match is still going.
+export const matchOutcome = (progress: MatchProgress, settings: FormatSettings): MatchWinner | null => {
+  const { score, roundsPlayed, elapsedMs, lastWinner } = progress;
+
+  switch (settings.format) {
+    case MatchFormat.FIRST_TO:
+      return SEATS.find(seat => score[seat] >= settings.target) ?? null;
+
+    case MatchFormat.BEST_OF: {
+      // Over once one side can't be caught in the rounds left
+      const remaining = Math.max(0, settings.target - roundsPlayed);
+      if (Math.abs(score.p1 - score.p2) > remaining) return leader(score);
+      return roundsPlayed >= settings.target ? leader(score) : null;
+    }
+
+    case MatchFormat.TIMED:
+      return elapsedMs >= settings.target * 1000 ? leader(score) : null;
+
+    case MatchFormat.SUDDEN_DEATH:
+      if (score.p1 !== score.p2) return leader(score);
+      return lastWinner === 'draw' && settings.drawHandling === DrawHandling.COUNT ? 'draw' : null;
+  }
+};
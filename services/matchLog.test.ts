@@ -0,0 +1,124 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { GameState, Gesture, MatchFormat, OpponentType } from '../types';
+import { GameEngine, ManualClock } from './gameEngine';
+import { ScriptedSource } from './gestureSources';
+import { MATCH_LOG_VERSION, MatchLog, MatchLogRecorder, matchLogToCsv, parseMatchLog, serializeMatchLog, validateMatchLog } from './matchLog';
+import { simulateMatch } from './matchRunner';
+import { seededRng } from './random';
+
+// Records a scripted first-to-2 bot match, with a frame at the end of each round
+const recordMatch = async (): Promise<MatchLog> => {
+  const clock = new ManualClock();
+  const engine = new GameEngine({ config: { opponent: OpponentType.BOT, format: MatchFormat.FIRST_TO, target: 2 }, clock, random: seededRng(3) });
+  const recorder = new MatchLogRecorder(() => clock.now(), () => 1_700_000_000_000 + clock.now());
+  const detach = recorder.attach(engine);
+  const source = new ScriptedSource([{ gesture: Gesture.PAPER, durationMs: 1000 }], () => clock.now());
+  await simulateMatch({
+    engine,
+    source,
+    clock,
+    onRoundEnd: state => recorder.recordFrame('p1', state.seats.p1.gesture, state.seats.p1.confidence)
+  });
+  detach();
+  return recorder.getLog()!;
+};
+
+describe('MatchLogRecorder', () => {
+  let log: MatchLog;
+  beforeAll(async () => {
+    log = await recordMatch();
+  });
+
+  it('records every round of a finished match', () => {
+    expect(validateMatchLog(log)).toEqual([]);
+    expect(log).toMatchObject({ version: MATCH_LOG_VERSION, abandoned: false, settings: { opponent: OpponentType.BOT, target: 2 } });
+    expect(log.winner).not.toBeNull();
+    expect(log.endedAt).not.toBeNull();
+    expect(log.rounds.map(r => r.round)).toEqual(log.rounds.map((_, i) => i + 1));
+    expect(log.rounds[log.rounds.length - 1].score).toEqual(log.score);
+    log.rounds.forEach(r => {
+      expect(r.throws.p1.gesture).toBe(Gesture.PAPER);
+      expect(r.bot?.gesture).toBe(r.throws.p2.gesture);
+      expect(r.resolvedAt).toBeGreaterThan(r.startedAt);
+    });
+    // The last round ends the match, and nothing is recorded once it is closed
+    expect(log.frames).toHaveLength(log.rounds.length - 1);
+    log.frames!.forEach(frame => expect(frame).toMatchObject({ seat: 'p1', gesture: Gesture.PAPER }));
+  });
+
+  it('reads back its own JSON export', () => {
+    expect(parseMatchLog(serializeMatchLog(log))).toEqual(log);
+
+    const { frames, ...withoutFrames } = log;
+    expect(frames?.length).toBeGreaterThan(0);
+    expect(parseMatchLog(serializeMatchLog(log, { includeFrames: false }))).toEqual(withoutFrames);
+  });
+
+  it('exports one CSV row per round under a header', () => {
+    const lines = matchLogToCsv(log).split('\r\n');
+    expect(lines[0].split(',')).toContain('p1_gesture');
+    expect(lines.slice(1, -1)).toHaveLength(log.rounds.length);
+    expect(lines[lines.length - 1]).toBe('');
+    const columns = lines[0].split(',').length;
+    lines.slice(1, -1).forEach(line => expect(line.split(',')).toHaveLength(columns));
+  });
+
+  it('marks a match left halfway as abandoned', () => {
+    const clock = new ManualClock();
+    const engine = new GameEngine({ config: { opponent: OpponentType.LOCAL }, clock });
+    const recorder = new MatchLogRecorder(() => clock.now(), () => 0);
+    recorder.attach(engine);
+    engine.dispatch({ type: 'START_ROUND' });
+    expect(recorder.getLog()?.endedAt).toBeNull();
+    engine.dispatch({ type: 'RESET' });
+    expect(engine.getState().phase).toBe(GameState.IDLE);
+    expect(recorder.getLog()).toMatchObject({ abandoned: true, winner: null, rounds: [] });
+  });
+});
+
+describe('parseMatchLog', () => {
+  let json: string;
+  beforeAll(async () => {
+    json = serializeMatchLog(await recordMatch());
+  });
+
+  const tampered = (edit: (log: any) => void) => {
+    const log = JSON.parse(json);
+    edit(log);
+    return JSON.stringify(log);
+  };
+
+  it('rejects another log version', () => {
+    expect(() => parseMatchLog(tampered(log => { log.version = MATCH_LOG_VERSION + 1; }))).toThrow(/version: expected 1/);
+  });
+
+  it('rejects a log with missing fields', () => {
+    expect(() => parseMatchLog(tampered(log => { delete log.settings; }))).toThrow(/settings: expected an object/);
+    expect(() => parseMatchLog(tampered(log => { delete log.rounds[0].throws.p2; }))).toThrow(/rounds\[0\]\.throws\.p2/);
+  });
+
+  it('lists at most three problems', () => {
+    const message = () => parseMatchLog(tampered(log => {
+      log.rounds.forEach((r: any) => { r.winner = 'nobody'; r.score = null; });
+    }));
+    expect(message).toThrow(/and \d+ more\)$/);
+  });
+
+  it('rejects a CSV export and other non-JSON files', () => {
+    const csv = matchLogToCsv(JSON.parse(json));
+    expect(() => parseMatchLog(csv)).toThrow(/not JSON/);
+    expect(() => parseMatchLog('')).toThrow(/not JSON/);
+    expect(() => parseMatchLog('[]')).toThrow(/log: expected an object/);
+  });
+});
+
+describe('matchLogToCsv', () => {
+  it('quotes cells holding separators', async () => {
+    const log = await recordMatch();
+    // Settings are repeated on every row; an odd value must not shift the columns
+    const csv = matchLogToCsv({ ...log, settings: { ...log.settings, mode: 'A, "B"' as MatchLog['settings']['mode'] } });
+    const [header, first] = csv.split('\r\n');
+    expect(first).toMatch(/^1,\d+,\d+,"A, ""B""",BOT,/);
+    expect(first.replace('"A, ""B"""', 'mode').split(',')).toHaveLength(header.split(',').length);
+  });
+});
@@ -0,0 +1,347 @@
+import { DrawHandling, Difficulty, GameMode, GameState, Gesture, MatchFormat, MatchWinner, OpponentType, Score, Seat, SEATS, TimingFlag } from '../types';
+import { EngineConfig, EngineState, GameEngine, Winner } from './gameEngine';
+import { TimelineEntry } from './throwTimeline';
+
+// Self-contained log of one match for offline analysis: the settings it was
+// played with and every resolved round, optionally with the per-frame gesture
+// stream. Exported as JSON (the whole log) or CSV (one row per round). Times
+// are milliseconds since the match started unless noted otherwise.
+
+export const MATCH_LOG_VERSION = 1;
+
+export type MatchLogSettings = Pick<
+  EngineConfig,
+  'mode' | 'opponent' | 'difficulty' | 'format' | 'target' | 'drawHandling'
+  | 'invalidCountsAsLoss' | 'countdownSeconds' | 'shootGraceMs' | 'strictTiming'
+>;
+
+export interface MatchLogThrow {
+  gesture: Gesture;
+  confidence: number;
+  timing: TimingFlag | null;
+}
+
+export interface MatchLogRound {
+  round: number;
+  // Countdown start and reveal
+  startedAt: number;
+  resolvedAt: number;
+  throws: Record<Seat, MatchLogThrow>;
+  // Bot matches only; the bot's throw is also in throws.p2
+  bot: { gesture: Gesture; predicted: Gesture | null } | null;
+  winner: Winner;
+  awardedTo: Seat | null;
+  // Score after the round
+  score: Score;
+  // Gesture changes around the shoot moment; times are relative to it (see throwTimeline)
+  timeline: TimelineEntry[];
+}
+
+export interface MatchLogFrame {
+  t: number;
+  seat: Seat;
+  gesture: Gesture;
+  confidence: number;
+}
+
+export interface MatchLog {
+  version: typeof MATCH_LOG_VERSION;
+  // Wall-clock times (epoch ms)
+  startedAt: number;
+  endedAt: number | null;
+  settings: MatchLogSettings;
+  score: Score;
+  // null while in progress and when abandoned
+  winner: MatchWinner | null;
+  abandoned: boolean;
+  rounds: MatchLogRound[];
+  // Stabilized gesture of every human seat on every frame, when recorded
+  frames?: MatchLogFrame[];
+}
+
+// About ten minutes of two hands at 30 fps
+const MAX_FRAMES = 36_000;
+
+const pickSettings = (config: EngineConfig): MatchLogSettings => ({
+  mode: config.mode,
+  opponent: config.opponent,
+  difficulty: config.difficulty,
+  format: config.format,
+  target: config.target,
+  drawHandling: config.drawHandling,
+  invalidCountsAsLoss: config.invalidCountsAsLoss,
+  countdownSeconds: config.countdownSeconds,
+  shootGraceMs: config.shootGraceMs,
+  strictTiming: config.strictTiming
+});
+
+// Builds the log of the match in progress from engine updates. Keeps the last
+// match's log once it ends, until the next one starts.
+export class MatchLogRecorder {
+  private log: MatchLog | null = null;
+  private open = false;
+  private startedAt = 0;
+  // Round whose countdown was seen last, and when it began
+  private countdown = { round: 0, at: 0 };
+  private listeners = new Set<() => void>();
+
+  constructor(
+    private now: () => number = () => performance.now(),
+    private wallClock: () => number = () => Date.now()
+  ) {}
+
+  public getLog = (): MatchLog | null => this.log;
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public attach(engine: GameEngine): () => void {
+    return engine.subscribe(state => this.onState(state, engine.getConfig()));
+  }
+
+  // Called from the detection loop. Frames are appended in place without
+  // notifying listeners; they are only read when the log is exported.
+  public recordFrame(seat: Seat, gesture: Gesture, confidence: number) {
+    const frames = this.log?.frames;
+    if (!this.open || !frames || frames.length >= MAX_FRAMES) return;
+    frames.push({ t: Math.round(this.now() - this.startedAt), seat, gesture, confidence: Math.round(confidence * 100) / 100 });
+  }
+
+  private onState(state: EngineState, config: EngineConfig) {
+    if (state.phase === GameState.IDLE) {
+      if (this.open) this.close({ abandoned: true });
+      return;
+    }
+
+    if (!this.open) {
+      // Matches begin with their first countdown; anything else is the tail of one already closed
+      if (state.phase !== GameState.COUNTDOWN) {
+        this.extendTimeline(state);
+        return;
+      }
+      this.open = true;
+      this.startedAt = this.now();
+      this.countdown = { round: 0, at: 0 };
+      this.setLog({
+        version: MATCH_LOG_VERSION,
+        startedAt: this.wallClock(),
+        endedAt: null,
+        settings: pickSettings(config),
+        score: { p1: 0, p2: 0 },
+        winner: null,
+        abandoned: false,
+        rounds: [],
+        frames: []
+      });
+    }
+
+    const log = this.log!;
+    const last = log.rounds[log.rounds.length - 1];
+    if (state.phase === GameState.COUNTDOWN && state.round !== this.countdown.round) {
+      this.countdown = { round: state.round, at: this.elapsed() };
+    }
+
+    const resolved = state.phase === GameState.RESULT || state.phase === GameState.GAME_OVER;
+    if (resolved && state.result && state.round !== last?.round) {
+      const { result, seats, score } = state;
+      const throwOf = (seat: Seat): MatchLogThrow => ({
+        gesture: seats[seat].gesture,
+        confidence: Math.round(seats[seat].confidence * 100) / 100,
+        timing: result.timing?.[seat] ?? null
+      });
+      const round: MatchLogRound = {
+        round: state.round,
+        startedAt: this.countdown.at,
+        resolvedAt: this.elapsed(),
+        throws: { p1: throwOf('p1'), p2: throwOf('p2') },
+        bot: config.opponent === OpponentType.BOT && state.botDecision
+          ? { gesture: state.botDecision.gesture, predicted: state.botDecision.predicted }
+          : null,
+        winner: result.winner ?? 'unclear',
+        awardedTo: result.awardedTo ?? null,
+        score,
+        timeline: state.timeline?.entries ?? []
+      };
+      this.setLog({ ...log, score, rounds: [...log.rounds, round] });
+    } else {
+      this.extendTimeline(state);
+    }
+
+    if (state.phase === GameState.GAME_OVER && this.open) {
+      this.close({ winner: state.matchWinner });
+    }
+  }
+
+  // The last round's timeline keeps growing for a moment after the reveal
+  private extendTimeline(state: EngineState) {
+    const log = this.log;
+    const last = log?.rounds[log.rounds.length - 1];
+    if (!log || !last || state.round !== last.round || !state.timeline || state.timeline.entries === last.timeline) return;
+    const rounds = [...log.rounds];
+    rounds[rounds.length - 1] = { ...last, timeline: state.timeline.entries };
+    this.setLog({ ...log, rounds });
+  }
+
+  private elapsed(): number {
+    return Math.round(this.now() - this.startedAt);
+  }
+
+  private close({ winner = null, abandoned = false }: { winner?: MatchWinner | null; abandoned?: boolean }) {
+    this.open = false;
+    this.setLog({ ...this.log!, endedAt: this.wallClock(), winner, abandoned });
+  }
+
+  private setLog(log: MatchLog) {
+    this.log = log;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// --- Export ---
+
+export const serializeMatchLog = (log: MatchLog, { includeFrames = true } = {}): string => {
+  const { frames, ...rest } = log;
+  return JSON.stringify(includeFrames && frames ? log : rest);
+};
+
+const CSV_COLUMNS = [
+  'round', 'started_ms', 'resolved_ms', 'mode', 'opponent', 'difficulty',
+  'p1_gesture', 'p1_confidence', 'p1_timing', 'p2_gesture', 'p2_confidence', 'p2_timing',
+  'bot_predicted', 'winner', 'awarded_to', 'score_p1', 'score_p2'
+];
+
+const csvCell = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per round; match settings are repeated on every row so the file
+// stays flat. Frames are left out.
+export const matchLogToCsv = (log: MatchLog): string => {
+  const { mode, opponent, difficulty } = log.settings;
+  const rows = log.rounds.map(r => [
+    r.round, r.startedAt, r.resolvedAt, mode, opponent, difficulty,
+    r.throws.p1.gesture, r.throws.p1.confidence, r.throws.p1.timing,
+    r.throws.p2.gesture, r.throws.p2.confidence, r.throws.p2.timing,
+    r.bot?.predicted ?? null, r.winner, r.awardedTo, r.score.p1, r.score.p2
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// --- Import ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOneOf = (values: readonly unknown[]) => (value: unknown) => values.includes(value);
+
+const isGesture = isOneOf(Object.values(Gesture));
+const isSeat = isOneOf(SEATS);
+const isTimingFlag = isOneOf(['late_switch', 'late_throw']);
+const isRoundWinner = isOneOf([...SEATS, 'draw', 'invalid', 'unclear']);
+const isMatchWinner = isOneOf([...SEATS, 'draw']);
+const isConfidence = (value: unknown) => isNumber(value) && value >= 0 && value <= 1;
+
+// Lists everything wrong with a parsed match log, each as "path: problem".
+// An empty list means the data is a valid MatchLog.
+export const validateMatchLog = (data: unknown): string[] => {
+  const errors: string[] = [];
+  const check = (ok: boolean, path: string, expected: string) => {
+    if (!ok) errors.push(`${path}: expected ${expected}`);
+    return ok;
+  };
+  const checkScore = (value: unknown, path: string) => {
+    if (check(isRecord(value), path, 'a score')) {
+      SEATS.forEach(seat => check(Number.isInteger((value as Score)[seat]) && (value as Score)[seat] >= 0, `${path}.${seat}`, 'a whole number'));
+    }
+  };
+  const checkGestureEntry = (value: unknown, path: string) => {
+    if (!check(isRecord(value), path, 'an object')) return;
+    const entry = value as Record<string, unknown>;
+    check(isNumber(entry.t), `${path}.t`, 'a time');
+    check(isSeat(entry.seat), `${path}.seat`, 'p1 or p2');
+    check(isGesture(entry.gesture), `${path}.gesture`, 'a gesture');
+    check(isConfidence(entry.confidence), `${path}.confidence`, 'a number from 0 to 1');
+  };
+
+  if (!check(isRecord(data), 'log', 'an object')) return errors;
+  const log = data as Record<string, unknown>;
+  if (!check(log.version === MATCH_LOG_VERSION, 'version', String(MATCH_LOG_VERSION))) return errors;
+
+  check(isNumber(log.startedAt), 'startedAt', 'a timestamp');
+  check(log.endedAt === null || isNumber(log.endedAt), 'endedAt', 'a timestamp or null');
+  check(log.winner === null || isMatchWinner(log.winner), 'winner', 'p1, p2, draw or null');
+  check(typeof log.abandoned === 'boolean', 'abandoned', 'true or false');
+  checkScore(log.score, 'score');
+
+  if (check(isRecord(log.settings), 'settings', 'an object')) {
+    const s = log.settings as Record<string, unknown>;
+    check(isOneOf(Object.values(GameMode))(s.mode), 'settings.mode', 'a game mode');
+    check(isOneOf(Object.values(OpponentType))(s.opponent), 'settings.opponent', 'an opponent type');
+    check(isOneOf(Object.values(Difficulty))(s.difficulty), 'settings.difficulty', 'a difficulty');
+    check(isOneOf(Object.values(MatchFormat))(s.format), 'settings.format', 'a match format');
+    check(isNumber(s.target) && s.target > 0, 'settings.target', 'a positive number');
+    check(isOneOf(Object.values(DrawHandling))(s.drawHandling), 'settings.drawHandling', 'a draw handling');
+    check(typeof s.invalidCountsAsLoss === 'boolean', 'settings.invalidCountsAsLoss', 'true or false');
+    check(isNumber(s.countdownSeconds) && s.countdownSeconds > 0, 'settings.countdownSeconds', 'a positive number');
+    check(isNumber(s.shootGraceMs) && s.shootGraceMs >= 0, 'settings.shootGraceMs', 'a number of milliseconds');
+    check(typeof s.strictTiming === 'boolean', 'settings.strictTiming', 'true or false');
+  }
+
+  if (check(Array.isArray(log.rounds), 'rounds', 'a list')) {
+    (log.rounds as unknown[]).forEach((value, i) => {
+      const path = `rounds[${i}]`;
+      if (!check(isRecord(value), path, 'an object')) return;
+      const r = value as Record<string, unknown>;
+      check(Number.isInteger(r.round) && (r.round as number) > 0, `${path}.round`, 'a round number');
+      check(isNumber(r.startedAt), `${path}.startedAt`, 'a time');
+      check(isNumber(r.resolvedAt), `${path}.resolvedAt`, 'a time');
+      if (check(isRecord(r.throws), `${path}.throws`, 'an object')) {
+        SEATS.forEach(seat => {
+          const t = (r.throws as Record<string, unknown>)[seat];
+          if (!check(isRecord(t), `${path}.throws.${seat}`, 'an object')) return;
+          const thrown = t as Record<string, unknown>;
+          check(isGesture(thrown.gesture), `${path}.throws.${seat}.gesture`, 'a gesture');
+          check(isConfidence(thrown.confidence), `${path}.throws.${seat}.confidence`, 'a number from 0 to 1');
+          check(thrown.timing === null || isTimingFlag(thrown.timing), `${path}.throws.${seat}.timing`, 'late_switch, late_throw or null');
+        });
+      }
+      if (r.bot !== null && check(isRecord(r.bot), `${path}.bot`, 'an object or null')) {
+        const bot = r.bot as Record<string, unknown>;
+        check(isGesture(bot.gesture), `${path}.bot.gesture`, 'a gesture');
+        check(bot.predicted === null || isGesture(bot.predicted), `${path}.bot.predicted`, 'a gesture or null');
+      }
+      check(isRoundWinner(r.winner), `${path}.winner`, 'p1, p2, draw, invalid or unclear');
+      check(r.awardedTo === null || isSeat(r.awardedTo), `${path}.awardedTo`, 'p1, p2 or null');
+      checkScore(r.score, `${path}.score`);
+      if (check(Array.isArray(r.timeline), `${path}.timeline`, 'a list')) {
+        (r.timeline as unknown[]).forEach((entry, j) => checkGestureEntry(entry, `${path}.timeline[${j}]`));
+      }
+    });
+  }
+
+  if (log.frames !== undefined && check(Array.isArray(log.frames), 'frames', 'a list')) {
+    (log.frames as unknown[]).forEach((frame, i) => checkGestureEntry(frame, `frames[${i}]`));
+  }
+  return errors;
+};
+
+export const parseMatchLog = (json: string): MatchLog => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    // Most often the CSV export, which leaves out too much to be read back
+    throw new Error('Not a valid match log: not JSON; import the JSON export');
+  }
+  const errors = validateMatchLog(data);
+  if (errors.length > 0) {
+    const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : '';
+    throw new Error(`Not a valid match log: ${errors.slice(0, 3).join('; ')}${more}`);
+  }
+  return data as MatchLog;
+};
@@ -0,0 +1,115 @@
+import { GameState } from '../types';
+import { EngineState, GameEngine } from './gameEngine';
+import { HistoryStore } from './historyStore';
+import { RoundTimeline } from './throwTimeline';
+
+// Watches an engine and writes each resolved round and each match summary to
+// the history store. Writes are queued so they land in the order they happened.
+// A round's timeline keeps growing for a moment after the reveal, so the final
+// version is written once the next round starts or the match is left.
+
+export const recordMatches = (
+  engine: GameEngine,
+  store: HistoryStore,
+  sessionId: string,
+  onError: (err: unknown) => void = err => console.error('Failed to save match history:', err)
+): (() => void) => {
+  let queue: Promise<unknown> = Promise.resolve();
+  let matchId: Promise<number> | null = null;
+  let recordedRound = 0;
+  // Round id resolves to null when the round could not be saved
+  let openRound: { id: Promise<number | null>; round: number; timeline: RoundTimeline | null; saved: RoundTimeline | null } | null = null;
+
+  const enqueue = <T>(write: () => Promise<T>): Promise<T | null> => {
+    const written = queue.then(write).catch(err => {
+      onError(err);
+      return null;
+    });
+    queue = written;
+    return written;
+  };
+
+  const flushTimeline = () => {
+    const round = openRound;
+    openRound = null;
+    if (!round || round.timeline === round.saved) return;
+    enqueue(async () => {
+      const id = await round.id;
+      if (id !== null) await store.updateRound(id, { timeline: round.timeline ?? undefined });
+    });
+  };
+
+  const closeMatch = (changes: { winner?: 'p1' | 'p2'; abandoned?: boolean }) => {
+    const id = matchId!;
+    matchId = null;
+    recordedRound = 0;
+    enqueue(async () => store.updateMatch(await id, { endedAt: Date.now(), winner: changes.winner ?? null, abandoned: !!changes.abandoned }));
+  };
+
+  const onState = (state: EngineState) => {
+    const config = engine.getConfig();
+
+    if (openRound && state.round === openRound.round && state.phase !== GameState.IDLE) {
+      openRound.timeline = state.timeline;
+    } else {
+      flushTimeline();
+    }
+
+    if (state.phase === GameState.IDLE) {
+      if (matchId) closeMatch({ abandoned: true });
+      return;
+    }
+
+    if (!matchId) {
+      // Matches begin with their first countdown; anything else is the tail of one already closed.
+      if (state.phase !== GameState.COUNTDOWN) return;
+      const id = store.startMatch({
+        sessionId,
+        startedAt: Date.now(),
+        endedAt: null,
+        mode: config.mode,
+        opponent: config.opponent,
+        difficulty: config.difficulty,
+        score: state.score,
+        winner: null,
+        abandoned: false
+      });
+      // Keep the chain alive if the store can't open; rounds for this match are dropped.
+      id.catch(onError);
+      matchId = id;
+    }
+
+    const resolved = state.phase === GameState.RESULT || state.phase === GameState.GAME_OVER;
+    if (resolved && state.result && state.round !== recordedRound) {
+      recordedRound = state.round;
+      const id = matchId;
+      const { result, round, score, seats, timeline } = state;
+      const added = enqueue(async () => {
+        const matchKey = await id;
+        const roundId = await store.addRound({
+          matchId: matchKey,
+          sessionId,
+          timestamp: Date.now(),
+          round,
+          mode: config.mode,
+          opponent: config.opponent,
+          playerGesture: seats.p1.gesture,
+          opponentGesture: seats.p2.gesture,
+          confidence: seats.p1.confidence,
+          winner: result.winner,
+          timing: result.timing,
+          timeline: timeline ?? undefined
+        });
+        await store.updateMatch(matchKey, { score });
+        return roundId;
+      });
+      openRound = { id: added, round, timeline, saved: timeline };
+    }
+
+    if (state.phase === GameState.GAME_OVER) {
+      closeMatch({ winner: state.matchWinner === 'draw' ? undefined : state.matchWinner ?? undefined });
+    }
+  };
+
+  return engine.subscribe(onState);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, Gesture, MatchFormat, OpponentType } from '../types';
+import { EngineConfig, EngineState, GameEngine, ManualClock } from './gameEngine';
+import { GestureSource, ReplaySource, ScriptStep, ScriptedSource, parseRecording } from './gestureSources';
+import { simulateMatch } from './matchRunner';
+import { seededRng } from './random';
+
+// The player's hand during the countdown and lock-in of every round
+const ALWAYS_ROCK: ScriptStep[] = [{ gesture: Gesture.ROCK, durationMs: 1000 }];
+
+const run = async (makeSource: (clock: ManualClock) => GestureSource, seed: number, config: Partial<EngineConfig> = {}) => {
+  const clock = new ManualClock();
+  const engine = new GameEngine({ config: { opponent: OpponentType.BOT, ...config }, clock, random: seededRng(seed) });
+  const rounds: EngineState[] = [];
+  const state = await simulateMatch({ engine, source: makeSource(clock), clock, onRoundEnd: s => rounds.push(s) });
+  return { state, rounds };
+};
+
+const scripted = (steps: ScriptStep[]) => (clock: ManualClock) => new ScriptedSource(steps, () => clock.now());
+
+describe('simulateMatch', () => {
+  it('plays a scripted match to GAME_OVER', async () => {
+    const { state, rounds } = await run(scripted(ALWAYS_ROCK), 1, { format: MatchFormat.FIRST_TO, target: 3 });
+    expect(state.phase).toBe(GameState.GAME_OVER);
+    expect(Math.max(state.score.p1, state.score.p2)).toBe(3);
+    expect(rounds.length).toBe(state.round);
+    rounds.forEach(r => expect(r.seats.p1.gesture).toBe(Gesture.ROCK));
+  });
+
+  it('replays the same match from the same script and seed', async () => {
+    const summary = ({ state, rounds }: Awaited<ReturnType<typeof run>>) => ({
+      score: state.score,
+      throws: rounds.map(r => [r.seats.p1.gesture, r.seats.p2.gesture, r.result?.winner])
+    });
+    const first = summary(await run(scripted(ALWAYS_ROCK), 99));
+    const second = summary(await run(scripted(ALWAYS_ROCK), 99));
+    expect(second).toEqual(first);
+  });
+
+  it('gives up at maxMs when no hand is ever shown', async () => {
+    const clock = new ManualClock();
+    const engine = new GameEngine({ config: { opponent: OpponentType.BOT }, clock, random: seededRng(1) });
+    const source = new ScriptedSource([{ gesture: Gesture.NONE, durationMs: 1000 }], () => clock.now());
+    const rounds: EngineState[] = [];
+    const state = await simulateMatch({ engine, source, clock, maxMs: 30_000, onRoundEnd: s => rounds.push(s) });
+    expect(state.phase).not.toBe(GameState.GAME_OVER);
+    expect(state.score).toEqual({ p1: 0, p2: 0 });
+    expect(rounds.length).toBeGreaterThan(0);
+    rounds.forEach(r => expect(r.result?.winner).toBe('invalid'));
+    expect(clock.now()).toBeGreaterThanOrEqual(30_000);
+  });
+
+  it('plays a recorded stream through ReplaySource', async () => {
+    // Paper held for a minute, one frame every 33 ms
+    const frames = Array.from({ length: 1800 }, (_, i) => ({ t: i * 33, detection: { gesture: Gesture.PAPER, confidence: 0.95 } }));
+    const recording = parseRecording(JSON.stringify({ version: 1, name: 'paper', frames }));
+    const { state, rounds } = await run(clock => new ReplaySource(recording, { now: () => clock.now() }), 5);
+    expect(state.phase).toBe(GameState.GAME_OVER);
+    rounds.forEach(r => expect(r.seats.p1.gesture).toBe(Gesture.PAPER));
+  });
+});
+
+describe('parseRecording', () => {
+  it('rejects streams that are not recordings', () => {
+    expect(() => parseRecording('{"frames": []}')).toThrow(/version: 1/);
+    expect(() => parseRecording('{"version": 1, "frames": [{"detection": {"gesture": "ROCK"}}]}')).toThrow(/timestamp/);
+    expect(() => parseRecording('{"version": 1, "frames": [{"t": 0, "detection": {"gesture": "FIST"}}]}')).toThrow(/FIST/);
+  });
+});
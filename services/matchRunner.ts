@@ -0,0 +1,58 @@
+import { GameState } from '../types';
+import { EngineState, GameEngine, ManualClock } from './gameEngine';
+import { GestureSource } from './gestureSources';
+import { GestureStabilizer } from './gestureStabilizer';
+
+// Plays a whole match headlessly: a manual clock advances one frame at a
+// time, the source is read exactly like the live detection loop does, and a
+// new round starts as soon as the previous one is decided. Same source, same
+// seed, same result, which lets CI run full matches without a camera.
+
+export interface SimulationOptions {
+  engine: GameEngine;
+  source: GestureSource;
+  clock: ManualClock;
+  stabilizer?: GestureStabilizer;
+  frameMs?: number;
+  // Safety stop in simulated time.
+  maxMs?: number;
+  onRoundEnd?: (state: EngineState) => void;
+}
+
+export const simulateMatch = async ({
+  engine,
+  source,
+  clock,
+  stabilizer = new GestureStabilizer(),
+  frameMs = 1000 / 30,
+  maxMs = 10 * 60 * 1000,
+  onRoundEnd
+}: SimulationOptions): Promise<EngineState> => {
+  const startedAt = clock.now();
+  await source.start();
+
+  try {
+    engine.dispatch({ type: 'START_ROUND' });
+
+    while (clock.now() - startedAt < maxMs) {
+      clock.advance(frameMs);
+
+      const detection = source.read(clock.now());
+      if (detection) {
+        const stable = stabilizer.push(detection);
+        engine.dispatch({ type: 'LOCK_GESTURE', gesture: stable.gesture, confidence: stable.confidence });
+      }
+
+      const before = engine.getState().phase;
+      const state = engine.dispatch({ type: 'TICK' });
+      if (before === GameState.PLAYING && state.phase !== GameState.PLAYING) onRoundEnd?.(state);
+
+      if (state.phase === GameState.GAME_OVER) return state;
+      if (state.phase === GameState.RESULT) engine.dispatch({ type: 'START_ROUND' });
+    }
+  } finally {
+    source.stop();
+  }
+
+  return engine.getState();
+};
@@ -0,0 +1,161 @@
+import { Gesture } from '../types';
+import { StoredMatch, StoredRound } from './historyStore';
+
+// Aggregates for the stats dashboard, computed from the raw history rows.
+
+export type StreakKind = 'win' | 'loss' | 'draw';
+
+export interface Streak {
+  kind: StreakKind;
+  length: number;
+}
+
+export interface Transition {
+  from: Gesture;
+  to: Gesture;
+  count: number;
+  // Share of rounds after `from` in which the player threw `to`.
+  probability: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  startedAt: number;
+  rounds: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  matchesWon: number;
+  matchesLost: number;
+}
+
+export interface HistoryStats {
+  rounds: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  // Rounds with no hand or an unclear gesture
+  voided: number;
+  // Wins over decided rounds (draws excluded), 0..1; null before any are played
+  winRate: number | null;
+  matchesWon: number;
+  matchesLost: number;
+  currentStreak: Streak | null;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  gestureCounts: Partial<Record<Gesture, number>>;
+  predictableTransitions: Transition[];
+  sessions: SessionSummary[];
+}
+
+// Fewer follow-ups than this and a transition is noise, not a habit.
+const MIN_TRANSITION_SAMPLES = 3;
+const MAX_TRANSITIONS = 3;
+
+const outcomeOf = (round: StoredRound): StreakKind | null => {
+  if (round.winner === 'p1') return 'win';
+  if (round.winner === 'p2') return 'loss';
+  if (round.winner === 'draw') return 'draw';
+  return null;
+};
+
+const findTransitions = (rounds: StoredRound[]): Transition[] => {
+  const counts = new Map<Gesture, Map<Gesture, number>>();
+  for (let i = 1; i < rounds.length; i++) {
+    const prev = rounds[i - 1];
+    const next = rounds[i];
+    if (prev.matchId !== next.matchId) continue;
+    if (prev.playerGesture === Gesture.NONE || next.playerGesture === Gesture.NONE) continue;
+    const row = counts.get(prev.playerGesture) ?? new Map<Gesture, number>();
+    row.set(next.playerGesture, (row.get(next.playerGesture) ?? 0) + 1);
+    counts.set(prev.playerGesture, row);
+  }
+
+  const transitions: Transition[] = [];
+  counts.forEach((row, from) => {
+    let total = 0;
+    let top: { to: Gesture; count: number } | null = null;
+    for (const [to, count] of row) {
+      total += count;
+      if (!top || count > top.count) top = { to, count };
+    }
+    if (top && total >= MIN_TRANSITION_SAMPLES) {
+      transitions.push({ from, to: top.to, count: top.count, probability: top.count / total });
+    }
+  });
+  return transitions.sort((a, b) => b.probability - a.probability || b.count - a.count).slice(0, MAX_TRANSITIONS);
+};
+
+const summarizeSessions = (rounds: StoredRound[], matches: StoredMatch[]): SessionSummary[] => {
+  const sessions = new Map<string, SessionSummary>();
+  const sessionFor = (sessionId: string, at: number) => {
+    let s = sessions.get(sessionId);
+    if (!s) {
+      s = { sessionId, startedAt: at, rounds: 0, wins: 0, losses: 0, draws: 0, matchesWon: 0, matchesLost: 0 };
+      sessions.set(sessionId, s);
+    }
+    s.startedAt = Math.min(s.startedAt, at);
+    return s;
+  };
+
+  rounds.forEach(r => {
+    const s = sessionFor(r.sessionId, r.timestamp);
+    s.rounds++;
+    const outcome = outcomeOf(r);
+    if (outcome === 'win') s.wins++;
+    if (outcome === 'loss') s.losses++;
+    if (outcome === 'draw') s.draws++;
+  });
+  matches.forEach(m => {
+    const s = sessionFor(m.sessionId, m.startedAt);
+    if (m.winner === 'p1') s.matchesWon++;
+    if (m.winner === 'p2') s.matchesLost++;
+  });
+
+  return [...sessions.values()].sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const computeStats = (rounds: StoredRound[], matches: StoredMatch[]): HistoryStats => {
+  const ordered = [...rounds].sort((a, b) => a.timestamp - b.timestamp || (a.id ?? 0) - (b.id ?? 0));
+  const stats: HistoryStats = {
+    rounds: ordered.length,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    voided: 0,
+    winRate: null,
+    matchesWon: matches.filter(m => m.winner === 'p1').length,
+    matchesLost: matches.filter(m => m.winner === 'p2').length,
+    currentStreak: null,
+    longestWinStreak: 0,
+    longestLossStreak: 0,
+    gestureCounts: {},
+    predictableTransitions: findTransitions(ordered),
+    sessions: summarizeSessions(ordered, matches)
+  };
+
+  // Voided rounds neither extend nor break a streak
+  let streak: Streak | null = null;
+  for (const round of ordered) {
+    if (round.playerGesture !== Gesture.NONE) {
+      stats.gestureCounts[round.playerGesture] = (stats.gestureCounts[round.playerGesture] ?? 0) + 1;
+    }
+    const outcome = outcomeOf(round);
+    if (!outcome) {
+      stats.voided++;
+      continue;
+    }
+    if (outcome === 'win') stats.wins++;
+    if (outcome === 'loss') stats.losses++;
+    if (outcome === 'draw') stats.draws++;
+
+    streak = streak && streak.kind === outcome ? { kind: outcome, length: streak.length + 1 } : { kind: outcome, length: 1 };
+    if (streak.kind === 'win') stats.longestWinStreak = Math.max(stats.longestWinStreak, streak.length);
+    if (streak.kind === 'loss') stats.longestLossStreak = Math.max(stats.longestLossStreak, streak.length);
+  }
+
+  stats.currentStreak = streak;
+  const decided = stats.wins + stats.losses;
+  stats.winRate = decided > 0 ? stats.wins / decided : null;
+  return stats;
+};
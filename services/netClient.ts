@@ -0,0 +1,305 @@
+import { Gesture, Message, Seat } from '../types';
+import { LockInOutcome } from './gestureStabilizer';
+import {
+  ClientMessage,
+  PROTOCOL_VERSION,
+  Reveal,
+  RoomRules,
+  ServerMessage,
+  commitHash,
+  createNonce,
+  hasWebCrypto,
+  parseMessage,
+  verifyReveal
+} from './netProtocol';
+
+// Browser side of a network match. Keeps a snapshot for the UI (same
+// subscribe/getState shape as GameEngine) and hands round events to the
+// callbacks the app registers.
+
+export type NetStatus = 'idle' | 'connecting' | 'waiting' | 'paired' | 'reconnecting' | 'closed';
+
+export interface NetState {
+  status: NetStatus;
+  code: string | null;
+  seat: Seat | null;
+  // Last round the relay started.
+  round: number;
+  rules: RoomRules | null;
+  latencyMs: number | null;
+  opponentConnected: boolean;
+  opponentReady: boolean;
+  error: Message | null;
+}
+
+export interface NetCallbacks {
+  // `localCountdownEndsAt` is when the throw is due, in performance.now() time.
+  onRoundStart?: (round: number, localCountdownEndsAt: number) => void;
+  onOpponentThrow?: (round: number, outcome: LockInOutcome, forfeitLocal: boolean) => void;
+}
+
+const INITIAL_STATE: NetState = {
+  status: 'idle',
+  code: null,
+  seat: null,
+  round: 0,
+  rules: null,
+  latencyMs: null,
+  opponentConnected: false,
+  opponentReady: false,
+  error: null
+};
+
+const PING_INTERVAL_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 8000;
+
+const toOutcome = (reveal: Reveal): LockInOutcome =>
+  reveal.status === 'locked' ? { status: 'locked', gesture: reveal.gesture } : { status: reveal.status };
+
+export class NetMatchClient {
+  private socket: WebSocket | null = null;
+  private state: NetState = INITIAL_STATE;
+  private listeners = new Set<(state: NetState) => void>();
+  private callbacks: NetCallbacks = {};
+  private playerId: string | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private clockOffset = 0;
+  private leaving = false;
+
+  // Per-round commit-reveal bookkeeping
+  private myReveal: { round: number; reveal: Reveal; hash: string } | null = null;
+  private opponentHash: { round: number; hash: string } | null = null;
+  private settledRound = 0;
+  private forfeitedRound = 0;
+  private revealRound = 0;
+
+  constructor(private url: string) {}
+
+  public getState = (): NetState => this.state;
+
+  public subscribe = (listener: (state: NetState) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public setCallbacks(callbacks: NetCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  // Server time estimated from ping round trips.
+  public serverNow(): number {
+    return Date.now() + this.clockOffset;
+  }
+
+  public createRoom(rules: RoomRules) {
+    if (this.checkWebCrypto()) this.open({ type: 'create_room', version: PROTOCOL_VERSION, rules });
+  }
+
+  public joinRoom(code: string) {
+    if (this.checkWebCrypto()) this.open({ type: 'join_room', version: PROTOCOL_VERSION, code: code.trim().toUpperCase() });
+  }
+
+  // Asks the relay for the next round; it starts once both sides are ready.
+  public ready() {
+    this.send({ type: 'ready', round: this.state.round + 1 });
+  }
+
+  // Commits to our locked throw; the reveal is sent once the relay asks.
+  // Never rejects: a failure shows up as the state's error.
+  public async submitThrow(round: number, outcome: LockInOutcome) {
+    try {
+      const reveal: Reveal = {
+        gesture: outcome.status === 'locked' ? outcome.gesture : Gesture.NONE,
+        status: outcome.status,
+        nonce: createNonce()
+      };
+      const hash = await commitHash(round, reveal);
+      this.myReveal = { round, reveal, hash };
+      this.send({ type: 'commit', round, hash });
+    } catch (err) {
+      this.fail(err);
+    }
+  }
+
+  public leave() {
+    this.leaving = true;
+    this.send({ type: 'leave' });
+    this.teardown();
+    this.playerId = null;
+    this.setState({ ...INITIAL_STATE });
+  }
+
+  private open(first: ClientMessage) {
+    this.leaving = false;
+    this.teardown();
+    this.setState({ ...this.state, status: this.playerId ? 'reconnecting' : 'connecting', error: null });
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (err: any) {
+      this.setState({ ...this.state, status: 'closed', error: { key: 'error.net.unreachable', params: { message: String(err?.message ?? err) } } });
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.send(first);
+      this.ping();
+      this.pingTimer = setInterval(() => this.ping(), PING_INTERVAL_MS);
+    };
+    socket.onmessage = event => {
+      const message = parseMessage<ServerMessage>(String(event.data));
+      if (message) this.handle(message).catch(err => this.fail(err));
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.teardown();
+      if (this.leaving || this.state.status === 'closed') return;
+      if (this.playerId && this.state.code) this.scheduleReconnect();
+      else this.setState({ ...this.state, status: 'closed', error: this.state.error ?? { key: 'error.net.connection_lost' } });
+    };
+  }
+
+  private checkWebCrypto(): boolean {
+    if (hasWebCrypto()) return true;
+    this.setState({ ...this.state, status: 'closed', error: { key: 'error.net.insecure_context' } });
+    return false;
+  }
+
+  // Without a working commit-reveal the round can't finish; leave the room
+  // rather than hang, and say why
+  private fail(err: any) {
+    console.error('Online match error:', err);
+    this.leaving = true;
+    this.send({ type: 'leave' });
+    this.teardown();
+    this.playerId = null;
+    this.setState({ ...this.state, status: 'closed', opponentConnected: false, error: { key: 'error.net.client', params: { message: String(err?.message ?? err) } } });
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, 500 * 2 ** this.reconnectAttempts++);
+    this.setState({ ...this.state, status: 'reconnecting' });
+    this.reconnectTimer = setTimeout(() => {
+      this.open({ type: 'join_room', version: PROTOCOL_VERSION, code: this.state.code!, playerId: this.playerId! });
+    }, delay);
+  }
+
+  private teardown() {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.pingTimer = null;
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    if (socket && socket.readyState <= WebSocket.OPEN) socket.close();
+  }
+
+  private ping() {
+    this.send({ type: 'ping', clientTime: Date.now() });
+  }
+
+  private send(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private settle(round: number, outcome: LockInOutcome, forfeitLocal = false) {
+    if (round <= this.settledRound) return;
+    this.settledRound = round;
+    this.callbacks.onOpponentThrow?.(round, outcome, forfeitLocal || this.forfeitedRound === round);
+  }
+
+  private async handle(message: ServerMessage) {
+    switch (message.type) {
+      case 'joined':
+        this.playerId = message.playerId;
+        // Only rounds the relay finished; one still running settles as usual
+        this.settledRound = Math.max(this.settledRound, message.settledRound);
+        this.setState({
+          ...this.state,
+          status: message.opponentPresent ? 'paired' : 'waiting',
+          code: message.code,
+          seat: message.seat,
+          rules: message.rules,
+          round: message.round,
+          opponentConnected: message.opponentPresent,
+          error: null
+        });
+        // A commitment sent while the connection was down never arrived
+        if (this.myReveal?.round === message.round && message.round > message.settledRound && !message.committed) {
+          this.send({ type: 'commit', round: message.round, hash: this.myReveal.hash });
+        }
+        return;
+      case 'opponent_joined':
+      case 'opponent_reconnected':
+        this.setState({ ...this.state, status: 'paired', opponentConnected: true });
+        return;
+      case 'opponent_disconnected':
+        this.setState({ ...this.state, opponentConnected: false, opponentReady: false });
+        return;
+      case 'opponent_ready':
+        this.setState({ ...this.state, opponentReady: true });
+        return;
+      case 'round_start': {
+        this.setState({ ...this.state, round: message.round, opponentReady: false });
+        this.callbacks.onRoundStart?.(message.round, performance.now() + (message.countdownEndsAt - this.serverNow()));
+        return;
+      }
+      case 'opponent_committed':
+        this.opponentHash = { round: message.round, hash: message.hash };
+        return;
+      case 'reveal_requested':
+        this.revealRound = message.round;
+        if (this.myReveal?.round === message.round) {
+          this.send({ type: 'reveal', round: message.round, reveal: this.myReveal.reveal });
+        }
+        return;
+      case 'opponent_revealed': {
+        const hash = this.opponentHash?.round === message.round ? this.opponentHash.hash : null;
+        const valid = hash !== null && (await verifyReveal(message.round, hash, message.reveal));
+        if (!valid) this.setState({ ...this.state, error: { key: 'error.net.bad_reveal' } });
+        this.settle(message.round, valid ? toOutcome(message.reveal) : { status: 'no_hand' });
+        return;
+      }
+      case 'round_forfeit': {
+        const mine = this.state.seat !== null && message.seats.includes(this.state.seat);
+        const theirs = message.seats.some(seat => seat !== this.state.seat);
+        // A bad reveal of ours still leaves the opponent's reveal on its way;
+        // a missed commit means they never reveal.
+        if (mine && !theirs && this.revealRound === message.round) this.forfeitedRound = message.round;
+        else this.settle(message.round, { status: 'no_hand' }, mine);
+        return;
+      }
+      case 'pong': {
+        const rtt = Date.now() - message.clientTime;
+        this.clockOffset = message.serverTime + rtt / 2 - Date.now();
+        this.setState({ ...this.state, latencyMs: Math.round(rtt) });
+        return;
+      }
+      case 'room_closed':
+        this.teardown();
+        this.playerId = null;
+        this.setState({ ...this.state, status: 'closed', opponentConnected: false, error: { key: `error.net.closed.${message.reason}` } });
+        return;
+      case 'error':
+        this.setState({ ...this.state, error: { key: `error.net.${message.code}` } });
+        if (message.code === 'room_not_found' || message.code === 'room_full' || message.code === 'version_mismatch' || message.code === 'bad_rules') {
+          this.teardown();
+          this.playerId = null;
+          this.setState({ ...this.state, status: 'closed' });
+        }
+        return;
+    }
+  }
+
+  private setState(next: NetState) {
+    this.state = next;
+    this.listeners.forEach(l => l(next));
+  }
+}
@@ -0,0 +1,135 @@
+import { DrawHandling, GameMode, Gesture, MatchFormat, Seat } from '../types';
+import { FormatSettings } from './matchFormat';
+import { SETTING_LIMITS } from './settingsStore';
+
+// Wire protocol shared by the browser client and the relay server.
+//
+// A round runs as commit-reveal: once a client's gesture is locked it sends
+// only SHA-256(round:gesture:status:nonce). The relay forwards commitments
+// as they arrive and asks for reveals only after both sides have committed,
+// so neither client can learn the other's throw before fixing its own. Each
+// client then checks the opponent's reveal against the earlier commitment.
+
+export const PROTOCOL_VERSION = 1;
+
+export type ThrowStatus = 'locked' | 'unclear' | 'no_hand';
+
+export interface Reveal {
+  gesture: Gesture;
+  status: ThrowStatus;
+  nonce: string;
+}
+
+// Rules are fixed by the room creator so both clients judge the match the same way.
+export interface RoomRules extends FormatSettings {
+  mode: GameMode;
+}
+
+export type ClientMessage =
+  | { type: 'create_room'; version: number; rules: RoomRules }
+  | { type: 'join_room'; version: number; code: string; playerId?: string }
+  | { type: 'ready'; round: number }
+  | { type: 'commit'; round: number; hash: string }
+  | { type: 'reveal'; round: number; reveal: Reveal }
+  | { type: 'ping'; clientTime: number }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  // `settledRound` is the last round the relay finished; `committed` says
+  // whether it holds this seat's commitment for `round`.
+  | {
+      type: 'joined';
+      code: string;
+      playerId: string;
+      seat: Seat;
+      rules: RoomRules;
+      opponentPresent: boolean;
+      round: number;
+      settledRound: number;
+      committed: boolean;
+    }
+  | { type: 'opponent_joined' }
+  | { type: 'opponent_disconnected'; graceMs: number }
+  | { type: 'opponent_reconnected' }
+  | { type: 'opponent_ready'; round: number }
+  | { type: 'round_start'; round: number; countdownEndsAt: number; countdownMs: number; commitDeadline: number }
+  | { type: 'opponent_committed'; round: number; hash: string }
+  | { type: 'reveal_requested'; round: number }
+  | { type: 'opponent_revealed'; round: number; reveal: Reveal }
+  // Seats whose throw the relay rejected (missed deadline or bad reveal).
+  | { type: 'round_forfeit'; round: number; seats: Seat[] }
+  | { type: 'pong'; clientTime: number; serverTime: number }
+  | { type: 'room_closed'; reason: RoomClosedReason }
+  // `message` is for logs; clients show text for `code`.
+  | { type: 'error'; code: NetErrorCode; message: string };
+
+export type NetErrorCode =
+  | 'bad_message'
+  | 'version_mismatch'
+  | 'room_not_found'
+  | 'room_full'
+  | 'out_of_phase'
+  | 'bad_rules';
+
+export type RoomClosedReason = 'opponent_left' | 'opponent_timeout' | 'server_shutdown';
+
+// Problems with a room's rules, checked against the settings panel's limits
+// since the joining client applies them as its own match settings.
+export const validateRoomRules = (data: unknown): string[] => {
+  if (!data || typeof data !== 'object') return ['rules must be an object'];
+  const rules = data as Partial<Record<keyof RoomRules, unknown>>;
+  const problems: string[] = [];
+  const oneOf = (field: keyof RoomRules, values: string[]) => {
+    if (!values.includes(rules[field] as string)) problems.push(`${field} must be one of ${values.join(', ')}`);
+  };
+
+  oneOf('mode', Object.values(GameMode));
+  oneOf('format', Object.values(MatchFormat));
+  oneOf('drawHandling', Object.values(DrawHandling));
+  const { min, max } = rules.format === MatchFormat.TIMED ? SETTING_LIMITS.timedTarget : SETTING_LIMITS.target;
+  if (!Number.isInteger(rules.target) || (rules.target as number) < min || (rules.target as number) > max) {
+    problems.push(`target must be a whole number from ${min} to ${max}`);
+  }
+  if (typeof rules.invalidCountsAsLoss !== 'boolean') problems.push('invalidCountsAsLoss must be true or false');
+  return problems;
+};
+
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 5;
+
+export const DEFAULT_COUNTDOWN_MS = 3000;
+// Time after the countdown ends in which both sides must commit.
+export const COMMIT_WINDOW_MS = 2500;
+export const RECONNECT_GRACE_MS = 30_000;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+// Browsers only expose crypto.subtle on secure origins (https or localhost),
+// so a game opened over http on a LAN address can't take part.
+export const hasWebCrypto = (): boolean => globalThis.crypto?.subtle !== undefined;
+
+// Uses WebCrypto, which both browsers and Node 20 expose on globalThis.
+export const commitHash = async (round: number, reveal: Reveal): Promise<string> => {
+  const payload = `${round}:${reveal.gesture}:${reveal.status}:${reveal.nonce}`;
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return toHex(digest);
+};
+
+export const createNonce = (): string => {
+  const bytes = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+};
+
+export const verifyReveal = async (round: number, hash: string, reveal: Reveal): Promise<boolean> =>
+  (await commitHash(round, reveal)) === hash;
+
+export const parseMessage = <T>(raw: string): T | null => {
+  try {
+    const data = JSON.parse(raw);
+    return data && typeof data.type === 'string' ? data : null;
+  } catch {
+    return null;
+  }
+};
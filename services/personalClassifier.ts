@@ -0,0 +1,184 @@
+import { Gesture } from '../types';
+import { HAND, Point3, distance } from './handGeometry';
+import { Handedness } from './landmarkClassifier';
+
+// Nearest-neighbour classifier trained on one person's calibration samples.
+// Landmarks are normalized first (wrist at the origin, wrist-to-middle-knuckle
+// as unit length and pointing up, left hands mirrored) so position, distance
+// to the camera and hand roll don't count as differences.
+
+export const PROFILE_VERSION = 1;
+
+export interface LandmarkSample {
+  gesture: Gesture;
+  features: number[];
+}
+
+export interface GestureProfile {
+  version: typeof PROFILE_VERSION;
+  name: string;
+  createdAt: number;
+  k: number;
+  // Hands further than this from every sample are not classified.
+  rejectDistance: number;
+  samples: LandmarkSample[];
+}
+
+export interface ConfusionMatrix {
+  gestures: Gesture[];
+  // counts[actual][predicted], in `gestures` order; the last column is "no match".
+  counts: number[][];
+  accuracy: number;
+}
+
+export const DEFAULT_K = 5;
+// Headroom over the spread seen in training before a hand counts as unknown.
+const REJECT_MARGIN = 1.5;
+
+export const normalizeLandmarks = (lm: Point3[], handedness: Handedness | null): number[] => {
+  const wrist = lm[HAND.WRIST];
+  const knuckle = lm[HAND.MIDDLE_MCP];
+  const scale = Math.max(distance(wrist, knuckle), 1e-6);
+  // Rotate the wrist->knuckle direction onto -y (up in image space)
+  const angle = -Math.atan2(knuckle.x - wrist.x, -(knuckle.y - wrist.y));
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const mirror = handedness === 'Left' ? -1 : 1;
+
+  const features: number[] = [];
+  lm.forEach(p => {
+    const x = (p.x - wrist.x) / scale;
+    const y = (p.y - wrist.y) / scale;
+    features.push(
+      Math.round(mirror * (x * cos - y * sin) * 1e4) / 1e4,
+      Math.round((x * sin + y * cos) * 1e4) / 1e4,
+      Math.round(((p.z - wrist.z) / scale) * 1e4) / 1e4
+    );
+  });
+  return features;
+};
+
+const featureDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+export interface PersonalClassification {
+  gesture: Gesture;
+  confidence: number;
+  nearestDistance: number;
+}
+
+export const classifyFeatures = (
+  samples: LandmarkSample[],
+  features: number[],
+  options: { k?: number; rejectDistance?: number; allowed?: Gesture[] } = {}
+): PersonalClassification => {
+  const pool = options.allowed ? samples.filter(s => options.allowed!.includes(s.gesture)) : samples;
+  const neighbours = pool
+    .map(s => ({ gesture: s.gesture, d: featureDistance(s.features, features) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, options.k ?? DEFAULT_K);
+
+  if (neighbours.length === 0) return { gesture: Gesture.NONE, confidence: 0, nearestDistance: Infinity };
+  const nearestDistance = neighbours[0].d;
+  if (options.rejectDistance !== undefined && nearestDistance > options.rejectDistance) {
+    return { gesture: Gesture.NONE, confidence: 0, nearestDistance };
+  }
+
+  // Closer neighbours get a bigger vote
+  const votes = new Map<Gesture, number>();
+  let total = 0;
+  neighbours.forEach(({ gesture, d }) => {
+    const weight = 1 / (d + 1e-3);
+    votes.set(gesture, (votes.get(gesture) ?? 0) + weight);
+    total += weight;
+  });
+  let best: Gesture = Gesture.NONE;
+  let bestVotes = 0;
+  votes.forEach((v, g) => {
+    if (v > bestVotes) {
+      best = g;
+      bestVotes = v;
+    }
+  });
+  return { gesture: best, confidence: bestVotes / total, nearestDistance };
+};
+
+export const classifyWithProfile = (
+  profile: GestureProfile,
+  lm: Point3[],
+  handedness: Handedness | null,
+  allowed?: Gesture[]
+): PersonalClassification =>
+  classifyFeatures(profile.samples, normalizeLandmarks(lm, handedness), {
+    k: profile.k,
+    rejectDistance: profile.rejectDistance,
+    allowed
+  });
+
+export const trainProfile = (name: string, samples: LandmarkSample[], k = DEFAULT_K): GestureProfile => {
+  // Spread of each class: how far every sample is from its closest sibling
+  let spread = 0;
+  samples.forEach((s, i) => {
+    let nearest = Infinity;
+    samples.forEach((o, j) => {
+      if (i !== j && o.gesture === s.gesture) nearest = Math.min(nearest, featureDistance(s.features, o.features));
+    });
+    if (Number.isFinite(nearest)) spread = Math.max(spread, nearest);
+  });
+
+  return {
+    version: PROFILE_VERSION,
+    name,
+    createdAt: Date.now(),
+    k,
+    // With one sample per gesture there is no spread to go by
+    rejectDistance: spread > 0 ? spread * REJECT_MARGIN : Infinity,
+    samples
+  };
+};
+
+// Leave-one-out evaluation of the profile on its own samples. Samples from
+// consecutive frames are near-duplicates, so read it as "which gestures does
+// this profile mix up" rather than as expected accuracy.
+export const confusionMatrix = (profile: GestureProfile): ConfusionMatrix => {
+  const gestures = [...new Set(profile.samples.map(s => s.gesture))];
+  const counts = gestures.map(() => new Array(gestures.length + 1).fill(0));
+  let correct = 0;
+
+  profile.samples.forEach((sample, i) => {
+    const rest = profile.samples.filter((_, j) => j !== i);
+    const { gesture } = classifyFeatures(rest, sample.features, { k: profile.k, rejectDistance: profile.rejectDistance });
+    const predicted = gesture === Gesture.NONE ? gestures.length : gestures.indexOf(gesture);
+    counts[gestures.indexOf(sample.gesture)][predicted]++;
+    if (gesture === sample.gesture) correct++;
+  });
+
+  return { gestures, counts, accuracy: profile.samples.length ? correct / profile.samples.length : 0 };
+};
+
+export const parseProfile = (json: string): GestureProfile => {
+  const data = JSON.parse(json);
+  if (!data || data.version !== PROFILE_VERSION || !Array.isArray(data.samples)) {
+    throw new Error(`Not a gesture profile (expected { version: ${PROFILE_VERSION}, samples: [...] })`);
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) throw new Error('Profile has no name');
+  data.samples.forEach((s: LandmarkSample, i: number) => {
+    if (!Object.values(Gesture).includes(s.gesture) || s.gesture === Gesture.NONE) {
+      throw new Error(`Sample ${i} has unknown gesture "${s.gesture}"`);
+    }
+    if (!Array.isArray(s.features) || s.features.length !== 63 || s.features.some(f => typeof f !== 'number')) {
+      throw new Error(`Sample ${i} does not have 21 normalized landmarks`);
+    }
+  });
+  return {
+    version: PROFILE_VERSION,
+    name: data.name,
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+    k: Number.isInteger(data.k) && data.k > 0 ? data.k : DEFAULT_K,
+    rejectDistance: typeof data.rejectDistance === 'number' ? data.rejectDistance : Infinity,
+    samples: data.samples
+  };
+};
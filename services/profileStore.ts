@@ -0,0 +1,63 @@
+import { GestureProfile, parseProfile } from './personalClassifier';
+
+// Calibration profiles in localStorage, keyed by name, plus which one is active.
+
+const PROFILES_KEY = 'rps-gesture-profiles';
+const ACTIVE_KEY = 'rps-active-profile';
+
+class ProfileStore {
+  constructor(private storage: Storage | undefined = globalThis.localStorage) {}
+
+  public list(): GestureProfile[] {
+    try {
+      const raw = JSON.parse(this.storage?.getItem(PROFILES_KEY) ?? '[]');
+      if (!Array.isArray(raw)) return [];
+      // Skip entries a newer or broken version left behind rather than losing them all
+      return raw.flatMap(p => {
+        try {
+          return [parseProfile(JSON.stringify(p))];
+        } catch {
+          return [];
+        }
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  public get(name: string): GestureProfile | null {
+    return this.list().find(p => p.name === name) ?? null;
+  }
+
+  // Saving under an existing name replaces that profile.
+  public save(profile: GestureProfile) {
+    const others = this.list().filter(p => p.name !== profile.name);
+    this.write([...others, profile]);
+  }
+
+  public remove(name: string) {
+    this.write(this.list().filter(p => p.name !== name));
+    if (this.getActiveName() === name) this.setActiveName(null);
+  }
+
+  public getActiveName(): string | null {
+    return this.storage?.getItem(ACTIVE_KEY) ?? null;
+  }
+
+  public getActive(): GestureProfile | null {
+    const name = this.getActiveName();
+    return name ? this.get(name) : null;
+  }
+
+  public setActiveName(name: string | null) {
+    if (name) this.storage?.setItem(ACTIVE_KEY, name);
+    else this.storage?.removeItem(ACTIVE_KEY);
+  }
+
+  private write(profiles: GestureProfile[]) {
+    // Throws on a full quota so the caller can tell the user the profile wasn't kept
+    this.storage?.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  }
+}
+
+export const profileStore = new ProfileStore();
@@ -0,0 +1,17 @@
+export type Rng = () => number;
+
+// mulberry32: tiny, fast and good enough for game decisions. The same seed
+// always yields the same sequence, which keeps bot behaviour reproducible.
+export const seededRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const pick = <T>(items: T[], random: Rng): T =>
+  items[Math.floor(random() * items.length)];
@@ -0,0 +1,75 @@
+import { GameMode, Gesture, Message } from '../types';
+
+export type Verb =
+  | 'crushes'
+  | 'covers'
+  | 'disproves'
+  | 'cuts'
+  | 'decapitates'
+  | 'poisons'
+  | 'eats'
+  | 'smashes'
+  | 'vaporizes';
+
+// Data-driven rules: `beats[a][b]` holds the verb used when `a` defeats `b`.
+// Any pair not listed in either direction is a draw (only identical throws).
+export interface RuleSet {
+  mode: GameMode;
+  gestures: Gesture[];
+  beats: Partial<Record<Gesture, Partial<Record<Gesture, Verb>>>>;
+}
+
+export interface ThrowOutcome {
+  winner: 'first' | 'second' | 'draw';
+  verb?: Verb;
+  description?: Message;
+}
+
+export const gestureLabel = (gesture: Gesture): Message => ({ key: `gesture.${gesture}` });
+
+export const RULE_SETS: Record<GameMode, RuleSet> = {
+  [GameMode.CLASSIC]: {
+    mode: GameMode.CLASSIC,
+    gestures: [Gesture.ROCK, Gesture.PAPER, Gesture.SCISSORS],
+    beats: {
+      [Gesture.ROCK]: { [Gesture.SCISSORS]: 'crushes' },
+      [Gesture.PAPER]: { [Gesture.ROCK]: 'covers' },
+      [Gesture.SCISSORS]: { [Gesture.PAPER]: 'cuts' }
+    }
+  },
+  [GameMode.RPSLS]: {
+    mode: GameMode.RPSLS,
+    gestures: [Gesture.ROCK, Gesture.PAPER, Gesture.SCISSORS, Gesture.LIZARD, Gesture.SPOCK],
+    beats: {
+      [Gesture.ROCK]: { [Gesture.SCISSORS]: 'crushes', [Gesture.LIZARD]: 'crushes' },
+      [Gesture.PAPER]: { [Gesture.ROCK]: 'covers', [Gesture.SPOCK]: 'disproves' },
+      [Gesture.SCISSORS]: { [Gesture.PAPER]: 'cuts', [Gesture.LIZARD]: 'decapitates' },
+      [Gesture.LIZARD]: { [Gesture.SPOCK]: 'poisons', [Gesture.PAPER]: 'eats' },
+      [Gesture.SPOCK]: { [Gesture.SCISSORS]: 'smashes', [Gesture.ROCK]: 'vaporizes' }
+    }
+  }
+};
+
+export const isPlayable = (rules: RuleSet, gesture: Gesture): boolean =>
+  rules.gestures.includes(gesture);
+
+export const describeWin = (winner: Gesture, loser: Gesture, verb: Verb): Message => ({
+  key: 'rule.beats',
+  params: { winner: gestureLabel(winner), verb: { key: `verb.${verb}` }, loser: gestureLabel(loser) }
+});
+
+export const resolveThrow = (rules: RuleSet, first: Gesture, second: Gesture): ThrowOutcome => {
+  if (first === second) return { winner: 'draw' };
+
+  const firstVerb = rules.beats[first]?.[second];
+  if (firstVerb) {
+    return { winner: 'first', verb: firstVerb, description: describeWin(first, second, firstVerb) };
+  }
+
+  const secondVerb = rules.beats[second]?.[first];
+  if (secondVerb) {
+    return { winner: 'second', verb: secondVerb, description: describeWin(second, first, secondVerb) };
+  }
+
+  return { winner: 'draw' };
+};
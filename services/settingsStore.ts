@@ -0,0 +1,81 @@
+import { DrawHandling, MatchFormat } from '../types';
+import { ASSIGNMENT_STRATEGIES, AssignmentStrategy } from './handAssignment';
+import { DEFAULT_ENGINE_CONFIG, EngineConfig } from './gameEngine';
+import { DEFAULT_TARGETS } from './matchFormat';
+
+// Match settings chosen in the settings panel, kept in localStorage between
+// visits. Anything missing or out of range falls back to the engine default.
+
+export type MatchSettings = Pick<
+  EngineConfig,
+  'format' | 'target' | 'countdownSeconds' | 'lockInMs' | 'drawHandling' | 'invalidCountsAsLoss' | 'strictTiming' | 'handAssignment'
+>;
+
+const STORAGE_KEY = 'rps-settings';
+const SETTINGS_VERSION = 1;
+
+export const SETTING_LIMITS = {
+  target: { min: 1, max: 99 },
+  timedTarget: { min: 10, max: 600 },
+  countdownSeconds: { min: 1, max: 10 },
+  lockInMs: { min: 100, max: 2000 }
+};
+
+export const DEFAULT_SETTINGS: MatchSettings = {
+  format: DEFAULT_ENGINE_CONFIG.format,
+  target: DEFAULT_ENGINE_CONFIG.target,
+  countdownSeconds: DEFAULT_ENGINE_CONFIG.countdownSeconds,
+  lockInMs: DEFAULT_ENGINE_CONFIG.lockInMs,
+  drawHandling: DEFAULT_ENGINE_CONFIG.drawHandling,
+  invalidCountsAsLoss: DEFAULT_ENGINE_CONFIG.invalidCountsAsLoss,
+  strictTiming: DEFAULT_ENGINE_CONFIG.strictTiming,
+  handAssignment: DEFAULT_ENGINE_CONFIG.handAssignment
+};
+
+const inRange = (value: unknown, { min, max }: { min: number; max: number }): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+export const sanitizeSettings = (raw: Partial<Record<keyof MatchSettings, unknown>>): MatchSettings => {
+  const format = Object.values(MatchFormat).includes(raw.format as MatchFormat)
+    ? (raw.format as MatchFormat)
+    : DEFAULT_SETTINGS.format;
+  const targetLimits = format === MatchFormat.TIMED ? SETTING_LIMITS.timedTarget : SETTING_LIMITS.target;
+
+  return {
+    format,
+    target: inRange(raw.target, targetLimits) ? Math.round(raw.target) : DEFAULT_TARGETS[format],
+    countdownSeconds: inRange(raw.countdownSeconds, SETTING_LIMITS.countdownSeconds)
+      ? Math.round(raw.countdownSeconds)
+      : DEFAULT_SETTINGS.countdownSeconds,
+    lockInMs: inRange(raw.lockInMs, SETTING_LIMITS.lockInMs) ? raw.lockInMs : DEFAULT_SETTINGS.lockInMs,
+    drawHandling: Object.values(DrawHandling).includes(raw.drawHandling as DrawHandling)
+      ? (raw.drawHandling as DrawHandling)
+      : DEFAULT_SETTINGS.drawHandling,
+    invalidCountsAsLoss: typeof raw.invalidCountsAsLoss === 'boolean'
+      ? raw.invalidCountsAsLoss
+      : DEFAULT_SETTINGS.invalidCountsAsLoss,
+    strictTiming: typeof raw.strictTiming === 'boolean' ? raw.strictTiming : DEFAULT_SETTINGS.strictTiming,
+    handAssignment: ASSIGNMENT_STRATEGIES.includes(raw.handAssignment as AssignmentStrategy)
+      ? (raw.handAssignment as AssignmentStrategy)
+      : DEFAULT_SETTINGS.handAssignment
+  };
+};
+
+export const loadSettings = (storage: Storage | undefined = globalThis.localStorage): MatchSettings => {
+  try {
+    const stored = JSON.parse(storage?.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || stored.version !== SETTINGS_VERSION) return DEFAULT_SETTINGS;
+    return sanitizeSettings(stored.settings ?? {});
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: MatchSettings, storage: Storage | undefined = globalThis.localStorage) => {
+  try {
+    storage?.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }));
+  } catch (err) {
+    // Private browsing or a full quota; the settings still apply for this visit
+    console.warn('Could not save settings:', err);
+  }
+};
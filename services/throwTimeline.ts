@@ -0,0 +1,67 @@
+import { Gesture, Seat, TimingFlag } from '../types';
+
+// Per-round record of when each seat's stabilized gesture changed, from the
+// start of the countdown until shortly after the reveal. Times are relative to
+// the "shoot" moment (end of the countdown), so countdown entries are negative.
+// A throw is judged against what the seat was showing at the shoot deadline.
+
+export interface TimelineEntry {
+  t: number;
+  seat: Seat;
+  gesture: Gesture;
+  confidence: number;
+}
+
+export interface RoundTimeline {
+  // Engine time of the shoot moment
+  shootAt: number;
+  // Engine time the round was resolved; entries keep coming in for a short while after
+  resolvedAt: number | null;
+  entries: TimelineEntry[];
+}
+
+// Recording stops this long after the reveal
+export const POST_REVEAL_MS = 1000;
+// Keeps a flickering hand from growing the timeline without bound
+const MAX_ENTRIES = 300;
+
+export const createTimeline = (shootAt: number): RoundTimeline => ({ shootAt, resolvedAt: null, entries: [] });
+
+export const isRecording = (timeline: RoundTimeline, now: number): boolean =>
+  timeline.entries.length < MAX_ENTRIES && (timeline.resolvedAt === null || now - timeline.resolvedAt <= POST_REVEAL_MS);
+
+// Seat's gesture at time `t` (relative to the shoot moment)
+export const gestureAt = (timeline: RoundTimeline, seat: Seat, t: number): Gesture => {
+  let gesture = Gesture.NONE;
+  for (const entry of timeline.entries) {
+    if (entry.t > t) break;
+    if (entry.seat === seat) gesture = entry.gesture;
+  }
+  return gesture;
+};
+
+// Appends an entry when the seat's gesture changed; returns the same timeline otherwise.
+export const recordGesture = (
+  timeline: RoundTimeline,
+  seat: Seat,
+  gesture: Gesture,
+  confidence: number,
+  now: number
+): RoundTimeline => {
+  if (!isRecording(timeline, now)) return timeline;
+  const t = Math.round(now - timeline.shootAt);
+  if (gestureAt(timeline, seat, t) === gesture) return timeline;
+  return {
+    ...timeline,
+    entries: [...timeline.entries, { t, seat, gesture, confidence: Math.round(confidence * 100) / 100 }]
+  };
+};
+
+// 'late_switch': a different gesture was showing at the deadline.
+// 'late_throw': no gesture was showing at the deadline.
+export const judgeTiming = (timeline: RoundTimeline, seat: Seat, thrown: Gesture, graceMs: number): TimingFlag | null => {
+  if (thrown === Gesture.NONE) return null;
+  const atDeadline = gestureAt(timeline, seat, graceMs);
+  if (atDeadline === thrown) return null;
+  return atDeadline === Gesture.NONE ? 'late_throw' : 'late_switch';
+};
@@ -0,0 +1,79 @@
+// Minimal tween timeline for scene effects. Tweens are driven by whoever owns
+// the timeline calling update(now) once per frame, so they stay in step with
+// the render loop and can be replayed with a fake clock.
+
+export type Easing = (t: number) => number;
+
+export const easings = {
+  linear: (t: number) => t,
+  inCubic: (t: number) => t * t * t,
+  outCubic: (t: number) => 1 - (1 - t) ** 3,
+  inOutSine: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+  // Overshoots a little before settling
+  outBack: (t: number) => 1 + 2.70158 * (t - 1) ** 3 + 1.70158 * (t - 1) ** 2,
+  outBounce: (t: number) => {
+    if (t < 1 / 2.75) return 7.5625 * t * t;
+    if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
+    if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
+    return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
+  }
+};
+
+// Value between `from` and `to` at eased progress `t`.
+export const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+export interface TweenSpec {
+  duration: number;
+  delay?: number;
+  easing?: Easing;
+  // Tweens sharing a tag can be cancelled together
+  tag?: string;
+  // Runs once when the delay is over, e.g. to read the value to tween from
+  start?: () => void;
+  // Receives eased progress, 0..1
+  update: (t: number) => void;
+  complete?: () => void;
+}
+
+interface ActiveTween extends TweenSpec {
+  startsAt: number;
+  started: boolean;
+}
+
+export class Timeline {
+  private tweens: ActiveTween[] = [];
+
+  public add(spec: TweenSpec, now: number) {
+    this.tweens.push({ ...spec, startsAt: now + (spec.delay ?? 0), started: false });
+  }
+
+  // Advances every tween; finished ones get a final update(1) and are dropped.
+  public update(now: number) {
+    if (this.tweens.length === 0) return;
+    const running = this.tweens;
+    this.tweens = [];
+    running.forEach(tween => {
+      if (now < tween.startsAt) {
+        this.tweens.push(tween);
+        return;
+      }
+      if (!tween.started) {
+        tween.started = true;
+        tween.start?.();
+      }
+      const progress = tween.duration > 0 ? Math.min(1, (now - tween.startsAt) / tween.duration) : 1;
+      tween.update((tween.easing ?? easings.linear)(progress));
+      if (progress < 1) this.tweens.push(tween);
+      else tween.complete?.();
+    });
+  }
+
+  // Drops matching tweens where they are, without completing them.
+  public cancel(tag?: string) {
+    this.tweens = tag === undefined ? [] : this.tweens.filter(t => t.tag !== tag);
+  }
+
+  public get size(): number {
+    return this.tweens.length;
+  }
+}
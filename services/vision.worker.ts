@@ -0,0 +1,102 @@
+import { FilesetResolver, GestureRecognizer } from '@mediapipe/tasks-vision';
+import { AssetLoadError, assertReachable, fetchWithProgress } from './assetConfig';
+import { WorkerRequest, WorkerResponse } from './visionWorkerProtocol';
+
+// Runs the gesture recognizer off the main thread. One frame is processed at
+// a time; the client doesn't send another until the previous result is back.
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse): void;
+  importScripts(...urls: string[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// MediaPipe loads its wasm glue with importScripts, which module workers (the
+// dev server's kind) reject with a TypeError. Fall back to fetching the
+// script synchronously and evaluating it in global scope.
+const nativeImportScripts = scope.importScripts.bind(scope);
+scope.importScripts = (...urls: string[]) => {
+  try {
+    nativeImportScripts(...urls);
+  } catch (err) {
+    if (!(err instanceof TypeError)) throw err;
+    urls.forEach(url => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('GET', url, false);
+      xhr.send();
+      if (xhr.status !== 200) throw new Error(`Could not load ${url}: HTTP ${xhr.status}`);
+      (0, eval)(xhr.responseText);
+    });
+  }
+};
+
+let recognizer: GestureRecognizer | null = null;
+
+const post = (message: WorkerResponse) => scope.postMessage(message);
+
+const initialize = async (request: Extract<WorkerRequest, { type: 'init' }>) => {
+  post({ type: 'progress', progress: { stage: 'wasm', loaded: 0, total: null } });
+  await assertReachable(`${request.wasmBaseUrl}/vision_wasm_internal.wasm`, 'wasm');
+  const vision = await FilesetResolver.forVisionTasks(request.wasmBaseUrl);
+
+  const model = await fetchWithProgress(request.gestureModelUrl, 'model', (loaded, total) =>
+    post({ type: 'progress', progress: { stage: 'model', loaded, total } })
+  );
+
+  post({ type: 'progress', progress: { stage: 'init', loaded: 0, total: null } });
+  recognizer = await GestureRecognizer.createFromOptions(vision, {
+    baseOptions: { modelAssetBuffer: model, delegate: 'CPU' },
+    runningMode: 'VIDEO',
+    numHands: request.numHands
+  });
+  post({ type: 'ready' });
+};
+
+const recognize = (request: Extract<WorkerRequest, { type: 'frame' }>) => {
+  const { id, bitmap, timestamp } = request;
+  try {
+    if (!recognizer) throw new Error('Recognizer is not initialized');
+    const startedAt = performance.now();
+    const result = recognizer.recognizeForVideo(bitmap, timestamp);
+    const toPoints = (hands: { x: number; y: number; z: number }[][]) =>
+      hands.map(hand => hand.map(({ x, y, z }) => ({ x, y, z })));
+    post({
+      type: 'result',
+      id,
+      inferenceMs: performance.now() - startedAt,
+      frame: {
+        gestures: result.gestures.map(hand => hand.map(({ categoryName, score }) => ({ categoryName, score }))),
+        landmarks: toPoints(result.landmarks),
+        worldLandmarks: toPoints(result.worldLandmarks),
+        handedness: result.handedness.map(hand => hand.map(({ categoryName, score }) => ({ categoryName, score })))
+      }
+    });
+  } catch (err: any) {
+    post({ type: 'frame_error', id, message: err?.message ?? String(err) });
+  } finally {
+    bitmap.close();
+  }
+};
+
+scope.onmessage = event => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init':
+      initialize(request).catch(err => {
+        post({
+          type: 'error',
+          message: err?.message ?? String(err),
+          asset: err instanceof AssetLoadError ? { kind: err.kind, url: err.url, reason: err.reason } : undefined
+        });
+      });
+      break;
+    case 'options':
+      recognizer?.setOptions({ numHands: request.numHands }).catch(err => console.warn('Could not update recognizer options:', err));
+      break;
+    case 'frame':
+      recognize(request);
+      break;
+  }
+};
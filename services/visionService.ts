@@ -1,55 +1,303 @@
 import { GestureRecognizer, FilesetResolver } from '@mediapipe/tasks-vision';
-import { Gesture } from '../types';
+import { GameMode, Gesture } from '../types';
+import { detectExtendedShape, Point3 } from './handGeometry';
+import { classifyLandmarks, DEFAULT_CLASSIFIER_OPTIONS, Handedness, LandmarkDiagnostics } from './landmarkClassifier';
+import { RULE_SETS } from './rules';
+import { GestureProfile, classifyWithProfile } from './personalClassifier';
+import { AssetLoadError, LoadProgress, assertReachable, fetchWithProgress, getAssetConfig } from './assetConfig';
+import { VisionWorkerClient, WorkerStats } from './visionWorkerClient';
+
+// 'canned' trusts MediaPipe's gesture category, 'landmark' uses our own
+// classifier, 'personal' the user's calibration profile, and 'combined' picks
+// whichever is more certain (the profile standing in for the landmark
+// classifier when one is loaded).
+export type ClassifierMode = 'canned' | 'landmark' | 'personal' | 'combined';
+
+export interface VisionConfig {
+  classifier: ClassifierMode;
+  // Canned categories under this score are ignored in combined mode.
+  cannedMinScore: number;
+  profile: GestureProfile | null;
+  // 'worker' runs the recognizer in a Web Worker (falling back to the main
+  // thread where workers can't run it); 'main' keeps it on the UI thread.
+  inference: 'worker' | 'main';
+  // Recognizer calls per second at most; camera frames in between are skipped.
+  targetFps: number;
+}
+
+export interface InferenceStats extends WorkerStats {
+  backend: 'worker' | 'main' | null;
+}
+
+export interface DetectionResult {
+  gesture: Gesture;
+  confidence: number;
+  source: 'canned' | 'landmark' | 'personal' | null;
+  // MediaPipe's top category for the hand, whatever the throw was read from
+  categoryName?: string;
+  categoryScore?: number;
+  diagnostics?: LandmarkDiagnostics;
+  // Normalized image landmarks (0..1) of the hand
+  landmarks?: Point3[];
+  // Metric landmarks in metres around the hand's centre, when the source has them
+  worldLandmarks?: Point3[];
+  handedness?: Handedness | null;
+  // Every hand in the frame; the top-level fields describe hands[0].
+  hands?: HandDetection[];
+}
+
+export interface HandDetection extends Omit<DetectionResult, 'hands'> {
+  handedness: Handedness | null;
+  // Horizontal centre of the hand in raw (unmirrored) video coordinates, 0..1.
+  centerX: number;
+}
+
+// The subset of GestureRecognizerResult we read; recorded frames match it too.
+export interface RecognitionFrame {
+  gestures: { categoryName: string; score: number }[][];
+  landmarks: Point3[][];
+  // Missing from recordings made before world landmarks were kept
+  worldLandmarks?: Point3[][];
+  handedness: { categoryName: string; score: number }[][];
+}
+
+export const DEFAULT_VISION_CONFIG: VisionConfig = {
+  classifier: 'combined',
+  cannedMinScore: 0.6,
+  profile: null,
+  inference: 'worker',
+  targetFps: 24
+};
+
+const CANNED_GESTURES: Record<string, Gesture> = {
+  Closed_Fist: Gesture.ROCK,
+  Open_Palm: Gesture.PAPER,
+  Victory: Gesture.SCISSORS
+};
+
+const EMPTY_DETECTION: DetectionResult = { gesture: Gesture.NONE, confidence: 0, source: null };
+
+const interpretHand = (
+  frame: RecognitionFrame,
+  hand: number,
+  config: VisionConfig,
+  mode: GameMode
+): DetectionResult => {
+  const landmarks = frame.landmarks[hand];
+  if (!landmarks) return EMPTY_DETECTION;
+
+  const handLabel = frame.handedness[hand]?.[0]?.categoryName;
+  const handedness: Handedness | null = handLabel === 'Left' || handLabel === 'Right' ? handLabel : null;
+  const allowed = RULE_SETS[mode].gestures;
+
+  const top = frame.gestures[hand]?.[0];
+  const cannedGesture = top ? CANNED_GESTURES[top.categoryName] ?? Gesture.NONE : Gesture.NONE;
+  const canned: DetectionResult = {
+    gesture: cannedGesture,
+    confidence: top?.score ?? 0,
+    source: 'canned',
+    categoryName: top?.categoryName
+  };
+
+  if (config.classifier === 'canned') {
+    // Lizard and Spock have no canned category, so check the landmarks first
+    if (mode === GameMode.RPSLS) {
+      const extended = detectExtendedShape(landmarks);
+      if (extended !== Gesture.NONE) {
+        return { gesture: extended, confidence: frame.handedness[hand]?.[0]?.score ?? 0, source: 'landmark', categoryName: top?.categoryName };
+      }
+    }
+    return canned;
+  }
+
+  const classified = classifyLandmarks(landmarks, handedness, { ...DEFAULT_CLASSIFIER_OPTIONS, allowed });
+  const heuristic: DetectionResult = classified
+    ? { ...classified, source: 'landmark', categoryName: top?.categoryName }
+    : EMPTY_DETECTION;
+
+  if (config.classifier === 'landmark') return heuristic;
+
+  let landmark = heuristic;
+  if (config.profile) {
+    const personal = classifyWithProfile(config.profile, landmarks, handedness, allowed);
+    landmark = {
+      gesture: personal.gesture,
+      confidence: personal.confidence,
+      source: 'personal',
+      categoryName: top?.categoryName,
+      diagnostics: heuristic.diagnostics
+    };
+  }
+  if (config.classifier === 'personal') return landmark;
+
+  // Combined: agreement is the strongest signal; otherwise prefer a confident
+  // canned category and fall back to the landmark reading.
+  if (canned.gesture !== Gesture.NONE && canned.gesture === landmark.gesture) {
+    return { ...landmark, confidence: Math.max(canned.confidence, landmark.confidence) };
+  }
+  if (canned.gesture !== Gesture.NONE && canned.confidence >= config.cannedMinScore
+      && canned.confidence >= landmark.confidence) {
+    return { ...canned, diagnostics: landmark.diagnostics };
+  }
+  return landmark;
+};
+
+export const interpretFrame = (
+  frame: RecognitionFrame,
+  config: VisionConfig = DEFAULT_VISION_CONFIG,
+  mode: GameMode = GameMode.CLASSIC
+): DetectionResult => {
+  if (frame.landmarks.length === 0) return EMPTY_DETECTION;
+
+  const hands: HandDetection[] = frame.landmarks.map((landmarks, i) => {
+    const label = frame.handedness[i]?.[0]?.categoryName;
+    return {
+      ...interpretHand(frame, i, config, mode),
+      // Kept even when no throw was read, for the command gestures
+      categoryName: frame.gestures[i]?.[0]?.categoryName,
+      categoryScore: frame.gestures[i]?.[0]?.score,
+      landmarks,
+      worldLandmarks: frame.worldLandmarks?.[i],
+      handedness: label === 'Left' || label === 'Right' ? label : null,
+      centerX: landmarks.reduce((sum, p) => sum + p.x, 0) / landmarks.length
+    };
+  });
+  return { ...hands[0], hands };
+};
+
+const canUseWorker = () => typeof Worker !== 'undefined' && typeof createImageBitmap === 'function';
 
 class VisionService {
   private gestureRecognizer: GestureRecognizer | null = null;
+  private worker: VisionWorkerClient | null = null;
   private runningMode: 'VIDEO' = 'VIDEO';
+  private mode: GameMode = GameMode.CLASSIC;
+  private config: VisionConfig = { ...DEFAULT_VISION_CONFIG };
+  private numHands = 1;
+  private lastFrameAt = -Infinity;
+  private mainStats: WorkerStats = { framesProcessed: 0, framesDropped: 0, restarts: 0, lastInferenceMs: null };
+
+  public setMode(mode: GameMode) {
+    this.mode = mode;
+  }
+
+  public getMode(): GameMode {
+    return this.mode;
+  }
+
+  public configure(config: Partial<VisionConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  public getConfig(): VisionConfig {
+    return this.config;
+  }
+
+  // Two hands are tracked for local two-player matches.
+  public async setNumHands(numHands: number) {
+    if (numHands === this.numHands) return;
+    this.numHands = numHands;
+    this.worker?.setNumHands(numHands);
+    await this.gestureRecognizer?.setOptions({ numHands });
+  }
+
+  public getStats(): InferenceStats {
+    if (this.worker) return { backend: 'worker', ...this.worker.getStats() };
+    return { backend: this.gestureRecognizer ? 'main' : null, ...this.mainStats };
+  }
 
-  public async initialize() {
-    if (this.gestureRecognizer) return;
+  public async initialize(onProgress?: (progress: LoadProgress) => void) {
+    if (this.gestureRecognizer || this.worker) return;
 
+    if (this.config.inference === 'worker' && canUseWorker()) {
+      try {
+        await this.startWorker(onProgress);
+        return;
+      } catch (err) {
+        // Missing assets fail the same way on the main thread, so report them as is
+        if (err instanceof AssetLoadError) throw err;
+        console.warn('Vision worker unavailable, running recognition on the main thread:', err);
+      }
+    }
+    await this.initializeMainThread(onProgress);
+  }
+
+  private async startWorker(onProgress?: (progress: LoadProgress) => void) {
+    console.log("Starting MediaPipe vision worker...");
+    const assets = getAssetConfig();
+    const worker = new VisionWorkerClient(
+      () => new Worker(new URL('./vision.worker.ts', import.meta.url), { type: 'module' }),
+      {
+        onFatal: err => {
+          console.error('Vision worker failed for good, moving recognition to the main thread:', err);
+          this.worker = null;
+          this.initializeMainThread().catch(e => console.error('Main-thread recognizer failed too:', e));
+        }
+      }
+    );
+    this.worker = worker;
+    try {
+      await worker.initialize({ wasmBaseUrl: assets.wasmBaseUrl, gestureModelUrl: assets.gestureModelUrl }, this.numHands, onProgress);
+    } catch (err) {
+      this.worker = null;
+      throw err;
+    }
+    console.log("MediaPipe vision worker ready");
+  }
+
+  private async initializeMainThread(onProgress?: (progress: LoadProgress) => void) {
     console.log("Initializing MediaPipe Vision Service...");
+    const assets = getAssetConfig();
+
+    onProgress?.({ stage: 'wasm', loaded: 0, total: null });
+    await assertReachable(`${assets.wasmBaseUrl}/vision_wasm_internal.wasm`, 'wasm');
+    const vision = await FilesetResolver.forVisionTasks(assets.wasmBaseUrl);
 
-    const vision = await FilesetResolver.forVisionTasks(
-      "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm"
+    const model = await fetchWithProgress(assets.gestureModelUrl, 'model', (loaded, total) =>
+      onProgress?.({ stage: 'model', loaded, total })
     );
 
+    onProgress?.({ stage: 'init', loaded: 0, total: null });
     this.gestureRecognizer = await GestureRecognizer.createFromOptions(vision, {
       baseOptions: {
-        modelAssetPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-        // Explicitly using CPU to match the XNNPACK log and ensure stability. 
+        modelAssetBuffer: model,
+        // Explicitly using CPU to match the XNNPACK log and ensure stability.
         // This prevents GPU context loss or fallback delays on some devices.
-        delegate: "CPU" 
+        delegate: "CPU"
       },
-      runningMode: this.runningMode
+      runningMode: this.runningMode,
+      numHands: this.numHands
     });
+    onProgress?.({ stage: 'ready', loaded: 0, total: null });
     console.log("MediaPipe Gesture Recognizer initialized successfully");
   }
 
-  public detect(video: HTMLVideoElement): { gesture: Gesture, confidence: number } {
-    if (!this.gestureRecognizer) return { gesture: Gesture.NONE, confidence: 0 };
-    if (video.currentTime === 0) return { gesture: Gesture.NONE, confidence: 0 };
+  // Returns null when there is no new result for this call: the frame was
+  // skipped to keep to targetFps, or the worker's answer is still on its way.
+  public detect(video: HTMLVideoElement, now: number = performance.now()): DetectionResult | null {
+    if (video.currentTime === 0) return null;
+    const due = now - this.lastFrameAt >= 1000 / this.config.targetFps;
 
+    if (this.worker) {
+      if (due && this.worker.submit(video, now)) this.lastFrameAt = now;
+      const frame = this.worker.take();
+      return frame ? interpretFrame(frame, this.config, this.mode) : null;
+    }
+
+    if (!this.gestureRecognizer || !due) return null;
+    this.lastFrameAt = now;
     try {
-        // Use performance.now() for monotonic increasing timestamps
-        const result = this.gestureRecognizer.recognizeForVideo(video, performance.now());
-
-        if (result.gestures.length > 0) {
-            const topGesture = result.gestures[0][0];
-            const categoryName = topGesture.categoryName;
-            const score = topGesture.score;
-
-            if (categoryName === 'Closed_Fist') return { gesture: Gesture.ROCK, confidence: score };
-            if (categoryName === 'Open_Palm') return { gesture: Gesture.PAPER, confidence: score };
-            if (categoryName === 'Victory') return { gesture: Gesture.SCISSORS, confidence: score };
-            
-            return { gesture: Gesture.NONE, confidence: score };
-        }
+        // performance.now() keeps the timestamps monotonically increasing
+        const startedAt = performance.now();
+        const result = this.gestureRecognizer.recognizeForVideo(video, now);
+        this.mainStats.framesProcessed++;
+        this.mainStats.lastInferenceMs = performance.now() - startedAt;
+        return interpretFrame(result, this.config, this.mode);
     } catch (e) {
         console.warn("Detection error:", e);
     }
 
-    return { gesture: Gesture.NONE, confidence: 0 };
+    return EMPTY_DETECTION;
   }
 }
 
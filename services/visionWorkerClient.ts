@@ -0,0 +1,188 @@
+import { AssetLoadError, LoadProgress } from './assetConfig';
+import { RecognitionFrame } from './visionService';
+import { WorkerRequest, WorkerResponse } from './visionWorkerProtocol';
+
+// Main-thread side of the inference worker. At most one frame is in flight:
+// frames submitted while the worker is busy are dropped rather than queued,
+// so results never lag behind the camera. A worker that crashes or stops
+// answering is replaced; after too many restarts the client gives up.
+
+export interface WorkerClientOptions {
+  // Restarts allowed before onFatal is called
+  maxRestarts: number;
+  // A frame unanswered for this long counts as a hung worker
+  hangTimeoutMs: number;
+  onFatal?: (err: Error) => void;
+}
+
+export interface WorkerStats {
+  framesProcessed: number;
+  framesDropped: number;
+  restarts: number;
+  lastInferenceMs: number | null;
+}
+
+const DEFAULT_OPTIONS: WorkerClientOptions = {
+  maxRestarts: 3,
+  hangTimeoutMs: 3000
+};
+
+type InitRequest = Extract<WorkerRequest, { type: 'init' }>;
+
+export class VisionWorkerClient {
+  private options: WorkerClientOptions;
+  private worker: Worker | null = null;
+  private init: InitRequest | null = null;
+  private ready = false;
+  // Bumped on every restart so late replies from a replaced worker are ignored
+  private generation = 0;
+  private nextId = 1;
+  private inFlight: { id: number; since: number } | null = null;
+  private latest: RecognitionFrame | null = null;
+  private stats: WorkerStats = { framesProcessed: 0, framesDropped: 0, restarts: 0, lastInferenceMs: null };
+
+  constructor(private createWorker: () => Worker, options: Partial<WorkerClientOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public initialize(
+    assets: { wasmBaseUrl: string; gestureModelUrl: string },
+    numHands: number,
+    onProgress?: (progress: LoadProgress) => void
+  ): Promise<void> {
+    this.init = { type: 'init', ...assets, numHands };
+    return this.spawn(onProgress);
+  }
+
+  public setNumHands(numHands: number) {
+    if (this.init) this.init = { ...this.init, numHands };
+    if (this.ready) this.send({ type: 'options', numHands });
+  }
+
+  // Returns false when the frame was dropped.
+  public submit(video: HTMLVideoElement, timestamp: number): boolean {
+    if (this.inFlight && timestamp - this.inFlight.since > this.options.hangTimeoutMs) {
+      this.restart(new Error(`Vision worker did not answer within ${this.options.hangTimeoutMs} ms`));
+    }
+    if (!this.ready || this.inFlight) {
+      this.stats.framesDropped++;
+      return false;
+    }
+
+    const id = this.nextId++;
+    const generation = this.generation;
+    this.inFlight = { id, since: timestamp };
+    createImageBitmap(video).then(
+      bitmap => {
+        if (generation !== this.generation) {
+          bitmap.close();
+          return;
+        }
+        this.worker!.postMessage({ type: 'frame', id, bitmap, timestamp } satisfies WorkerRequest, [bitmap]);
+      },
+      err => {
+        // e.g. the video has no frame yet; free the slot for the next one
+        if (this.inFlight?.id === id) this.inFlight = null;
+        console.warn('Could not capture video frame:', err);
+      }
+    );
+    return true;
+  }
+
+  // Newest result since the last call, if any.
+  public take(): RecognitionFrame | null {
+    const frame = this.latest;
+    this.latest = null;
+    return frame;
+  }
+
+  public getStats(): WorkerStats {
+    return { ...this.stats };
+  }
+
+  public terminate() {
+    this.generation++;
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = false;
+    this.inFlight = null;
+  }
+
+  private send(request: WorkerRequest) {
+    this.worker?.postMessage(request);
+  }
+
+  private spawn(onProgress?: (progress: LoadProgress) => void): Promise<void> {
+    this.terminate();
+    const generation = this.generation;
+    const worker = this.createWorker();
+    this.worker = worker;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = (err?: Error) => {
+        if (settled) return;
+        settled = true;
+        if (err) reject(err);
+        else resolve();
+      };
+
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        if (generation !== this.generation) return;
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            onProgress?.(message.progress);
+            break;
+          case 'ready':
+            this.ready = true;
+            onProgress?.({ stage: 'ready', loaded: 0, total: null });
+            settle();
+            break;
+          case 'error':
+            settle(message.asset
+              ? new AssetLoadError(message.asset.kind, message.asset.url, message.asset.reason)
+              : new Error(message.message));
+            break;
+          case 'result':
+            if (this.inFlight?.id === message.id) this.inFlight = null;
+            this.latest = message.frame;
+            this.stats.framesProcessed++;
+            this.stats.lastInferenceMs = message.inferenceMs;
+            break;
+          case 'frame_error':
+            if (this.inFlight?.id === message.id) this.inFlight = null;
+            console.warn('Detection error:', message.message);
+            break;
+        }
+      };
+      worker.onerror = event => {
+        event.preventDefault();
+        const err = new Error(`Vision worker crashed: ${event.message || 'unknown error'}`);
+        if (!settled) {
+          // Failing during start-up is not worth retrying
+          this.terminate();
+          settle(err);
+          return;
+        }
+        this.restart(err);
+      };
+
+      worker.postMessage(this.init!);
+    });
+  }
+
+  private restart(reason: Error) {
+    if (this.stats.restarts >= this.options.maxRestarts) {
+      this.terminate();
+      this.options.onFatal?.(reason);
+      return;
+    }
+    this.stats.restarts++;
+    console.warn(`${reason.message}; restarting (${this.stats.restarts}/${this.options.maxRestarts})`);
+    this.spawn().catch(err => {
+      this.terminate();
+      this.options.onFatal?.(err);
+    });
+  }
+}
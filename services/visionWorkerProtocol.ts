@@ -0,0 +1,21 @@
+import { AssetKind, LoadProgress } from './assetConfig';
+import { RecognitionFrame } from './visionService';
+
+// Messages between VisionWorkerClient and vision.worker.ts. Frames go in as
+// ImageBitmaps (transferred, closed by the worker); results come back as the
+// plain recognizer output, which the main thread interprets with its own
+// classifier settings.
+
+export type WorkerRequest =
+  | { type: 'init'; wasmBaseUrl: string; gestureModelUrl: string; numHands: number }
+  | { type: 'options'; numHands: number }
+  | { type: 'frame'; id: number; bitmap: ImageBitmap; timestamp: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: LoadProgress }
+  | { type: 'ready' }
+  // `asset` is set when a runtime file could not be loaded
+  | { type: 'error'; message: string; asset?: { kind: AssetKind; url: string; reason: string } }
+  | { type: 'result'; id: number; frame: RecognitionFrame; inferenceMs: number }
+  // A frame the recognizer threw on; the worker stays usable
+  | { type: 'frame_error'; id: number; message: string };
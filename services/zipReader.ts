@@ -0,0 +1,60 @@
+// Minimal reader for .zip archives, enough for asset packs: stored and
+// deflated entries, no encryption, no ZIP64. Entries are decompressed on
+// demand with the browser's DecompressionStream.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+// Path inside the archive → loader for that file's contents
+export type ZipEntries = Map<string, () => Promise<Blob>>;
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('not a zip archive');
+};
+
+const inflate = (data: Blob): Promise<Blob> =>
+  new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+
+export const readZip = async (file: Blob): Promise<ZipEntries> => {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries: ZipEntries = new Map();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error('corrupt zip central directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Folders are listed as entries too
+    if (name.endsWith('/')) continue;
+
+    entries.set(name, async () => {
+      if (view.getUint32(headerOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`corrupt zip entry ${name}`);
+      const start = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+      const data = new Blob([new Uint8Array(buffer, start, compressedSize)]);
+      if (method === STORED) return data;
+      if (method === DEFLATED) return inflate(data);
+      throw new Error(`${name} uses an unsupported compression method (${method})`);
+    });
+  }
+  return entries;
+};
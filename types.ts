@@ -1,3 +1,5 @@
+import type { MessageKey } from './services/i18n';
+
 export enum GameState {
   IDLE = 'IDLE',
   COUNTDOWN = 'COUNTDOWN',
@@ -10,15 +12,74 @@ export enum Gesture {
   NONE = 'NONE',
   ROCK = 'ROCK',
   PAPER = 'PAPER',
-  SCISSORS = 'SCISSORS'
+  SCISSORS = 'SCISSORS',
+  LIZARD = 'LIZARD',
+  SPOCK = 'SPOCK'
+}
+
+export enum GameMode {
+  CLASSIC = 'CLASSIC',
+  RPSLS = 'RPSLS'
+}
+
+export enum Difficulty {
+  EASY = 'EASY',
+  MEDIUM = 'MEDIUM',
+  HARD = 'HARD',
+  EXPERT = 'EXPERT'
+}
+
+export enum OpponentType {
+  BOT = 'BOT',
+  LOCAL = 'LOCAL',
+  NETWORK = 'NETWORK'
+}
+
+export enum MatchFormat {
+  FIRST_TO = 'FIRST_TO',
+  BEST_OF = 'BEST_OF',
+  TIMED = 'TIMED',
+  SUDDEN_DEATH = 'SUDDEN_DEATH'
 }
 
-export interface Score {
-  player: number;
-  bot: number;
+export enum DrawHandling {
+  // A drawn round doesn't use up a round of the format
+  REPLAY = 'REPLAY',
+  // A drawn round counts as played (and ends a sudden-death match as a draw)
+  COUNT = 'COUNT'
 }
 
+// Seats are the two sides of a match: p1 is always a human at this camera,
+// p2 is the bot, a second local player or the remote opponent.
+export type Seat = 'p1' | 'p2';
+
+export const SEATS: Seat[] = ['p1', 'p2'];
+
+export type Score = Record<Seat, number>;
+
+// Why a throw was flagged by the timing check (see throwTimeline).
+export type TimingFlag = 'late_switch' | 'late_throw';
+
+// Player-facing text as a catalog key plus parameters; the UI renders it in
+// the player's language (see services/i18n). String params are shown as-is.
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export type MessageParam = string | number | Message | Message[];
+export type MessageParams = Record<string, MessageParam>;
+
 export interface GameResult {
-  winner: 'player' | 'bot' | 'draw' | 'invalid' | null;
-  message: string;
+  winner: Seat | 'draw' | 'invalid' | 'unclear' | null;
+  message: Message;
+  detail?: Message;
+  // Seats whose hand was not seen during lock-in (invalid rounds only).
+  missing?: Seat[];
+  // Seat given the point when a missing hand counts as a loss.
+  awardedTo?: Seat;
+  // Throws that only settled after the shoot deadline; in strict mode these void the round.
+  timing?: Partial<Record<Seat, TimingFlag>>;
 }
+
+export type MatchWinner = Seat | 'draw';
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,13 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tailwindcss()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ASSET_BASE_URL': JSON.stringify(env.ASSET_BASE_URL || ''),
+        'process.env.MEDIAPIPE_WASM_URL': JSON.stringify(env.MEDIAPIPE_WASM_URL || ''),
+        'process.env.GESTURE_MODEL_URL': JSON.stringify(env.GESTURE_MODEL_URL || ''),
+        'process.env.RELAY_URL': JSON.stringify(env.RELAY_URL || 'ws://localhost:8787'),
+        'process.env.COMMENTARY_URL': JSON.stringify(env.COMMENTARY_URL || '')
       },
       resolve: {
         alias: {